@@ -1,21 +1,61 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Candle, AnalysisResult, Config, Drawing, DrawingType } from './types';
-import { analyzePriceData } from './services/technicalAnalysis';
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import { Candle, AnalysisResult, Config, Drawing, DrawingType, MarketSymbol, PDArrayKind, ScoreBreakdown, ConfigPreset, PaperAccount, RiskSettings, AlertRule, AlertEvent, Watchlist, SignalEvent } from './types';
+import { createEmptyAnalysis } from './services/technicalAnalysis';
+import { AnalysisTarget, LiveAnalysis, createLiveAnalysis } from './services/liveAnalysis';
+import { createSignalEvent, recordSignal, resolveSignals } from './services/signalHistory';
 import { getFastAnalysis, getSearchAnalysis, getDeepThinkingAnalysis, AIAnalysisResult } from './services/geminiService';
-import { fetchBinanceKlines, subscribeToBinanceKlines } from './services/marketData';
+import { MarketDataProvider, FeedStatus, binanceProvider, followKlines, mergeCandle, prependCandles } from './services/marketData';
+import { ReplayProvider, createReplayProvider, parseCandleFile } from './services/localDataProvider';
+import { computeHTFBias, intervalToMs, TimeframeAnalysis, EXECUTION_INTERVALS, HIGHER_INTERVALS, INTERVAL_MS } from './services/multiTimeframe';
+import { buildSessionOverlay, killzoneAt } from './services/sessions';
+import { formatScore } from './services/scoring';
+import { DEFAULT_CONFIG, createPreset, presetsForSymbol, sanitizeConfig, upsertPreset } from './services/parameters';
 import Chart from './components/Chart';
+import BacktestPanel from './components/BacktestPanel';
+import OptimizerPanel from './components/OptimizerPanel';
+import PaperTradingPanel from './components/PaperTradingPanel';
+import { createPaperAccount, processCandle, accountEquity } from './services/paperBroker';
+import RiskPanel from './components/RiskPanel';
+import AlertsPanel from './components/AlertsPanel';
+import AlertToasts from './components/AlertToasts';
+import DrawingStyleEditor from './components/DrawingStyleEditor';
+import ScannerView from './components/ScannerView';
+import SessionsPanel from './components/SessionsPanel';
+import PDArrayPanel from './components/PDArrayPanel';
+import ScoringPanel from './components/ScoringPanel';
+import DetectionPanel from './components/DetectionPanel';
+import PresetsPanel from './components/PresetsPanel';
+import SignalHistoryPanel from './components/SignalHistoryPanel';
+import { evaluateAlerts, sendBrowserNotification } from './services/alerts';
+import { DRAWING_TOOLS } from './services/drawingTools';
+import { DrawingHistory, createDrawingHistory, commitDrawings, undoDrawings, redoDrawings } from './services/drawingHistory';
+import { DEFAULT_RISK_SETTINGS, calculatePositionSize, getContractSpec } from './services/riskManagement';
 
-const SUPPORTED_SYMBOLS = [
-  { symbol: 'BTCUSDT', name: 'Bitcoin', icon: 'fa-brands fa-bitcoin text-orange-500', short: 'BTC' },
-  { symbol: 'ETHUSDT', name: 'Ethereum', icon: 'fa-brands fa-ethereum text-blue-400', short: 'ETH' },
-  { symbol: 'PAXGUSDT', name: 'Gold', icon: 'fa-solid fa-coins text-yellow-500', short: 'XAU' },
-  { symbol: 'SOLUSDT', name: 'Solana', icon: 'fa-solid fa-s text-purple-400', short: 'SOL' },
-  { symbol: 'BNBUSDT', name: 'Binance Coin', icon: 'fa-solid fa-b text-yellow-500', short: 'BNB' },
-  { symbol: 'XRPUSDT', name: 'Ripple', icon: 'fa-solid fa-x text-slate-300', short: 'XRP' },
-  { symbol: 'ADAUSDT', name: 'Cardano', icon: 'fa-solid fa-a text-blue-600', short: 'ADA' },
-  { symbol: 'DOGEUSDT', name: 'Dogecoin', icon: 'fa-solid fa-dog text-yellow-600', short: 'DOGE' },
-];
+const FEED_STATUS_STYLES: Record<FeedStatus, { dot: string; label: string }> = {
+  connecting: { dot: 'bg-amber-500 animate-pulse', label: 'Connecting...' },
+  live: { dot: 'bg-emerald-500 animate-pulse', label: 'Market Data Connected' },
+  stale: { dot: 'bg-amber-500', label: 'Feed Stale' },
+  reconnecting: { dot: 'bg-amber-500 animate-pulse', label: 'Reconnecting...' },
+  error: { dot: 'bg-rose-500', label: 'Feed Error - Retrying' },
+};
+
+// Live bars trim the series back to this, or to the history the user has paged in
+const MIN_LIVE_BARS = 200;
+const HISTORY_PAGE_SIZE = 300;
+
+// Saved state is read while the first render initialises it, so no save runs
+// on the defaults first and overwrites what was stored
+const loadSaved = <T,>(key: string, fallback: T, label: string): T => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return fallback;
+  try {
+    return JSON.parse(saved);
+  } catch (e) {
+    console.error(`Failed to parse ${label}`, e);
+    return fallback;
+  }
+};
 
 const App: React.FC = () => {
   const [data, setData] = useState<Candle[]>([]);
@@ -23,97 +63,417 @@ const App: React.FC = () => {
   const [aiResult, setAiResult] = useState<AIAnalysisResult | null>(null);
   const [isLoadingAi, setIsLoadingAi] = useState(false);
   const [activeAiMode, setActiveAiMode] = useState<'fast' | 'search' | 'deep' | null>(null);
-  const [isLive, setIsLive] = useState(false);
+  const [isSynced, setIsSynced] = useState(false);
+  const [feedStatus, setFeedStatus] = useState<FeedStatus>('connecting');
   const [currentSymbol, setCurrentSymbol] = useState('BTCUSDT');
+
+  // Data Source: Binance by default, or a local file replayed as a live feed
+  const [replayProvider, setReplayProvider] = useState<ReplayProvider | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(2);
+  const [symbols, setSymbols] = useState<MarketSymbol[]>([]);
+  const provider: MarketDataProvider = replayProvider ?? binanceProvider;
   
   // Drawing Tools State
   const [activeTool, setActiveTool] = useState<DrawingType | null>(null);
-  const [drawings, setDrawings] = useState<Drawing[]>([]);
+  // Drawings belong to the symbol they were made on; `symbol` is empty until the first load
+  const [drawingState, setDrawingState] = useState<{ symbol: string; history: DrawingHistory }>({ symbol: '', history: createDrawingHistory() });
+  const [selectedDrawingId, setSelectedDrawingId] = useState<string | null>(null);
+  const drawings = drawingState.history.present;
   
-  const [config, setConfig] = useState<Config>({
-    swingLength: 5,
-    obLookback: 10,
-    minConfluence: 2,
-    rrRatio: 2.0,
-    slBuffer: 0.1
+  const [config, setConfig] = useState<Config>(DEFAULT_CONFIG);
+  // Saved parameter sets, and which one each symbol last used
+  const [presets, setPresets] = useState<ConfigPreset[]>(() => loadSaved('ict_presets', [], 'presets'));
+  const [activePresets, setActivePresets] = useState<Record<string, string>>(() => loadSaved('ict_active_presets', {}, 'presets'));
+
+  // Timeframes: one execution chart plus any number of higher-timeframe contexts
+  const [currentInterval, setCurrentInterval] = useState('15m');
+  const [htfIntervals, setHtfIntervals] = useState<string[]>(['4h']);
+  const [htfData, setHtfData] = useState<Record<string, Candle[]>>({});
+  const [htfResults, setHtfResults] = useState<Record<string, AnalysisResult>>({});
+  const [showHtfZones, setShowHtfZones] = useState(true);
+  const [showSessions, setShowSessions] = useState(true);
+  const [hiddenPdArrays, setHiddenPdArrays] = useState<PDArrayKind[]>([]);
+
+  const [paperAccount, setPaperAccount] = useState<PaperAccount>(() => loadSaved('ict_paper_account', createPaperAccount(), 'paper account'));
+  const [riskSettings, setRiskSettings] = useState<RiskSettings>(() => {
+    const saved = loadSaved<Partial<RiskSettings>>('ict_risk_settings', {}, 'risk settings');
+    return { ...DEFAULT_RISK_SETTINGS, ...saved, contracts: { ...DEFAULT_RISK_SETTINGS.contracts, ...saved.contracts } };
   });
 
+  // Alerts State
+  const [alertRules, setAlertRules] = useState<AlertRule[]>(() => loadSaved('ict_alerts', [], 'alerts'));
+  const [alertLog, setAlertLog] = useState<AlertEvent[]>(() => loadSaved('ict_alert_log', [], 'alert log'));
+  const [toasts, setToasts] = useState<AlertEvent[]>([]);
+  const alertRulesRef = useRef<AlertRule[]>(alertRules);
+  const prevAnalysisRef = useRef<AnalysisResult | undefined>(undefined);
+  const prevPriceRef = useRef<number | undefined>(undefined);
+
+  // Confirmed signals across every chart that has been open, newest first
+  const [signalHistory, setSignalHistory] = useState<SignalEvent[]>(() => loadSaved('ict_signal_history', [], 'signal history'));
+
+  // Scanner State
+  const [watchlist, setWatchlist] = useState<Watchlist>(() => loadSaved('ict_watchlist', { symbols: ['BTCUSDT', 'ETHUSDT', 'PAXGUSDT'], intervals: ['15m'] }, 'watchlist'));
+  const [showScanner, setShowScanner] = useState(false);
+
   const dataRef = useRef<Candle[]>([]);
-  const currentInterval = '15m';
+  // The chart `data` was loaded for; lags the selection until the new series arrives
+  const dataTargetRef = useRef<AnalysisTarget | null>(null);
+  // Replaced on every reload so a page fetched for an old series is discarded;
+  // `keep` is how many bars live updates trim the series back to
+  const historyRef = useRef({ loading: false, exhausted: false, keep: MIN_LIVE_BARS });
+  const htfDataRef = useRef<Record<string, Candle[]>>({});
+  const htfAnalysisRef = useRef<LiveAnalysis | null>(null);
 
-  // Persistence: Load Drawings
+  // Persistence: Load Drawings (per symbol; the old global key is adopted by the first symbol opened)
   useEffect(() => {
-    const saved = localStorage.getItem('ict_drawings');
+    const legacy = localStorage.getItem('ict_drawings');
+    const saved = localStorage.getItem(`ict_drawings_${currentSymbol}`) ?? legacy;
+    if (legacy !== null) localStorage.removeItem('ict_drawings');
+
+    let loaded: Drawing[] = [];
     if (saved) {
       try {
-        setDrawings(JSON.parse(saved));
+        loaded = JSON.parse(saved);
       } catch (e) {
         console.error('Failed to parse drawings', e);
       }
     }
-  }, []);
+    setDrawingState({ symbol: currentSymbol, history: createDrawingHistory(loaded) });
+    setSelectedDrawingId(null);
+  }, [currentSymbol]);
 
   // Persistence: Save Drawings
   useEffect(() => {
-    localStorage.setItem('ict_drawings', JSON.stringify(drawings));
-  }, [drawings]);
+    if (!drawingState.symbol) return;
+    localStorage.setItem(`ict_drawings_${drawingState.symbol}`, JSON.stringify(drawingState.history.present));
+  }, [drawingState]);
 
-  // Initial Load & Symbol Switching
+  // Keyboard: delete the selected drawing, undo/redo drawing edits
   useEffect(() => {
-    let isMounted = true;
-    setIsLive(false);
-    
-    const loadData = async () => {
-      const historical = await fetchBinanceKlines(currentSymbol, currentInterval, 150);
-      if (isMounted && historical.length > 0) {
-        dataRef.current = historical;
-        setData(historical);
-        const result = analyzePriceData(historical, config);
-        setAnalysis(result);
-        setIsLive(true);
+    const onKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      if ((e.ctrlKey || e.metaKey) && (key === 'z' || key === 'y')) {
+        e.preventDefault();
+        const redo = key === 'y' || e.shiftKey;
+        setDrawingState(prev => ({ ...prev, history: redo ? redoDrawings(prev.history) : undoDrawings(prev.history) }));
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedDrawingId) {
+        e.preventDefault();
+        deleteDrawing(selectedDrawingId);
+      } else if (e.key === 'Escape') {
+        setSelectedDrawingId(null);
+        setActiveTool(null);
       }
     };
-    loadData();
-
-    // Subscribe to Live Updates
-    const unsubscribe = subscribeToBinanceKlines(currentSymbol, currentInterval, (newCandle) => {
-      if (!isMounted) return;
-      const updatedData = [...dataRef.current];
-      const lastIdx = updatedData.length - 1;
-
-      if (updatedData[lastIdx] && updatedData[lastIdx].time === newCandle.time) {
-        updatedData[lastIdx] = newCandle;
-      } else {
-        updatedData.push(newCandle);
-        if (updatedData.length > 200) updatedData.shift();
-      }
-      
-      dataRef.current = updatedData;
-      setData([...updatedData]);
-      
-      const result = analyzePriceData(updatedData, config);
-      setAnalysis(result);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [selectedDrawingId]);
+
+  // Persistence: Save Paper Account
+  useEffect(() => {
+    localStorage.setItem('ict_paper_account', JSON.stringify(paperAccount));
+  }, [paperAccount]);
+
+  // Persistence: Save Risk Settings
+  useEffect(() => {
+    localStorage.setItem('ict_risk_settings', JSON.stringify(riskSettings));
+  }, [riskSettings]);
+
+  // Persistence: Save Watchlist
+  useEffect(() => {
+    localStorage.setItem('ict_watchlist', JSON.stringify(watchlist));
+  }, [watchlist]);
+
+  // Persistence: Save Alerts
+  useEffect(() => {
+    alertRulesRef.current = alertRules;
+    localStorage.setItem('ict_alerts', JSON.stringify(alertRules));
+  }, [alertRules]);
+
+  useEffect(() => {
+    localStorage.setItem('ict_alert_log', JSON.stringify(alertLog));
+  }, [alertLog]);
+
+  // Persistence: Save Signal History
+  useEffect(() => {
+    localStorage.setItem('ict_signal_history', JSON.stringify(signalHistory));
+  }, [signalHistory]);
+
+  // Persistence: Save Presets
+  useEffect(() => {
+    localStorage.setItem('ict_presets', JSON.stringify(presets));
+  }, [presets]);
+
+  useEffect(() => {
+    localStorage.setItem('ict_active_presets', JSON.stringify(activePresets));
+  }, [activePresets]);
+
+  // Opening or switching to a symbol applies its preset; symbols without one keep the current parameters
+  useEffect(() => {
+    const preset = presets.find(p => p.id === activePresets[currentSymbol]);
+    if (preset) setConfig(sanitizeConfig(preset.config));
+  }, [currentSymbol]);
+
+  // Symbol list follows the active provider
+  useEffect(() => {
+    let isMounted = true;
+    provider.listSymbols().then(list => {
+      if (!isMounted || list.length === 0) return;
+      setSymbols(list);
+      setCurrentSymbol(prev => list.some(s => s.symbol === prev) ? prev : list[0].symbol);
+    });
+    return () => { isMounted = false; };
+  }, [provider]);
+
+  useEffect(() => {
+    replayProvider?.setSpeed(replaySpeed);
+  }, [replayProvider, replaySpeed]);
+
+  // Initial Load & Symbol Switching
+  useEffect(() => {
+    setIsSynced(false);
+    setFeedStatus('connecting');
+    historyRef.current = { loading: false, exhausted: false, keep: MIN_LIVE_BARS };
+
+    // Live bars only join once this chart's own history is in
+    return followKlines(provider, currentSymbol, currentInterval, 150, (historical) => {
+      dataRef.current = historical;
+      dataTargetRef.current = { symbol: currentSymbol, interval: currentInterval };
+      setData(historical);
+      setIsSynced(true);
+    }, (newCandle) => {
+      dataRef.current = mergeCandle(dataRef.current, newCandle, historyRef.current.keep);
+      setData(dataRef.current);
+      setPaperAccount(prev => processCandle(prev, currentSymbol, newCandle));
+    }, setFeedStatus);
+  }, [provider, currentSymbol, currentInterval]);
+
+  // Higher Timeframe Context: each HTF is fetched and streamed independently,
+  // and analysed by a worker of its own that lives as long as this selection
+  useEffect(() => {
+    let isMounted = true;
+    htfDataRef.current = {};
+    setHtfData({});
+    setHtfResults({});
+    const live = createLiveAnalysis((target, update) => {
+      if (isMounted) setHtfResults(prev => ({ ...prev, [target.interval]: update.result }));
+    }, (message) => console.error('HTF analysis failed', message));
+    htfAnalysisRef.current = live;
+
+    const unsubscribers = htfIntervals.map(interval => {
+      provider.fetchKlines(currentSymbol, interval, 150).then(historical => {
+        if (!isMounted || historical.length === 0) return;
+        htfDataRef.current = { ...htfDataRef.current, [interval]: historical };
+        setHtfData(htfDataRef.current);
+      });
+
+      return provider.subscribeKlines(currentSymbol, interval, (newCandle) => {
+        if (!isMounted || !htfDataRef.current[interval]) return;
+        htfDataRef.current = { ...htfDataRef.current, [interval]: mergeCandle(htfDataRef.current[interval], newCandle) };
+        setHtfData(htfDataRef.current);
+      });
     });
 
     return () => {
       isMounted = false;
-      unsubscribe();
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      live.dispose();
     };
-  }, [currentSymbol, config]);
+  }, [provider, currentSymbol, htfIntervals]);
+
+  // HTF bias reads the forming bar, whatever the signal mode
+  useEffect(() => {
+    const htfConfig: Config = { ...config, signalMode: 'intrabar' };
+    Object.keys(htfData).forEach(interval => {
+      if (htfData[interval].length > 0) htfAnalysisRef.current?.analyze({ symbol: currentSymbol, interval }, htfData[interval], htfConfig);
+    });
+  }, [htfData, config]);
+
+  const htfAnalyses = useMemo<TimeframeAnalysis[]>(() =>
+    htfIntervals
+      .filter(interval => htfData[interval]?.length > 0 && htfResults[interval])
+      .map(interval => ({ interval, candles: htfData[interval], analysis: htfResults[interval] })),
+    [htfData, htfResults, htfIntervals]
+  );
+
+  const htfBias = useMemo(() => htfAnalyses.length > 0 ? computeHTFBias(htfAnalyses) : undefined, [htfAnalyses]);
+
+  // Execution timeframe analysis runs in a worker that keeps its detector state
+  // between ticks, so a live update only reprocesses the forming bar
+  const liveAnalysisRef = useRef<LiveAnalysis | null>(null);
+  useEffect(() => {
+    const live = createLiveAnalysis((target, update) => {
+      // A result for a chart that has since been switched away from is only recorded
+      const shown = dataTargetRef.current;
+      if (shown?.symbol === target.symbol && shown.interval === target.interval) setAnalysis(update.result);
+      if (update.confirmed) {
+        const event = createSignalEvent(target.symbol, target.interval, update.confirmed.time, update.confirmed.result);
+        if (event) setSignalHistory(prev => recordSignal(prev, event));
+      }
+    }, (message) => console.error('Analysis failed', message));
+    liveAnalysisRef.current = live;
+    return () => live.dispose();
+  }, []);
+
+  // Re-run on every tick and whenever the HTF bias moves
+  useEffect(() => {
+    const target = dataTargetRef.current;
+    if (data.length === 0 || !target) return;
+    liveAnalysisRef.current?.analyze(target, data, config, htfBias);
+  }, [data, config, htfBias]);
+
+  // Settle open signals of this chart as its bars come in
+  useEffect(() => {
+    const target = dataTargetRef.current;
+    if (data.length === 0 || !target) return;
+    setSignalHistory(prev => resolveSignals(prev, target.symbol, target.interval, data));
+  }, [data]);
+
+  const chartSignals = useMemo(
+    () => signalHistory.filter(s => s.symbol === currentSymbol && s.interval === currentInterval),
+    [signalHistory, currentSymbol, currentInterval]
+  );
+
+  const emptyAnalysis = useMemo(() => createEmptyAnalysis(config), [config]);
+
+  // Session ranges only read on intraday charts
+  const sessionsAvailable = intervalToMs(currentInterval) < INTERVAL_MS['4h'];
+  const sessionOverlay = useMemo(
+    () => showSessions && sessionsAvailable && data.length > 0 ? buildSessionOverlay(data, config.killzones) : undefined,
+    [showSessions, sessionsAvailable, data, config.killzones]
+  );
+
+  const symbolPositions = useMemo(() => paperAccount.positions.filter(p => p.symbol === currentSymbol), [paperAccount.positions, currentSymbol]);
+  const symbolOrders = useMemo(() => paperAccount.orders.filter(o => o.symbol === currentSymbol), [paperAccount.orders, currentSymbol]);
+
+  const lastClose = data.length > 0 ? data[data.length - 1].close : undefined;
+  const riskEquity = riskSettings.equitySource === 'paper'
+    ? (lastClose !== undefined ? accountEquity(paperAccount, { [currentSymbol]: lastClose }) : paperAccount.balance)
+    : riskSettings.manualEquity;
+
+  const positionSize = useMemo(() => {
+    if (!analysis || analysis.signal === 'NEUTRAL' || analysis.entryPrice === undefined || analysis.slPrice === undefined) return undefined;
+    return calculatePositionSize(
+      analysis.entryPrice,
+      analysis.slPrice,
+      analysis.tpPrice,
+      riskEquity,
+      riskSettings.riskPercent,
+      getContractSpec(riskSettings, currentSymbol)
+    );
+  }, [analysis, riskEquity, riskSettings, currentSymbol]);
+
+  // Alert evaluation: every analysis update is compared against the previous one
+  useEffect(() => {
+    prevAnalysisRef.current = undefined;
+    prevPriceRef.current = undefined;
+  }, [provider, currentSymbol, currentInterval]);
+
+  useEffect(() => {
+    const candle = data[data.length - 1];
+    if (!analysis || !candle) return;
+
+    // The first analysis after a switch only seeds the comparison baseline
+    if (prevAnalysisRef.current) {
+      const { rules, events } = evaluateAlerts(alertRulesRef.current, {
+        symbol: currentSymbol,
+        candle,
+        prevPrice: prevPriceRef.current,
+        analysis,
+        prevAnalysis: prevAnalysisRef.current,
+        drawings,
+        intervalMs: intervalToMs(currentInterval)
+      });
+
+      if (events.length > 0) {
+        alertRulesRef.current = rules;
+        setAlertRules(rules);
+        setAlertLog(prev => [...events, ...prev].slice(0, 50));
+        setToasts(prev => [...prev, ...events]);
+        events.forEach(sendBrowserNotification);
+        events.forEach(event => setTimeout(() => setToasts(prev => prev.filter(t => t.id !== event.id)), 8000));
+      }
+    }
+
+    prevAnalysisRef.current = analysis;
+    prevPriceRef.current = candle.close;
+  }, [analysis]);
 
   const handleRefresh = useCallback(async () => {
-    setIsLive(false);
-    const historical = await fetchBinanceKlines(currentSymbol, currentInterval, 150);
+    setIsSynced(false);
+    const historical = await provider.fetchKlines(currentSymbol, currentInterval, 150);
     if (historical.length > 0) {
+      historyRef.current = { loading: false, exhausted: false, keep: MIN_LIVE_BARS };
       dataRef.current = historical;
+      dataTargetRef.current = { symbol: currentSymbol, interval: currentInterval };
       setData(historical);
-      const result = analyzePriceData(historical, config);
-      setAnalysis(result);
-      setIsLive(true);
+      setIsSynced(true);
     }
     setAiResult(null);
     setActiveAiMode(null);
-  }, [currentSymbol, config]);
+  }, [provider, currentSymbol, currentInterval]);
+
+  // Pages older bars onto the front of the series when the chart scrolls past them
+  const loadOlderHistory = useCallback(async () => {
+    const state = historyRef.current;
+    if (state.loading || state.exhausted || dataRef.current.length === 0) return;
+    state.loading = true;
+    const older = await provider.fetchKlines(currentSymbol, currentInterval, HISTORY_PAGE_SIZE, dataRef.current[0].time - 1);
+    state.loading = false;
+    if (state !== historyRef.current) return;
+
+    const merged = prependCandles(dataRef.current, older);
+    if (merged.length === dataRef.current.length) {
+      state.exhausted = true;
+      return;
+    }
+    state.keep = Math.max(MIN_LIVE_BARS, merged.length);
+    dataRef.current = merged;
+    setData(merged);
+  }, [provider, currentSymbol, currentInterval]);
+
+  // Keeps paging until the series holds `bars`, history runs out or the chart switches
+  const ensureHistory = useCallback(async (bars: number) => {
+    const state = historyRef.current;
+    while (dataRef.current.length < bars && !state.exhausted && state === historyRef.current) {
+      const before = dataRef.current.length;
+      await loadOlderHistory();
+      if (dataRef.current.length === before) break;
+    }
+    return dataRef.current;
+  }, [loadOlderHistory]);
+
+  const handleLoadFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      const candles = parseCandleFile(await file.text(), file.name);
+      if (candles.length < 2) throw new Error('File contains fewer than two usable candles');
+      const symbol = file.name.replace(/\.[^.]+$/, '').toUpperCase();
+      setReplayProvider(createReplayProvider(candles, { symbol, barsPerSecond: replaySpeed }));
+    } catch (e) {
+      console.error('Failed to load candle file', e);
+      window.alert(`Could not load ${file.name}: ${(e as Error).message}`);
+    }
+  };
+
+  const toggleHtfInterval = (interval: string) => {
+    setHtfIntervals(prev => prev.includes(interval) ? prev.filter(i => i !== interval) : [...prev, interval]);
+  };
+
+  const changeInterval = (interval: string) => {
+    setCurrentInterval(interval);
+    // A higher timeframe must actually be higher than the execution chart
+    setHtfIntervals(prev => prev.filter(i => intervalToMs(i) > intervalToMs(interval)));
+  };
+
+  const openFromScanner = (symbol: string, interval: string) => {
+    setCurrentSymbol(symbol);
+    changeInterval(interval);
+    setShowScanner(false);
+  };
 
   const runAiAnalysis = async (mode: 'fast' | 'search' | 'deep') => {
     if (!analysis || data.length === 0) return;
@@ -125,28 +485,67 @@ const App: React.FC = () => {
     const recentContext = data.slice(-50);
 
     if (mode === 'fast') {
-      result = await getFastAnalysis(analysis, recentContext);
+      result = await getFastAnalysis(analysis, recentContext, positionSize);
     } else if (mode === 'search') {
-      result = await getSearchAnalysis(analysis, recentContext);
+      result = await getSearchAnalysis(analysis, recentContext, positionSize);
     } else {
-      result = await getDeepThinkingAnalysis(analysis, recentContext);
+      result = await getDeepThinkingAnalysis(analysis, recentContext, positionSize);
     }
 
     setAiResult(result);
     setIsLoadingAi(false);
   };
 
-  const updateConfig = (key: keyof Config, val: number) => {
+  const updateConfig = <K extends keyof Config>(key: K, val: Config[K]) => {
     const newConfig = { ...config, [key]: val };
     setConfig(newConfig);
   };
 
+  const symbolPresets = useMemo(() => presetsForSymbol(presets, currentSymbol), [presets, currentSymbol]);
+
+  const savePreset = (name: string) => {
+    const next = upsertPreset(presets, createPreset(name, currentSymbol, config));
+    const saved = next.find(p => p.symbol === currentSymbol && p.name.toLowerCase() === name.toLowerCase());
+    setPresets(next);
+    if (saved) setActivePresets(prev => ({ ...prev, [currentSymbol]: saved.id }));
+  };
+
+  const applyPreset = (preset: ConfigPreset) => {
+    setConfig(sanitizeConfig(preset.config));
+    setActivePresets(prev => ({ ...prev, [preset.symbol]: preset.id }));
+  };
+
+  const deletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+    setActivePresets(prev => Object.fromEntries(Object.entries(prev).filter(([, presetId]) => presetId !== id)));
+  };
+
+  // Every change goes through the history so it can be undone
+  const setDrawings = (next: Drawing[]) => {
+    setDrawingState(prev => ({ ...prev, history: commitDrawings(prev.history, next) }));
+  };
+
+  const updateDrawing = (id: string, patch: Partial<Drawing>) => {
+    setDrawingState(prev => ({
+      ...prev,
+      history: commitDrawings(prev.history, prev.history.present.map(d => d.id === id ? { ...d, ...patch } : d))
+    }));
+  };
+
+  const deleteDrawing = (id: string) => {
+    setDrawingState(prev => ({ ...prev, history: commitDrawings(prev.history, prev.history.present.filter(d => d.id !== id)) }));
+    setSelectedDrawingId(null);
+  };
+
   const clearDrawings = () => {
     if (window.confirm('Clear all drawings?')) {
       setDrawings([]);
+      setSelectedDrawingId(null);
     }
   };
 
+  const selectedDrawing = drawings.find(d => d.id === selectedDrawingId);
+
   const getSymbolDisplayName = (symbol: string) => {
     if (symbol === 'PAXGUSDT') return 'XAU/USD';
     return symbol.replace('USDT', '/USD');
@@ -163,12 +562,52 @@ const App: React.FC = () => {
           <div>
             <h1 className="text-xl font-bold tracking-tight text-white">ICT Terminal</h1>
             <div className="flex items-center gap-1.5">
-              <span className={`w-1.5 h-1.5 rounded-full ${isLive ? 'bg-emerald-500 animate-pulse' : 'bg-slate-600'}`}></span>
-              <span className="text-[10px] text-slate-500 font-bold uppercase tracking-tight">{isLive ? 'Market Data Connected' : 'Synchronizing...'}</span>
+              <span className={`w-1.5 h-1.5 rounded-full ${!isSynced ? 'bg-slate-600' : FEED_STATUS_STYLES[feedStatus].dot}`}></span>
+              <span className="text-[10px] text-slate-500 font-bold uppercase tracking-tight">{!isSynced ? 'Synchronizing...' : FEED_STATUS_STYLES[feedStatus].label}</span>
             </div>
           </div>
         </div>
 
+        {/* Data Source Section */}
+        <section className="space-y-3">
+          <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Data Source</h2>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => setReplayProvider(null)}
+              className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-[11px] font-bold transition-all ${
+                !replayProvider ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-slate-800/40 border-slate-700 text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              <i className="fa-solid fa-tower-broadcast"></i> Binance
+            </button>
+            <label
+              className={`flex items-center justify-center gap-2 px-3 py-2 rounded-lg border text-[11px] font-bold transition-all cursor-pointer ${
+                replayProvider ? 'bg-blue-600/20 border-blue-500 text-blue-400' : 'bg-slate-800/40 border-slate-700 text-slate-400 hover:bg-slate-800'
+              }`}
+            >
+              <i className="fa-solid fa-file-import"></i> CSV / JSON
+              <input type="file" accept=".csv,.json,.txt" onChange={handleLoadFile} className="hidden" />
+            </label>
+          </div>
+          {replayProvider && (
+            <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-2">
+              <div className="flex justify-between text-[10px] text-slate-400 uppercase">
+                <span>Replay Speed</span>
+                <span className="text-blue-400 font-mono">{replaySpeed === 0 ? 'Paused' : `${replaySpeed} bar/s`}</span>
+              </div>
+              <input 
+                type="range" min="0" max="20" step="1"
+                value={replaySpeed}
+                onChange={(e) => setReplaySpeed(parseInt(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+              <div className="text-[9px] text-slate-500 font-mono text-right">
+                Bar {replayProvider.getProgress().index + 1} / {replayProvider.getProgress().total}
+              </div>
+            </div>
+          )}
+        </section>
+
         {/* Pair Selector Section */}
         <section className="space-y-4">
           <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Select Pair</h2>
@@ -178,7 +617,7 @@ const App: React.FC = () => {
               onChange={(e) => setCurrentSymbol(e.target.value)}
               className="w-full bg-slate-800 border border-slate-700 rounded-xl px-4 py-2.5 text-sm font-bold text-white appearance-none cursor-pointer focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all"
             >
-              {SUPPORTED_SYMBOLS.map(pair => (
+              {symbols.map(pair => (
                 <option key={pair.symbol} value={pair.symbol}>
                   {pair.name} ({getSymbolDisplayName(pair.symbol)})
                 </option>
@@ -189,7 +628,7 @@ const App: React.FC = () => {
             </div>
           </div>
           <div className="grid grid-cols-2 gap-2">
-            {SUPPORTED_SYMBOLS.slice(0, 6).map(pair => (
+            {symbols.slice(0, 6).map(pair => (
               <button
                 key={pair.symbol}
                 onClick={() => setCurrentSymbol(pair.symbol)}
@@ -199,13 +638,66 @@ const App: React.FC = () => {
                   : 'bg-slate-800/40 border-slate-700 text-slate-400 hover:bg-slate-800 hover:border-slate-600'
                 }`}
               >
-                <i className={`${pair.icon}`}></i>
+                <i className={`${pair.icon ?? 'fa-solid fa-chart-line text-slate-400'}`}></i>
                 {pair.short}
               </button>
             ))}
           </div>
         </section>
 
+        {/* Higher Timeframe Context */}
+        <section className="space-y-3">
+          <div className="flex justify-between items-center">
+            <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">HTF Bias</h2>
+            <div className={`px-2 py-0.5 rounded text-[9px] font-bold uppercase tracking-tighter border ${
+              htfBias?.direction === 'bullish' ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' :
+              htfBias?.direction === 'bearish' ? 'bg-rose-500/10 border-rose-500/30 text-rose-400' :
+              'bg-slate-800 border-slate-700 text-slate-400'
+            }`}>
+              {htfBias?.direction ?? 'None'}
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {HIGHER_INTERVALS.filter(interval => intervalToMs(interval) > intervalToMs(currentInterval)).map(interval => {
+              const vote = htfBias?.votes.find(v => v.interval === interval);
+              return (
+                <button
+                  key={interval}
+                  onClick={() => toggleHtfInterval(interval)}
+                  className={`flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-lg border text-[10px] font-bold font-mono uppercase transition-all ${
+                    htfIntervals.includes(interval)
+                    ? 'bg-blue-600/20 border-blue-500 text-blue-400'
+                    : 'bg-slate-800/40 border-slate-700 text-slate-500 hover:bg-slate-800'
+                  }`}
+                >
+                  {interval}
+                  {vote && (
+                    <i className={`fa-solid ${vote.trend === 'bullish' ? 'fa-arrow-up text-emerald-400' : vote.trend === 'bearish' ? 'fa-arrow-down text-rose-400' : 'fa-minus text-slate-500'}`}></i>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+            <span>Counter-bias signals</span>
+            <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+              {(['flag', 'block'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => updateConfig('htfFilter', mode)}
+                  className={`px-2 py-0.5 font-bold ${config.htfFilter === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex justify-between items-center text-[10px] text-slate-400 uppercase cursor-pointer">
+            <span>Show HTF zones on chart</span>
+            <input type="checkbox" checked={showHtfZones} onChange={(e) => setShowHtfZones(e.target.checked)} className="accent-blue-500" />
+          </label>
+        </section>
+
         {/* Enhanced Confluence Checklist Dashboard */}
         {analysis && (
           <section className="space-y-4">
@@ -216,36 +708,10 @@ const App: React.FC = () => {
 
             <div className="space-y-3">
               {/* Bullish Dashboard */}
-              <div className="bg-slate-800/30 rounded-xl border border-emerald-500/20 p-3 space-y-2">
-                <div className="flex justify-between items-center mb-1">
-                  <div className="text-[10px] font-bold text-emerald-500 uppercase flex items-center gap-1.5">
-                    <i className="fa-solid fa-arrow-trend-up"></i> Bullish Setup
-                  </div>
-                  <div className="text-xs font-black text-emerald-400 font-mono bg-emerald-500/10 px-1.5 rounded">{analysis.bullScore}/4</div>
-                </div>
-                <div className="grid grid-cols-2 gap-2">
-                  <PatternTag active={analysis.confluences.bullish.ob} label="Order Block" color="emerald" />
-                  <PatternTag active={analysis.confluences.bullish.fvg} label="FVG Gap" color="emerald" />
-                  <PatternTag active={analysis.confluences.bullish.sweep} label="Liq Sweep" color="emerald" />
-                  <PatternTag active={analysis.confluences.bullish.bos} label="Structure" color="emerald" />
-                </div>
-              </div>
+              <SetupCard breakdown={analysis.breakdown.bullish} title="Bullish Setup" icon="fa-arrow-trend-up" color="emerald" />
 
               {/* Bearish Dashboard */}
-              <div className="bg-slate-800/30 rounded-xl border border-rose-500/20 p-3 space-y-2">
-                <div className="flex justify-between items-center mb-1">
-                  <div className="text-[10px] font-bold text-rose-500 uppercase flex items-center gap-1.5">
-                    <i className="fa-solid fa-arrow-trend-down"></i> Bearish Setup
-                  </div>
-                  <div className="text-xs font-black text-rose-400 font-mono bg-rose-500/10 px-1.5 rounded">{analysis.bearScore}/4</div>
-                </div>
-                <div className="grid grid-cols-2 gap-2">
-                  <PatternTag active={analysis.confluences.bearish.ob} label="Order Block" color="rose" />
-                  <PatternTag active={analysis.confluences.bearish.fvg} label="FVG Gap" color="rose" />
-                  <PatternTag active={analysis.confluences.bearish.sweep} label="Liq Sweep" color="rose" />
-                  <PatternTag active={analysis.confluences.bearish.bos} label="Structure" color="rose" />
-                </div>
-              </div>
+              <SetupCard breakdown={analysis.breakdown.bearish} title="Bearish Setup" icon="fa-arrow-trend-down" color="rose" />
 
               {/* Trade Execution Plan (New Section) */}
               {analysis.signal !== 'NEUTRAL' && (
@@ -253,7 +719,7 @@ const App: React.FC = () => {
                   <div className="flex justify-between items-center">
                     <h3 className="text-[10px] font-bold text-indigo-400 uppercase tracking-widest">Trade Plan</h3>
                     <div className={`px-2 py-0.5 rounded text-[10px] font-black uppercase ${analysis.signal === 'BUY' ? 'bg-emerald-500 text-white' : 'bg-rose-500 text-white'}`}>
-                      {analysis.signal} Limit
+                      {analysis.signal} {analysis.entryType === 'limit' ? 'Limit' : 'Market'}
                     </div>
                   </div>
                   
@@ -279,6 +745,41 @@ const App: React.FC = () => {
                     </div>
                   </div>
 
+                  {analysis.counterHTF && (
+                    <div className="flex items-center gap-2 text-[10px] font-bold text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-lg px-2 py-1.5">
+                      <i className="fa-solid fa-triangle-exclamation"></i>
+                      Against {htfBias?.direction} HTF bias
+                    </div>
+                  )}
+
+                  {positionSize && (
+                    <div className="grid grid-cols-2 gap-3 border-t border-indigo-500/10 pt-2">
+                      <div className="space-y-1">
+                        <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">Position Size</span>
+                        <div className="text-sm font-mono text-slate-200">{positionSize.belowMinLot ? 'Below min' : `${positionSize.lots} lot`}</div>
+                      </div>
+                      <div className="space-y-1">
+                        <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">Margin</span>
+                        <div className="text-sm font-mono text-slate-200">${positionSize.margin.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                      </div>
+                      <div className="space-y-1">
+                        <span className="text-[9px] text-rose-500/70 uppercase font-bold tracking-tighter">Dollar Risk</span>
+                        <div className="text-sm font-mono text-rose-400">-${positionSize.dollarRisk.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                      </div>
+                      <div className="space-y-1">
+                        <span className="text-[9px] text-emerald-500/70 uppercase font-bold tracking-tighter">Dollar Reward</span>
+                        <div className="text-sm font-mono text-emerald-400">+${positionSize.dollarReward.toLocaleString(undefined, { maximumFractionDigits: 2 })}</div>
+                      </div>
+                    </div>
+                  )}
+
+                  {positionSize?.belowMinLot && (
+                    <div className="flex items-center gap-2 text-[10px] font-bold text-amber-400 bg-amber-500/10 border border-amber-500/30 rounded-lg px-2 py-1.5">
+                      <i className="fa-solid fa-scale-unbalanced"></i>
+                      Stop too wide for {riskSettings.riskPercent}% risk at the minimum lot
+                    </div>
+                  )}
+
                   <div className="bg-slate-900/50 rounded-lg p-2 text-center border border-slate-800">
                     <div className="text-[9px] text-slate-500 uppercase font-bold mb-0.5">Estimated Potential ROI</div>
                     <div className={`text-lg font-black font-mono ${analysis.signal === 'BUY' ? 'text-emerald-500' : 'text-rose-500'}`}>
@@ -299,12 +800,21 @@ const App: React.FC = () => {
           </section>
         )}
 
+        <PresetsPanel
+          symbol={currentSymbol}
+          presets={symbolPresets}
+          activeId={activePresets[currentSymbol]}
+          onSave={savePreset}
+          onApply={applyPreset}
+          onDelete={deletePreset}
+        />
+
         {/* Configuration Section */}
         <section className="space-y-4">
           <div className="flex justify-between items-center">
             <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Parameters</h2>
             <button onClick={handleRefresh} className="text-slate-400 hover:text-white transition-colors">
-              <i className={`fa-solid fa-rotate ${!isLive ? 'animate-spin' : ''}`}></i>
+              <i className={`fa-solid fa-rotate ${!isSynced ? 'animate-spin' : ''}`}></i>
             </button>
           </div>
           <div className="space-y-3 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
@@ -322,44 +832,149 @@ const App: React.FC = () => {
             </div>
             <div>
               <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
-                <span>Min Confluence</span>
-                <span className="text-blue-400 font-mono">{config.minConfluence}</span>
+                <span>Risk:Reward</span>
+                <span className="text-blue-400 font-mono">{config.rrRatio.toFixed(1)}</span>
+              </div>
+              <input 
+                type="range" min="1" max="5" step="0.5"
+                value={config.rrRatio}
+                onChange={(e) => updateConfig('rrRatio', parseFloat(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div>
+              <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+                <span>SL Buffer %</span>
+                <span className="text-blue-400 font-mono">{config.slBuffer.toFixed(2)}</span>
               </div>
               <input 
-                type="range" min="1" max="4" step="1"
-                value={config.minConfluence}
-                onChange={(e) => updateConfig('minConfluence', parseInt(e.target.value))}
+                type="range" min="0" max="0.5" step="0.05"
+                value={config.slBuffer}
+                onChange={(e) => updateConfig('slBuffer', parseFloat(e.target.value))}
                 className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
               />
             </div>
+            <div>
+              <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+                <span>EQH/EQL Tolerance %</span>
+                <span className="text-blue-400 font-mono">{config.liquidityTolerance.toFixed(2)}</span>
+              </div>
+              <input 
+                type="range" min="0.01" max="0.2" step="0.01"
+                value={config.liquidityTolerance}
+                onChange={(e) => updateConfig('liquidityTolerance', parseFloat(e.target.value))}
+                className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+              />
+            </div>
+            <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+              <span>Entry</span>
+              <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                {(['market', 'zone', 'ote'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => updateConfig('entryMode', mode)}
+                    className={`px-2 py-0.5 font-bold ${config.entryMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+              <span>Signals</span>
+              <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                {(['close', 'intrabar'] as const).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => updateConfig('signalMode', mode)}
+                    title={mode === 'close' ? 'Signal on closed candles only' : 'Signal on the forming candle; may repaint'}
+                    className={`px-2 py-0.5 font-bold ${config.signalMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {mode}
+                  </button>
+                ))}
+              </div>
+            </div>
           </div>
         </section>
 
+        <DetectionPanel config={config} onChange={(patch) => setConfig(prev => ({ ...prev, ...patch }))} />
+
+        {/* Sessions Section */}
+        <SessionsPanel
+          rule={config.scoring.killzone}
+          killzones={config.killzones}
+          activeKillzone={data.length > 0 ? killzoneAt(data[data.length - 1].time, config.killzones)?.label : undefined}
+          showOverlay={showSessions}
+          overlayAvailable={sessionsAvailable}
+          onRuleChange={(rule) => updateConfig('scoring', { ...config.scoring, killzone: rule })}
+          onKillzonesChange={(killzones) => updateConfig('killzones', killzones)}
+          onShowOverlayChange={setShowSessions}
+        />
+
+        {/* PD Arrays Section */}
+        <PDArrayPanel
+          hidden={hiddenPdArrays}
+          onHiddenChange={setHiddenPdArrays}
+        />
+
+        <ScoringPanel
+          model={config.scoring}
+          threshold={config.scoreThreshold}
+          onModelChange={(model) => updateConfig('scoring', model)}
+          onThresholdChange={(threshold) => updateConfig('scoreThreshold', threshold)}
+        />
+
+        <SignalHistoryPanel
+          signals={signalHistory}
+          symbol={currentSymbol}
+          onClear={() => setSignalHistory(prev => prev.filter(s => s.symbol !== currentSymbol))}
+        />
+
+        {/* Backtest Section */}
+        <BacktestPanel data={data} config={config} symbol={currentSymbol} />
+
+        {/* Optimiser Section */}
+        <OptimizerPanel data={data} config={config} symbol={currentSymbol} onApply={(params) => setConfig(prev => ({ ...prev, ...params }))} onLoadHistory={ensureHistory} />
+
+        {/* Risk Management Section */}
+        <RiskPanel settings={riskSettings} symbol={currentSymbol} equity={riskEquity} onChange={setRiskSettings} />
+
+        {/* Alerts Section */}
+        <AlertsPanel
+          rules={alertRules}
+          log={alertLog}
+          drawings={drawings}
+          symbol={currentSymbol}
+          lastPrice={lastClose}
+          onRulesChange={setAlertRules}
+          onClearLog={() => setAlertLog([])}
+        />
+
+        {/* Paper Trading Section */}
+        <PaperTradingPanel
+          account={paperAccount}
+          analysis={analysis}
+          lastCandle={data[data.length - 1]}
+          symbol={currentSymbol}
+          suggestedQuantity={positionSize?.units}
+          onAccountChange={setPaperAccount}
+        />
+
         {/* Drawing Tools Section */}
         <section className="space-y-4">
           <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Visual Toolkit</h2>
-          <div className="grid grid-cols-4 gap-2">
-            <button 
-              onClick={() => setActiveTool(activeTool === 'trendline' ? null : 'trendline')}
-              className={`p-2 rounded-lg border flex flex-col items-center justify-center transition-all ${activeTool === 'trendline' ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/20' : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'}`}
-              title="Trendline"
-            >
-              <i className="fa-solid fa-minus rotate-[-45deg]"></i>
-            </button>
-            <button 
-              onClick={() => setActiveTool(activeTool === 'horizontal' ? null : 'horizontal')}
-              className={`p-2 rounded-lg border flex flex-col items-center justify-center transition-all ${activeTool === 'horizontal' ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/20' : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'}`}
-              title="Horizontal Line"
-            >
-              <i className="fa-solid fa-grip-lines"></i>
-            </button>
-            <button 
-              onClick={() => setActiveTool(activeTool === 'fib' ? null : 'fib')}
-              className={`p-2 rounded-lg border flex flex-col items-center justify-center transition-all ${activeTool === 'fib' ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/20' : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'}`}
-              title="Fibonacci Retracement"
-            >
-              <i className="fa-solid fa-align-justify"></i>
-            </button>
+          <div className="grid grid-cols-5 gap-2">
+            {DRAWING_TOOLS.map(tool => (
+              <button
+                key={tool.type}
+                onClick={() => setActiveTool(activeTool === tool.type ? null : tool.type)}
+                className={`p-2 rounded-lg border flex flex-col items-center justify-center transition-all ${activeTool === tool.type ? 'bg-blue-600 border-blue-400 text-white shadow-lg shadow-blue-500/20' : 'bg-slate-800 border-slate-700 hover:bg-slate-700 text-slate-400'}`}
+                title={tool.title}
+              >
+                <i className={tool.icon}></i>
+              </button>
+            ))}
             <button 
               onClick={clearDrawings}
               className="p-2 rounded-lg border border-slate-700 bg-slate-800 hover:bg-rose-900/40 hover:border-rose-500 flex flex-col items-center justify-center transition-all text-slate-400 hover:text-rose-400"
@@ -368,6 +983,31 @@ const App: React.FC = () => {
               <i className="fa-solid fa-trash-can"></i>
             </button>
           </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setDrawingState(prev => ({ ...prev, history: undoDrawings(prev.history) }))}
+              disabled={drawingState.history.past.length === 0}
+              className="flex-1 py-1.5 rounded-md text-[10px] font-bold uppercase bg-slate-800 border border-slate-700 text-slate-400 hover:text-white disabled:opacity-40 transition-colors"
+              title="Undo (Ctrl+Z)"
+            >
+              <i className="fa-solid fa-rotate-left mr-1"></i> Undo
+            </button>
+            <button
+              onClick={() => setDrawingState(prev => ({ ...prev, history: redoDrawings(prev.history) }))}
+              disabled={drawingState.history.future.length === 0}
+              className="flex-1 py-1.5 rounded-md text-[10px] font-bold uppercase bg-slate-800 border border-slate-700 text-slate-400 hover:text-white disabled:opacity-40 transition-colors"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <i className="fa-solid fa-rotate-right mr-1"></i> Redo
+            </button>
+          </div>
+          {selectedDrawing && (
+            <DrawingStyleEditor
+              drawing={selectedDrawing}
+              onChange={(patch) => updateDrawing(selectedDrawing.id, patch)}
+              onDelete={() => deleteDrawing(selectedDrawing.id)}
+            />
+          )}
         </section>
 
         {/* AI Analysis Suite */}
@@ -378,21 +1018,21 @@ const App: React.FC = () => {
           <div className="space-y-2">
             <button 
               onClick={() => runAiAnalysis('fast')}
-              disabled={isLoadingAi || !isLive}
+              disabled={isLoadingAi || !isSynced}
               className="w-full bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-xs font-semibold py-2.5 rounded-lg flex items-center justify-center gap-2 border border-slate-700 transition-all active:scale-95 shadow-md"
             >
               <i className="fa-solid fa-bolt text-yellow-400"></i> Quick Insight
             </button>
             <button 
               onClick={() => runAiAnalysis('search')}
-              disabled={isLoadingAi || !isLive}
+              disabled={isLoadingAi || !isSynced}
               className="w-full bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-white text-xs font-semibold py-2.5 rounded-lg flex items-center justify-center gap-2 border border-slate-700 transition-all active:scale-95 shadow-md"
             >
               <i className="fa-brands fa-google text-blue-400"></i> Web Grounding
             </button>
             <button 
               onClick={() => runAiAnalysis('deep')}
-              disabled={isLoadingAi || !isLive}
+              disabled={isLoadingAi || !isSynced}
               className="w-full bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-semibold py-2.5 rounded-lg flex items-center justify-center gap-2 shadow-lg shadow-indigo-900/20 transition-all active:scale-95"
             >
               <i className="fa-solid fa-brain"></i> Institutional Thinking
@@ -409,7 +1049,17 @@ const App: React.FC = () => {
               <span className="text-sm font-bold text-slate-100 tracking-wider uppercase">
                 {currentSymbol === 'PAXGUSDT' ? 'XAUUSD' : currentSymbol}
               </span>
-              <span className="text-[10px] bg-slate-800 px-2 py-0.5 rounded text-blue-400 font-mono border border-slate-700 uppercase font-bold">{currentInterval}</span>
+              <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                {EXECUTION_INTERVALS.map(interval => (
+                  <button
+                    key={interval}
+                    onClick={() => changeInterval(interval)}
+                    className={`text-[10px] px-2 py-0.5 font-mono uppercase font-bold transition-colors ${currentInterval === interval ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                  >
+                    {interval}
+                  </button>
+                ))}
+              </div>
             </div>
             <div className="flex gap-4">
               <div className="flex flex-col">
@@ -429,6 +1079,13 @@ const App: React.FC = () => {
             </div>
           </div>
           
+          {isSynced && feedStatus !== 'live' && (
+            <div className={`flex items-center gap-2 text-[10px] font-bold uppercase px-2 py-1 rounded border ${feedStatus === 'error' ? 'text-rose-400 border-rose-500/30 bg-rose-500/10' : 'text-amber-400 border-amber-500/30 bg-amber-500/10'}`}>
+              <span className={`w-1.5 h-1.5 rounded-full ${FEED_STATUS_STYLES[feedStatus].dot}`}></span>
+              {FEED_STATUS_STYLES[feedStatus].label}
+            </div>
+          )}
+
           {isLoadingAi && (
             <div className="flex items-center gap-2 text-indigo-400 text-[10px] font-bold animate-pulse">
               <i className="fa-solid fa-circle-notch animate-spin"></i>
@@ -439,19 +1096,43 @@ const App: React.FC = () => {
           <div className="flex gap-2">
              <div className="bg-slate-800 rounded-md flex overflow-hidden border border-slate-700 shadow-sm">
                <button className="px-3 py-1.5 hover:bg-slate-700 text-slate-400 hover:text-white transition-colors border-r border-slate-700"><i className="fa-solid fa-chart-area"></i></button>
-               <button className="px-3 py-1.5 bg-blue-600 text-white"><i className="fa-solid fa-chart-line"></i></button>
+               <button
+                 onClick={() => setShowScanner(false)}
+                 className={`px-3 py-1.5 border-r border-slate-700 transition-colors ${!showScanner ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400 hover:text-white'}`}
+               >
+                 <i className="fa-solid fa-chart-line"></i>
+               </button>
+               <button
+                 onClick={() => setShowScanner(true)}
+                 title="Confluence Scanner"
+                 className={`px-3 py-1.5 transition-colors ${showScanner ? 'bg-blue-600 text-white' : 'hover:bg-slate-700 text-slate-400 hover:text-white'}`}
+               >
+                 <i className="fa-solid fa-table-list"></i>
+               </button>
              </div>
           </div>
         </header>
 
         <main className="flex-grow relative bg-[#0B0F19]">
           <Chart 
+            key={`${currentSymbol}-${currentInterval}`}
             data={data} 
-            analysis={analysis || { bullScore: 0, bearScore: 0, confluences: { bullish: {ob: false, fvg: false, bos: false, sweep: false}, bearish: {ob: false, fvg: false, bos: false, sweep: false} }, orderBlocks: [], fvgs: [], structure: [], signal: 'NEUTRAL' }} 
+            interval={currentInterval}
+            analysis={analysis || emptyAnalysis}
             activeTool={activeTool}
+            htfAnalyses={showHtfZones ? htfAnalyses : []}
+            sessions={sessionOverlay}
+            hiddenPdArrays={hiddenPdArrays}
+            pricePadding={config.chartPadding}
+            signals={chartSignals}
+            positions={symbolPositions}
+            orders={symbolOrders}
             drawings={drawings}
             onDrawingsChange={setDrawings}
+            selectedDrawingId={selectedDrawingId}
+            onSelectDrawing={setSelectedDrawingId}
             onToolUsed={() => setActiveTool(null)}
+            onRequestHistory={loadOlderHistory}
           />
           
           {/* Legend Overlay */}
@@ -468,9 +1149,27 @@ const App: React.FC = () => {
               <div className="w-2.5 h-0.5 border-t border-dashed border-emerald-500 w-4"></div>
               <span className="text-slate-300 font-medium tracking-tight">Structure Shift (BOS)</span>
             </div>
+            <div className="flex items-center gap-2 text-[10px] bg-slate-900/90 backdrop-blur px-2.5 py-1.5 rounded-lg border border-slate-800 shadow-xl">
+              <div className="w-2.5 h-0.5 border-t border-dotted border-yellow-500 w-4"></div>
+              <span className="text-slate-300 font-medium tracking-tight">Change of Character (ChoCh)</span>
+            </div>
           </div>
 
-          {!isLive && (
+          {showScanner && (
+            <ScannerView
+              provider={provider}
+              availableSymbols={symbols}
+              watchlist={watchlist}
+              htfIntervals={htfIntervals}
+              config={config}
+              onWatchlistChange={setWatchlist}
+              onSelect={openFromScanner}
+            />
+          )}
+
+          <AlertToasts toasts={toasts} onDismiss={(id) => setToasts(prev => prev.filter(t => t.id !== id))} />
+
+          {!isSynced && !showScanner && (
             <div className="absolute inset-0 bg-slate-950/40 backdrop-blur-sm flex items-center justify-center z-50">
                <div className="bg-slate-900 border border-slate-800 p-6 rounded-2xl shadow-2xl flex flex-col items-center gap-4">
                   <i className="fa-solid fa-circle-notch animate-spin text-3xl text-blue-500"></i>
@@ -603,13 +1302,47 @@ const App: React.FC = () => {
   );
 };
 
+interface SetupCardProps {
+  breakdown: ScoreBreakdown;
+  title: string;
+  icon: string;
+  color: 'emerald' | 'rose';
+}
+
+// One side of the checklist, rendered straight from the scoring breakdown
+const SetupCard: React.FC<SetupCardProps> = ({ breakdown, title, icon, color }) => (
+  <div className={`bg-slate-800/30 rounded-xl border p-3 space-y-2 ${color === 'emerald' ? 'border-emerald-500/20' : 'border-rose-500/20'}`}>
+    <div className="flex justify-between items-center mb-1">
+      <div className={`text-[10px] font-bold uppercase flex items-center gap-1.5 ${color === 'emerald' ? 'text-emerald-500' : 'text-rose-500'}`}>
+        <i className={`fa-solid ${icon}`}></i> {title}
+      </div>
+      <div className={`text-xs font-black font-mono px-1.5 rounded ${color === 'emerald' ? 'text-emerald-400 bg-emerald-500/10' : 'text-rose-400 bg-rose-500/10'}`}>
+        {formatScore(breakdown.score)}/{formatScore(breakdown.maxScore)}
+      </div>
+    </div>
+    <div className="grid grid-cols-2 gap-2">
+      {breakdown.factors.map(f => (
+        <PatternTag key={f.factor} active={f.met} label={f.label} color={color} required={f.required} detail={`+${formatScore(f.weight)}`} />
+      ))}
+    </div>
+    <div className="flex justify-between text-[9px] font-bold uppercase tracking-tighter text-slate-500">
+      <span>Needs {formatScore(breakdown.threshold)}</span>
+      {breakdown.missingRequired.length > 0
+        ? <span className="text-amber-400"><i className="fa-solid fa-lock"></i> Required missing</span>
+        : breakdown.qualifies && <span className={color === 'emerald' ? 'text-emerald-400' : 'text-rose-400'}>Qualifies</span>}
+    </div>
+  </div>
+);
+
 interface PatternTagProps {
   active: boolean;
   label: string;
   color: 'emerald' | 'rose';
+  required?: boolean;
+  detail?: string;
 }
 
-const PatternTag: React.FC<PatternTagProps> = ({ active, label, color }) => {
+const PatternTag: React.FC<PatternTagProps> = ({ active, label, color, required, detail }) => {
   const activeClass = color === 'emerald' 
     ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30 shadow-[0_0_10px_rgba(16,185,129,0.1)]' 
     : 'bg-rose-500/20 text-rose-400 border-rose-500/30 shadow-[0_0_10px_rgba(239,68,68,0.1)]';
@@ -620,6 +1353,8 @@ const PatternTag: React.FC<PatternTagProps> = ({ active, label, color }) => {
     <div className={`flex items-center gap-1.5 px-2 py-1 rounded-md border text-[9px] font-bold transition-all duration-300 ${active ? activeClass : inactiveClass}`}>
       <i className={`fa-solid ${active ? 'fa-check-circle' : 'fa-circle-dot'} text-[10px]`}></i>
       {label}
+      {required && <i className="fa-solid fa-lock text-[8px] text-amber-400"></i>}
+      {detail && <span className="ml-auto font-mono">{detail}</span>}
     </div>
   );
 };
@@ -0,0 +1,30 @@
+
+import React from 'react';
+import { AlertEvent } from '../types';
+
+interface AlertToastsProps {
+  toasts: AlertEvent[];
+  onDismiss: (id: string) => void;
+}
+
+const AlertToasts: React.FC<AlertToastsProps> = ({ toasts, onDismiss }) => (
+  <div className="absolute bottom-4 right-20 flex flex-col gap-2 z-40 pointer-events-none">
+    {toasts.map(toast => (
+      <div
+        key={toast.id}
+        className="pointer-events-auto flex items-start gap-3 bg-slate-900/95 backdrop-blur border border-amber-500/40 rounded-xl px-4 py-3 shadow-2xl shadow-amber-900/20 max-w-xs"
+      >
+        <i className="fa-solid fa-bell text-amber-400 mt-0.5"></i>
+        <div className="flex-1 space-y-0.5">
+          <div className="text-[10px] font-bold text-amber-400 uppercase tracking-widest">Alert</div>
+          <div className="text-xs text-slate-200">{toast.message}</div>
+        </div>
+        <button onClick={() => onDismiss(toast.id)} className="text-slate-500 hover:text-white">
+          <i className="fa-solid fa-xmark text-xs"></i>
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default AlertToasts;
@@ -0,0 +1,185 @@
+
+import React, { useState } from 'react';
+import { AlertRule, AlertRuleType, AlertEvent, Drawing } from '../types';
+import { createAlertRule, requestNotificationPermission } from '../services/alerts';
+
+interface AlertsPanelProps {
+  rules: AlertRule[];
+  log: AlertEvent[];
+  drawings: Drawing[];
+  symbol: string;
+  lastPrice?: number;
+  onRulesChange: (update: (rules: AlertRule[]) => AlertRule[]) => void;
+  onClearLog: () => void;
+}
+
+const RULE_LABELS: Record<AlertRuleType, string> = {
+  price_cross: 'Price crosses level',
+  drawing_cross: 'Price crosses drawing',
+  signal: 'New signal',
+  score: 'Score reaches N',
+  zone_entry: 'Enters fresh OB/FVG',
+  structure: 'New BOS / ChoCh',
+};
+
+const describeRule = (rule: AlertRule, drawings: Drawing[]) => {
+  const side = rule.direction && rule.direction !== 'any' ? ` ${rule.direction}` : '';
+  switch (rule.type) {
+    case 'price_cross': return `Cross${side === ' bullish' ? ' up' : side === ' bearish' ? ' down' : ''} ${rule.level?.toFixed(2)}`;
+    case 'drawing_cross': {
+      const d = drawings.find(dr => dr.id === rule.drawingId);
+      return d ? `Cross ${d.type} #${d.id.slice(0, 4)}` : 'Cross (drawing removed)';
+    }
+    case 'signal': return `New${side} signal`;
+    case 'score': return `${side || ' Any'} score ≥ ${rule.scoreThreshold}`;
+    case 'zone_entry': return `Fresh${side} zone entry`;
+    case 'structure': return `${rule.structureType === 'any' ? 'BOS/ChoCh' : rule.structureType}${side}`;
+  }
+};
+
+const AlertsPanel: React.FC<AlertsPanelProps> = ({ rules, log, drawings, symbol, lastPrice, onRulesChange, onClearLog }) => {
+  const [type, setType] = useState<AlertRuleType>('price_cross');
+  const [direction, setDirection] = useState<'bullish' | 'bearish' | 'any'>('any');
+  const [level, setLevel] = useState('');
+  const [drawingId, setDrawingId] = useState('');
+  const [scoreThreshold, setScoreThreshold] = useState(3);
+  const [structureType, setStructureType] = useState<'BOS' | 'ChoCh' | 'any'>('any');
+  const [trigger, setTrigger] = useState<'once' | 'repeat'>('once');
+  const [cooldownBars, setCooldownBars] = useState(1);
+
+  const crossableDrawings = drawings.filter(d => d.type === 'horizontal' || d.type === 'trendline' || d.type === 'ray');
+  const symbolRules = rules.filter(r => r.symbol === symbol);
+
+  const addRule = () => {
+    const parsedLevel = parseFloat(level || String(lastPrice ?? ''));
+    if (type === 'price_cross' && !Number.isFinite(parsedLevel)) return;
+    if (type === 'drawing_cross' && !drawingId) return;
+
+    requestNotificationPermission();
+    onRulesChange(prev => [...prev, createAlertRule({
+      symbol,
+      type,
+      trigger,
+      cooldownBars,
+      direction,
+      level: type === 'price_cross' ? parsedLevel : undefined,
+      drawingId: type === 'drawing_cross' ? drawingId : undefined,
+      scoreThreshold: type === 'score' ? scoreThreshold : undefined,
+      structureType: type === 'structure' ? structureType : undefined
+    })]);
+    setLevel('');
+  };
+
+  const selectClass = 'w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+  const isPriceRule = type === 'price_cross' || type === 'drawing_cross';
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Alerts</h2>
+        <div className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-[9px] font-bold text-slate-400 uppercase tracking-tighter">
+          {symbolRules.filter(r => r.enabled).length} armed
+        </div>
+      </div>
+
+      <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-2">
+        <select className={selectClass} value={type} onChange={(e) => setType(e.target.value as AlertRuleType)}>
+          {(Object.keys(RULE_LABELS) as AlertRuleType[]).map(t => (
+            <option key={t} value={t}>{RULE_LABELS[t]}</option>
+          ))}
+        </select>
+
+        <div className="grid grid-cols-2 gap-2">
+          <select className={selectClass} value={direction} onChange={(e) => setDirection(e.target.value as typeof direction)}>
+            <option value="any">{isPriceRule ? 'Either way' : 'Any side'}</option>
+            <option value="bullish">{isPriceRule ? 'Cross up' : 'Bullish'}</option>
+            <option value="bearish">{isPriceRule ? 'Cross down' : 'Bearish'}</option>
+          </select>
+
+          {type === 'price_cross' && (
+            <input className={`${selectClass} font-mono`} placeholder={lastPrice?.toFixed(2) ?? 'Level'} value={level} onChange={(e) => setLevel(e.target.value)} />
+          )}
+          {type === 'drawing_cross' && (
+            <select className={selectClass} value={drawingId} onChange={(e) => setDrawingId(e.target.value)}>
+              <option value="">{crossableDrawings.length ? 'Pick drawing' : 'No lines drawn'}</option>
+              {crossableDrawings.map(d => (
+                <option key={d.id} value={d.id}>{d.type} #{d.id.slice(0, 4)}</option>
+              ))}
+            </select>
+          )}
+          {type === 'score' && (
+            <input type="number" min={1} max={10} className={`${selectClass} font-mono`} value={scoreThreshold} onChange={(e) => setScoreThreshold(parseInt(e.target.value) || 1)} />
+          )}
+          {type === 'structure' && (
+            <select className={selectClass} value={structureType} onChange={(e) => setStructureType(e.target.value as typeof structureType)}>
+              <option value="any">BOS or ChoCh</option>
+              <option value="BOS">BOS only</option>
+              <option value="ChoCh">ChoCh only</option>
+            </select>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 gap-2 items-center">
+          <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+            {(['once', 'repeat'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setTrigger(t)}
+                className={`flex-1 text-[10px] py-1 font-bold uppercase ${trigger === t ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center justify-between gap-2 text-[10px] text-slate-400 uppercase">
+            <span>Cooldown</span>
+            <input type="number" min={1} className={`${selectClass} font-mono w-14`} value={cooldownBars} onChange={(e) => setCooldownBars(Math.max(1, parseInt(e.target.value) || 1))} />
+          </label>
+        </div>
+
+        <button onClick={addRule} className="w-full py-1.5 rounded-md text-[10px] font-bold uppercase bg-blue-600 text-white hover:bg-blue-500 transition-colors">
+          <i className="fa-solid fa-bell mr-1"></i> Add Alert
+        </button>
+
+        {symbolRules.length > 0 && (
+          <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1 border-t border-slate-800 pt-2">
+            {symbolRules.map(rule => (
+              <div key={rule.id} className="flex justify-between items-center bg-slate-900/50 px-2 py-1 rounded border border-slate-800 text-[9px] font-mono">
+                <button
+                  onClick={() => onRulesChange(prev => prev.map(r => r.id === rule.id ? { ...r, enabled: !r.enabled } : r))}
+                  className={rule.enabled ? 'text-amber-400' : 'text-slate-600'}
+                  title={rule.enabled ? 'Disarm' : 'Re-arm'}
+                >
+                  <i className={`fa-solid ${rule.enabled ? 'fa-bell' : 'fa-bell-slash'}`}></i>
+                </button>
+                <span className={`flex-1 px-2 truncate ${rule.enabled ? 'text-slate-300' : 'text-slate-600'}`}>{describeRule(rule, drawings)}</span>
+                <span className="text-slate-600 mr-2">{rule.trigger === 'repeat' ? `↻${rule.cooldownBars}` : '1×'}</span>
+                <button onClick={() => onRulesChange(prev => prev.filter(r => r.id !== rule.id))} className="text-slate-500 hover:text-rose-400">
+                  <i className="fa-solid fa-xmark"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {log.length > 0 && (
+          <div className="border-t border-slate-800 pt-2 space-y-1">
+            <div className="flex justify-between items-center text-[9px] text-slate-500 uppercase font-bold">
+              <span>Alert Log</span>
+              <button onClick={onClearLog} className="hover:text-slate-300">Clear</button>
+            </div>
+            <div className="max-h-28 overflow-y-auto custom-scrollbar space-y-1">
+              {log.map(event => (
+                <div key={event.id} className="text-[9px] font-mono text-slate-400 bg-slate-900/50 px-2 py-1 rounded border border-slate-800">
+                  <span className="text-slate-600">{new Date(event.firedAt).toLocaleTimeString()}</span> {event.message}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default AlertsPanel;
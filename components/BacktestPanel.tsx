@@ -0,0 +1,113 @@
+
+import React, { useState, useEffect } from 'react';
+import * as d3 from 'd3';
+import { Candle, Config, BacktestResult } from '../types';
+import { runBacktest } from '../services/backtest';
+
+interface BacktestPanelProps {
+  data: Candle[];
+  config: Config;
+  symbol: string;
+}
+
+const BacktestPanel: React.FC<BacktestPanelProps> = ({ data, config, symbol }) => {
+  const [result, setResult] = useState<BacktestResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  // A result is only meaningful for the data and parameters it was run with
+  useEffect(() => {
+    setResult(null);
+  }, [symbol, config]);
+
+  const handleRun = () => {
+    if (data.length === 0) return;
+    setIsRunning(true);
+    // Yield a frame so the spinner paints before the replay blocks the thread
+    setTimeout(() => {
+      setResult(runBacktest(data, config));
+      setIsRunning(false);
+    }, 0);
+  };
+
+  const renderEquityCurve = (curve: BacktestResult['equityCurve']) => {
+    if (curve.length < 2) return null;
+    const width = 256;
+    const height = 48;
+    const x = d3.scaleLinear().domain([0, curve.length - 1]).range([0, width]);
+    const y = d3.scaleLinear()
+      .domain([Math.min(0, d3.min(curve, d => d.equity)!), Math.max(0, d3.max(curve, d => d.equity)!)])
+      .range([height - 2, 2]);
+    const path = d3.line<BacktestResult['equityCurve'][number]>()
+      .x((_, i) => x(i))
+      .y(d => y(d.equity))(curve);
+    const isUp = curve[curve.length - 1].equity >= 0;
+
+    return (
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-12">
+        <line x1={0} x2={width} y1={y(0)} y2={y(0)} stroke="#334155" strokeDasharray="2,2" />
+        <path d={path ?? ''} fill="none" stroke={isUp ? '#10b981' : '#ef4444'} strokeWidth={1.5} />
+      </svg>
+    );
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Backtest</h2>
+        <button
+          onClick={handleRun}
+          disabled={isRunning || data.length === 0}
+          className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-[9px] font-bold text-slate-300 uppercase tracking-tighter hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          {isRunning ? <i className="fa-solid fa-circle-notch animate-spin"></i> : `Run ${data.length} bars`}
+        </button>
+      </div>
+
+      {result && (
+        <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-3">
+          <div className="grid grid-cols-3 gap-2">
+            <Stat label="Trades" value={result.totalTrades.toString()} />
+            <Stat label="Win Rate" value={`${result.winRate.toFixed(0)}%`} />
+            <Stat label="Net R" value={result.netR.toFixed(2)} tone={result.netR >= 0 ? 'up' : 'down'} />
+            <Stat label="Expectancy" value={`${result.expectancy.toFixed(2)}R`} tone={result.expectancy >= 0 ? 'up' : 'down'} />
+            <Stat label="Profit F." value={Number.isFinite(result.profitFactor) ? result.profitFactor.toFixed(2) : '∞'} />
+            <Stat label="Max DD" value={`${result.maxDrawdown.toFixed(2)}R`} tone="down" />
+          </div>
+
+          {renderEquityCurve(result.equityCurve)}
+
+          {result.trades.length > 0 ? (
+            <div className="max-h-32 overflow-y-auto custom-scrollbar space-y-1">
+              {result.trades.slice().reverse().map(t => (
+                <div key={t.entryTime} className="flex justify-between items-center text-[9px] font-mono bg-slate-900/50 px-2 py-1 rounded border border-slate-800">
+                  <span className={t.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>{t.side}</span>
+                  <span className="text-slate-500">{new Date(t.entryTime).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                  <span className={t.outcome === 'open' ? 'text-slate-400' : t.rMultiple >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                    {t.outcome === 'open' ? 'OPEN' : `${t.rMultiple >= 0 ? '+' : ''}${t.rMultiple.toFixed(2)}R`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-[10px] text-slate-500 text-center italic">No signals fired on the loaded history.</div>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+interface StatProps {
+  label: string;
+  value: string;
+  tone?: 'up' | 'down';
+}
+
+const Stat: React.FC<StatProps> = ({ label, value, tone }) => (
+  <div className="space-y-0.5">
+    <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">{label}</span>
+    <div className={`text-xs font-mono ${tone === 'up' ? 'text-emerald-400' : tone === 'down' ? 'text-rose-400' : 'text-slate-200'}`}>{value}</div>
+  </div>
+);
+
+export default BacktestPanel;
@@ -1,301 +1,1177 @@
 
-import React, { useRef, useEffect, useState } from 'react';
+import React, { useRef, useEffect, useState, useMemo } from 'react';
 import * as d3 from 'd3';
-import { Candle, AnalysisResult, Drawing, DrawingType } from '../types';
+import { Candle, AnalysisResult, Drawing, DrawingType, DrawingLineStyle, PaperPosition, PaperOrder, OrderBlock, FVG, SessionOverlay, PDArrayKind, SignalEvent } from '../types';
+import { TimeframeAnalysis, intervalToMs } from '../services/multiTimeframe';
+import { DEFAULT_FIB_LEVELS, pointsForTool, withPositionTarget, positionToolStats } from '../services/drawingTools';
+import { OTE_RANGE } from '../services/dealingRange';
+import { formatScore } from '../services/scoring';
 
 interface ChartProps {
   data: Candle[];
+  interval?: string;
   analysis: AnalysisResult;
+  htfAnalyses?: TimeframeAnalysis[];
+  sessions?: SessionOverlay;
+  hiddenPdArrays?: PDArrayKind[];
+  // Y-axis headroom in percent of price
+  pricePadding?: number;
+  // Confirmed signals for this symbol and interval
+  signals?: SignalEvent[];
+  positions?: PaperPosition[];
+  orders?: PaperOrder[];
   activeTool: DrawingType | null;
   drawings: Drawing[];
   onDrawingsChange: (drawings: Drawing[]) => void;
   onToolUsed: () => void;
+  selectedDrawingId?: string | null;
+  onSelectDrawing?: (id: string | null) => void;
+  onRequestHistory?: () => void;
 }
 
-const Chart: React.FC<ChartProps> = ({ data, analysis, activeTool, drawings, onDrawingsChange, onToolUsed }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+// `endTime` null means the viewport follows the latest bar
+interface Viewport {
+  endTime: number | null;
+  barCount: number;
+}
+
+// Everything needed to place a bar or a price on screen. `key` changes only
+// when some of that geometry does, so layers can skip work between ticks.
+interface Layout {
+  key: string;
+  width: number;
+  height: number;
+  plotRight: number;
+  step: number;
+  bandwidth: number;
+  startIdx: number;
+  endIdx: number;
+  yDomain: [number, number];
+}
+
+const MARGIN = { top: 20, right: 60, bottom: 40, left: 10 };
+const MIN_VISIBLE_BARS = 20;
+const MAX_VISIBLE_BARS = 600;
+const timeBisector = d3.bisector((d: Candle) => d.time).left;
+const DAY_MS = 86_400_000;
+const MIN_TIME_LABEL_SPACING = 90;
+
+const HIT_TOLERANCE = 6;
+const DASH_ARRAYS: Record<DrawingLineStyle, string | null> = { solid: null, dashed: '6,4', dotted: '2,3' };
+
+const distanceToSegment = (px: number, py: number, x1: number, y1: number, x2: number, y2: number) => {
+  const lenSq = (x2 - x1) ** 2 + (y2 - y1) ** 2;
+  const t = lenSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - x1) * (x2 - x1) + (py - y1) * (y2 - y1)) / lenSq));
+  return Math.hypot(px - (x1 + t * (x2 - x1)), py - (y1 + t * (y2 - y1)));
+};
+
+// Far end of a ray from (x1, y1) through (x2, y2), cut at the plot edge it heads for
+const rayEnd = (x1: number, y1: number, x2: number, y2: number, xLeft: number, xRight: number): [number, number] => {
+  if (x2 === x1) return [x2, y2];
+  const xEnd = x2 > x1 ? xRight : xLeft;
+  return [xEnd, y1 + ((y2 - y1) * (xEnd - x1)) / (x2 - x1)];
+};
+
+// Position tools span from the entry to their furthest anchor, never narrower than ten bars
+const positionSpan = (xEntry: number, xStop: number, xTarget: number, step: number): [number, number] =>
+  [xEntry, Math.max(xStop, xTarget, xEntry + step * 10)];
+
+const formatDay = d3.timeFormat('%b %d');
+const formatClock = d3.timeFormat('%H:%M');
+const formatYear = d3.timeFormat('%Y');
+
+// Intraday axes show the clock and mark each new day with its date; daily and
+// slower axes show dates and mark each new year
+const formatTimeTick = (time: number, prevTime: number | undefined, intervalMs: number) => {
+  const date = new Date(time);
+  const prev = prevTime !== undefined ? new Date(prevTime) : undefined;
+  if (intervalMs >= DAY_MS) {
+    return prev && prev.getFullYear() !== date.getFullYear() ? formatYear(date) : formatDay(date);
+  }
+  return !prev || prev.toDateString() !== date.toDateString() ? formatDay(date) : formatClock(date);
+};
+
+const formatBadgeTime = (time: number, intervalMs: number) =>
+  d3.timeFormat(intervalMs >= DAY_MS ? '%a %b %d %Y' : '%a %b %d %H:%M')(new Date(time));
+
+const xAt = (layout: Layout, idx: number) => MARGIN.left + (idx - layout.startIdx) * layout.step + (layout.step - layout.bandwidth) / 2;
+
+const yScaleFor = (layout: Layout) => d3.scaleLinear().domain(layout.yDomain).range([layout.height - MARGIN.bottom, MARGIN.top]);
+
+// Sizes the backing store for the device pixel ratio; resizing also clears it
+const prepareCanvas = (canvas: HTMLCanvasElement, layout: Layout) => {
+  const dpr = window.devicePixelRatio || 1;
+  const w = Math.round(layout.width * dpr);
+  const h = Math.round(layout.height * dpr);
+  if (canvas.width !== w || canvas.height !== h) {
+    canvas.width = w;
+    canvas.height = h;
+  }
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+};
+
+const drawCandle = (ctx: CanvasRenderingContext2D, layout: Layout, y: d3.ScaleLinear<number, number>, d: Candle, idx: number) => {
+  const xPos = xAt(layout, idx);
+  const color = d.close >= d.open ? '#10b981' : '#ef4444';
+
+  // Wick
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 1.5;
+  ctx.beginPath();
+  ctx.moveTo(xPos + layout.bandwidth / 2, y(d.high));
+  ctx.lineTo(xPos + layout.bandwidth / 2, y(d.low));
+  ctx.stroke();
+
+  // Body
+  ctx.fillStyle = color;
+  ctx.fillRect(xPos, y(Math.max(d.open, d.close)), layout.bandwidth, Math.max(1, Math.abs(y(d.open) - y(d.close))));
+};
+
+// Derived PD arrays share the OB/FVG palette; the outline and tag tell them apart
+const PD_ARRAY_STYLES: Record<PDArrayKind, { bull: string; bear: string; dash: number[]; tag: string }> = {
+  breaker: { bull: '#10b981', bear: '#ef4444', dash: [6, 3], tag: 'BRK' },
+  mitigation: { bull: '#10b981', bear: '#ef4444', dash: [1, 2], tag: 'MB' },
+  ifvg: { bull: '#3b82f6', bear: '#f97316', dash: [], tag: 'IFVG' },
+  bpr: { bull: '#a855f7', bear: '#a855f7', dash: [4, 2], tag: 'BPR' },
+  vi: { bull: '#eab308', bear: '#eab308', dash: [], tag: 'VI' },
+};
+
+const zoneSignature = (zones: (OrderBlock | FVG)[]) =>
+  zones.map(z => `${z.startTime}:${z.top}:${z.bottom}:${z.status}:${z.fillPercent.toFixed(0)}:${z.mitigatedTime ?? ''}`).join('|');
+
+const sessionSignature = (sessions: SessionOverlay | undefined) => sessions
+  ? [...sessions.ranges.map(r => `${r.id}:${r.startTime}:${r.endTime}:${r.high}:${r.low}`), ...sessions.midnightOpens.map(m => `${m.time}:${m.price}`)].join('|')
+  : '';
+
+const Chart: React.FC<ChartProps> = ({ data, interval = '15m', analysis, htfAnalyses = [], sessions, hiddenPdArrays = [], pricePadding = 0.1, signals = [], positions = [], orders = [], activeTool, drawings, onDrawingsChange, onToolUsed, selectedDrawingId = null, onSelectDrawing, onRequestHistory }) => {
   const containerRef = useRef<HTMLDivElement>(null);
+  const zoneCanvasRef = useRef<HTMLCanvasElement>(null);
+  const candleCanvasRef = useRef<HTMLCanvasElement>(null);
+  const clipRectRef = useRef<SVGRectElement>(null);
+  const structureRef = useRef<SVGGElement>(null);
+  const tradeRef = useRef<SVGGElement>(null);
+  const signalRef = useRef<SVGGElement>(null);
+  const drawingRef = useRef<SVGGElement>(null);
+  const axisRef = useRef<SVGGElement>(null);
+  const timeAxisRef = useRef<SVGGElement>(null);
+  const crosshairRef = useRef<SVGGElement>(null);
+  const interactionRef = useRef<SVGRectElement>(null);
+
   const [currentPoints, setCurrentPoints] = useState<{ time: number; price: number }[]>([]);
+  const [viewport, setViewport] = useState<Viewport>({ endTime: null, barCount: 120 });
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const [hoverIdx, setHoverIdx] = useState<number | null>(null);
+  const dragRef = useRef<{ startX: number; endIdx: number } | null>(null);
 
-  useEffect(() => {
-    if (!svgRef.current || !containerRef.current || data.length === 0) return;
+  // A drawing being edited renders from `draft` and is committed once on mouse up
+  const [draft, setDraft] = useState<Drawing | null>(null);
+  const draftRef = useRef<Drawing | null>(null);
+  const editRef = useRef<{ original: Drawing; pointIdx: number | null; startX: number; startY: number } | null>(null);
+  const updateDraft = (next: Drawing | null) => {
+    draftRef.current = next;
+    setDraft(next);
+  };
+  const lastCandleRenderRef = useRef<{ key: string; length: number; settled: Candle | undefined } | null>(null);
+
+  // Layers that only redraw on geometry or overlay changes read bars through a ref
+  const dataRef = useRef(data);
+  dataRef.current = data;
 
+  useEffect(() => {
     const container = containerRef.current;
-    const width = container.clientWidth;
-    const height = container.clientHeight;
-    const margin = { top: 20, right: 60, bottom: 40, left: 10 };
+    if (!container) return;
+    const observer = new ResizeObserver(() => setSize({ width: container.clientWidth, height: container.clientHeight }));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // The viewport is anchored to a timestamp, so bars appended live or history
+  // prepended on the left leave a scrolled-back view where it is
+  const endIdx = viewport.endTime === null ? data.length - 1 : Math.min(data.length - 1, timeBisector(data, viewport.endTime));
+  const startIdx = endIdx - viewport.barCount + 1;
+  const following = viewport.endTime === null;
 
-    const svg = d3.select(svgRef.current);
-    svg.selectAll('*').remove();
+  // Reaching the oldest loaded bar asks for the previous page
+  useEffect(() => {
+    if (data.length > 0 && startIdx <= 0) onRequestHistory?.();
+  }, [startIdx, data.length]);
 
-    const x = d3.scaleBand()
-      .domain(data.map(d => d.time.toString()))
-      .range([margin.left, width - margin.right])
-      .padding(0.3);
+  const layout = useMemo<Layout | null>(() => {
+    if (data.length === 0 || size.width === 0) return null;
+    const plotRight = size.width - MARGIN.right;
+    const step = (plotRight - MARGIN.left) / viewport.barCount;
+    const visible = data.slice(Math.max(0, startIdx), endIdx + 1);
 
-    const y = d3.scaleLinear()
+    // Y fits the visible bars; the live trade levels only matter at the right edge
+    const domain = d3.scaleLinear()
       .domain([
-        d3.min([d3.min(data, d => d.low)!, analysis.slPrice ?? Infinity, analysis.tpPrice ?? Infinity])! * 0.999,
-        d3.max([d3.max(data, d => d.high)!, analysis.slPrice ?? -Infinity, analysis.tpPrice ?? -Infinity])! * 1.001
+        d3.min([d3.min(visible, d => d.low)!, following ? analysis.slPrice ?? Infinity : Infinity, following ? analysis.tpPrice ?? Infinity : Infinity])! * (1 - pricePadding / 100),
+        d3.max([d3.max(visible, d => d.high)!, following ? analysis.slPrice ?? -Infinity : -Infinity, following ? analysis.tpPrice ?? -Infinity : -Infinity])! * (1 + pricePadding / 100)
       ])
       .nice()
-      .range([height - margin.bottom, margin.top]);
+      .domain() as [number, number];
+
+    return {
+      key: [size.width, size.height, data[0].time, startIdx, viewport.barCount, domain[0], domain[1]].join(':'),
+      width: size.width,
+      height: size.height,
+      plotRight,
+      step,
+      bandwidth: step * 0.7,
+      startIdx,
+      endIdx,
+      yDomain: domain
+    };
+  }, [data, size, viewport, startIdx, endIdx, following, analysis.slPrice, analysis.tpPrice, pricePadding]);
+
+  const layoutKey = layout?.key ?? '';
+  const zonesKey = useMemo(() => zoneSignature([...analysis.fvgs, ...analysis.orderBlocks]), [analysis.fvgs, analysis.orderBlocks]);
+  const dealingRange = analysis.dealingRange;
+  const rangeKey = dealingRange ? `${dealingRange.high}:${dealingRange.low}:${dealingRange.highTime}:${dealingRange.lowTime}` : '';
+  const liquidityKey = useMemo(() => analysis.liquidity.map(p => `${p.label}:${p.price}:${p.startTime}:${p.sweptTime ?? ''}`).join('|'), [analysis.liquidity]);
+  const pdArraysKey = useMemo(
+    () => analysis.pdArrays.filter(a => !hiddenPdArrays.includes(a.kind)).map(a => `${a.kind}:${a.startTime}:${a.top}:${a.bottom}:${a.invalidatedTime ?? ''}`).join('|'),
+    [analysis.pdArrays, hiddenPdArrays]
+  );
+  const sessionsKey = useMemo(() => sessionSignature(sessions), [sessions]);
+  const signalsKey = useMemo(() => signals.map(s => `${s.id}:${s.outcome}`).join('|'), [signals]);
+  const structureKey = useMemo(() => analysis.structure.map(s => `${s.type}:${s.time}:${s.price}`).join('|'), [analysis.structure]);
+
+  // Any timestamp resolves to a slot, on screen or not
+  const xOf = (l: Layout, time: number) => xAt(l, timeBisector(dataRef.current, time));
+
+  // Zone layer: grid, sessions, dealing range, liquidity, HTF zones, FVGs, order blocks and PD arrays on canvas
+  useEffect(() => {
+    if (!layout || !zoneCanvasRef.current) return;
+    const ctx = prepareCanvas(zoneCanvasRef.current, layout);
+    const y = yScaleFor(layout);
+    const [yMin, yMax] = layout.yDomain;
+    const { plotRight, bandwidth } = layout;
+    ctx.clearRect(0, 0, layout.width, layout.height);
 
     // Grid lines
-    svg.append('g')
-      .attr('stroke', '#1e293b')
-      .attr('stroke-opacity', 0.5)
-      .call(d3.axisLeft(y).tickSize(-width + margin.left + margin.right).tickFormat(() => ''))
-      .attr('transform', `translate(${margin.left}, 0)`);
+    ctx.strokeStyle = 'rgba(30, 41, 59, 0.5)';
+    ctx.lineWidth = 1;
+    y.ticks(10).forEach(tick => {
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, Math.round(y(tick)) + 0.5);
+      ctx.lineTo(plotRight, Math.round(y(tick)) + 0.5);
+      ctx.stroke();
+    });
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(MARGIN.left, 0, plotRight - MARGIN.left, layout.height);
+    ctx.clip();
+
+    // Live zones extend to the right edge; dead zones stop at the candle that killed them
+    const zoneEndX = (mitigatedTime: number | undefined) => {
+      if (mitigatedTime === undefined) return plotRight;
+      return Math.min(plotRight, xOf(layout, mitigatedTime) + bandwidth);
+    };
+
+    const fillZone = (x0: number, x1: number, top: number, bottom: number, color: string, fillAlpha: number) => {
+      ctx.globalAlpha = fillAlpha;
+      ctx.fillStyle = color;
+      ctx.fillRect(x0, y(top), Math.max(0, x1 - x0), Math.abs(y(bottom) - y(top)));
+    };
+
+    // Sessions: killzone bands with their high/low, and each New York midnight open
+    sessions?.ranges.forEach(range => {
+      const x0 = xOf(layout, range.startTime);
+      const x1 = xOf(layout, range.endTime) + bandwidth;
+      if (x0 > plotRight || x1 < MARGIN.left) return;
+
+      ctx.globalAlpha = 0.05;
+      ctx.fillStyle = range.color;
+      ctx.fillRect(x0, MARGIN.top, x1 - x0, layout.height - MARGIN.top - MARGIN.bottom);
+
+      ctx.globalAlpha = 0.7;
+      ctx.strokeStyle = range.color;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([4, 3]);
+      [range.high, range.low].forEach(price => {
+        ctx.beginPath();
+        ctx.moveTo(x0, Math.round(y(price)) + 0.5);
+        ctx.lineTo(x1, Math.round(y(price)) + 0.5);
+        ctx.stroke();
+      });
+      ctx.setLineDash([]);
+
+      ctx.globalAlpha = 1;
+      ctx.fillStyle = range.color;
+      ctx.font = 'bold 8px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText(range.label.toUpperCase(), x0 + 2, MARGIN.top + 9);
+    });
+
+    sessions?.midnightOpens.forEach((open, i) => {
+      const next = sessions.midnightOpens[i + 1];
+      const x0 = xOf(layout, open.time);
+      const x1 = next ? xOf(layout, next.time) : plotRight;
+      if (x0 > plotRight || x1 < MARGIN.left || open.price < yMin || open.price > yMax) return;
+
+      ctx.globalAlpha = 0.6;
+      ctx.strokeStyle = '#94a3b8';
+      ctx.lineWidth = 1;
+      ctx.setLineDash([1, 3]);
+      ctx.beginPath();
+      ctx.moveTo(x0, Math.round(y(open.price)) + 0.5);
+      ctx.lineTo(x1, Math.round(y(open.price)) + 0.5);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.globalAlpha = 0.8;
+      ctx.fillStyle = '#94a3b8';
+      ctx.font = '8px sans-serif';
+      ctx.textAlign = 'left';
+      ctx.fillText('MIDNIGHT OPEN', Math.max(MARGIN.left, x0) + 2, y(open.price) - 3);
+    });
+
+    // Dealing range: premium above equilibrium, discount below, and the OTE band of the leg
+    if (dealingRange) {
+      const x0 = Math.max(MARGIN.left, xOf(layout, Math.min(dealingRange.highTime, dealingRange.lowTime)));
+      if (x0 < plotRight) {
+        const top = Math.min(dealingRange.high, yMax);
+        const bottom = Math.max(dealingRange.low, yMin);
+        if (dealingRange.equilibrium < top) fillZone(x0, plotRight, top, Math.max(dealingRange.equilibrium, bottom), '#ef4444', 0.04);
+        if (dealingRange.equilibrium > bottom) fillZone(x0, plotRight, Math.min(dealingRange.equilibrium, top), bottom, '#10b981', 0.04);
+        if (dealingRange.oteTop > yMin && dealingRange.oteBottom < yMax) {
+          const oteTop = Math.min(dealingRange.oteTop, yMax);
+          const oteBottom = Math.max(dealingRange.oteBottom, yMin);
+          fillZone(x0, plotRight, oteTop, oteBottom, '#eab308', 0.08);
+          ctx.globalAlpha = 0.5;
+          ctx.strokeStyle = '#eab308';
+          ctx.lineWidth = 1;
+          ctx.strokeRect(x0, y(oteTop), plotRight - x0, Math.abs(y(oteBottom) - y(oteTop)));
+        }
+
+        ctx.globalAlpha = 0.8;
+        ctx.font = 'bold 8px sans-serif';
+        ctx.textAlign = 'left';
+        if (dealingRange.equilibrium > yMin && dealingRange.equilibrium < yMax) {
+          ctx.strokeStyle = '#94a3b8';
+          ctx.setLineDash([6, 4]);
+          ctx.beginPath();
+          ctx.moveTo(x0, Math.round(y(dealingRange.equilibrium)) + 0.5);
+          ctx.lineTo(plotRight, Math.round(y(dealingRange.equilibrium)) + 0.5);
+          ctx.stroke();
+          ctx.setLineDash([]);
+          ctx.fillStyle = '#94a3b8';
+          ctx.fillText('EQ', x0 + 3, y(dealingRange.equilibrium) - 3);
+        }
+        if (dealingRange.high <= yMax) {
+          ctx.fillStyle = '#ef4444';
+          ctx.fillText('PREMIUM', x0 + 3, y(dealingRange.high) + 10);
+        }
+        if (dealingRange.low >= yMin) {
+          ctx.fillStyle = '#10b981';
+          ctx.fillText('DISCOUNT', x0 + 3, y(dealingRange.low) - 4);
+        }
+        if (dealingRange.oteTop > yMin && dealingRange.oteBottom < yMax) {
+          ctx.fillStyle = '#eab308';
+          ctx.fillText('OTE', x0 + 3, y(Math.min(dealingRange.oteTop, yMax)) + 10);
+        }
+        ctx.globalAlpha = 1;
+      }
+    }
+
+    // Liquidity pools: dotted BSL/SSL levels, cut off at the bar that swept them
+    analysis.liquidity.forEach(pool => {
+      if (pool.price < yMin || pool.price > yMax) return;
+      const x0 = xOf(layout, pool.startTime) + bandwidth / 2;
+      const x1 = pool.sweptTime !== undefined ? Math.min(plotRight, xOf(layout, pool.sweptTime) + bandwidth) : plotRight;
+      if (x0 > plotRight || x1 < MARGIN.left) return;
+      const color = pool.side === 'buy' ? '#38bdf8' : '#f472b6';
+      const yPos = Math.round(y(pool.price)) + 0.5;
+
+      ctx.globalAlpha = pool.swept ? 0.35 : 0.8;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.setLineDash([2, 3]);
+      ctx.beginPath();
+      ctx.moveTo(x0, yPos);
+      ctx.lineTo(x1, yPos);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.fillStyle = color;
+      ctx.font = 'bold 8px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.fillText(`${pool.side === 'buy' ? 'BSL' : 'SSL'} ${pool.label}${pool.swept ? ' ✕' : ''}`, x1 - 2, yPos + (pool.side === 'buy' ? -3 : 9));
+    });
+    ctx.globalAlpha = 1;
+
+    // Higher timeframe zones: anchored at the first execution candle inside the HTF bar
+    htfAnalyses.forEach(({ interval, analysis: htf }) => {
+      const zones = [
+        ...htf.orderBlocks.map(zone => ({ zone, label: 'OB' })),
+        ...htf.fvgs.map(zone => ({ zone, label: 'FVG' }))
+      ];
+      zones.filter(({ zone }) => zone.isValid && zone.top >= yMin && zone.bottom <= yMax).forEach(({ zone, label }) => {
+        const anchorIdx = timeBisector(dataRef.current, zone.startTime);
+        if (anchorIdx > layout.endIdx) return;
+        const xPos = Math.max(MARGIN.left, xAt(layout, anchorIdx));
+        const top = Math.min(zone.top, yMax);
+        const bottom = Math.max(zone.bottom, yMin);
+        const color = zone.type === 'bullish' ? '#a855f7' : '#eab308';
+
+        fillZone(xPos, plotRight, top, bottom, color, 0.06);
+        ctx.globalAlpha = 0.6;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.setLineDash([]);
+        ctx.strokeRect(xPos, y(top), Math.max(0, plotRight - xPos), Math.abs(y(bottom) - y(top)));
+
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = color;
+        ctx.font = 'bold 9px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(`${interval.toUpperCase()} ${label}`, xPos + 3, y(top) + 10);
+      });
+    });
 
     // Draw Fair Value Gaps (FVG)
     analysis.fvgs.forEach(fvg => {
-      const xPos = x(fvg.startTime.toString());
-      if (xPos === undefined) return;
+      const xPos = xOf(layout, fvg.startTime);
+      const xEnd = zoneEndX(fvg.mitigatedTime);
+      if (xPos > plotRight || xEnd < MARGIN.left) return;
+      const color = fvg.type === 'bullish' ? '#3b82f6' : '#f97316';
 
-      svg.append('rect')
-        .attr('x', xPos)
-        .attr('y', y(fvg.top))
-        .attr('width', (width - margin.right - xPos))
-        .attr('height', Math.abs(y(fvg.bottom) - y(fvg.top)))
-        .attr('fill', fvg.type === 'bullish' ? '#3b82f6' : '#f97316')
-        .attr('fill-opacity', 0.15)
-        .attr('stroke', fvg.type === 'bullish' ? '#3b82f6' : '#f97316')
-        .attr('stroke-width', 0.5)
-        .attr('stroke-dasharray', '2,2');
+      fillZone(xPos, xEnd, fvg.top, fvg.bottom, color, fvg.isValid ? 0.15 : 0.04);
+      ctx.globalAlpha = fvg.isValid ? 1 : 0.3;
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 0.5;
+      ctx.setLineDash([2, 2]);
+      ctx.strokeRect(xPos, y(fvg.top), Math.max(0, xEnd - xPos), Math.abs(y(fvg.bottom) - y(fvg.top)));
+      ctx.setLineDash([]);
+
+      if (fvg.status === 'partial') {
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = color;
+        ctx.font = '8px sans-serif';
+        ctx.textAlign = 'right';
+        ctx.fillText(`${fvg.fillPercent.toFixed(0)}%`, plotRight - 4, y(fvg.top) + 9);
+      }
     });
 
     // Draw Order Blocks (OB)
     analysis.orderBlocks.forEach(ob => {
-      const xPos = x(ob.startTime.toString());
-      if (xPos === undefined) return;
-
-      svg.append('rect')
-        .attr('x', xPos)
-        .attr('y', y(ob.top))
-        .attr('width', (width - margin.right - xPos))
-        .attr('height', Math.abs(y(ob.bottom) - y(ob.top)))
-        .attr('fill', ob.type === 'bullish' ? '#10b981' : '#ef4444')
-        .attr('fill-opacity', 0.1);
+      const xPos = xOf(layout, ob.startTime);
+      const xEnd = zoneEndX(ob.mitigatedTime);
+      if (xPos > plotRight || xEnd < MARGIN.left) return;
+      fillZone(xPos, xEnd, ob.top, ob.bottom, ob.type === 'bullish' ? '#10b981' : '#ef4444', ob.isValid ? 0.1 : 0.03);
     });
 
-    // Draw Candles
-    const candleGroup = svg.append('g');
-    data.forEach(d => {
-      const xPos = x(d.time.toString())!;
-      const color = d.close >= d.open ? '#10b981' : '#ef4444';
-      
-      // Wick
-      candleGroup.append('line')
-        .attr('x1', xPos + x.bandwidth() / 2)
-        .attr('x2', xPos + x.bandwidth() / 2)
-        .attr('y1', y(d.high))
-        .attr('y2', y(d.low))
-        .attr('stroke', color)
-        .attr('stroke-width', 1.5);
+    // Breakers, mitigation blocks, inversion FVGs, BPRs and volume imbalances
+    analysis.pdArrays.forEach(array => {
+      if (hiddenPdArrays.includes(array.kind)) return;
+      const xPos = xOf(layout, array.startTime);
+      const xEnd = zoneEndX(array.invalidatedTime);
+      if (xPos > plotRight || xEnd < MARGIN.left) return;
+      const style = PD_ARRAY_STYLES[array.kind];
+      const color = array.type === 'bullish' ? style.bull : style.bear;
 
-      // Body
-      candleGroup.append('rect')
-        .attr('x', xPos)
-        .attr('y', y(Math.max(d.open, d.close)))
-        .attr('width', x.bandwidth())
-        .attr('height', Math.max(1, Math.abs(y(d.open) - y(d.close))))
-        .attr('fill', color);
+      // Spent arrays leave only a faint fill behind
+      fillZone(xPos, xEnd, array.top, array.bottom, color, array.isValid ? 0.08 : 0.02);
+      if (array.isValid) {
+        ctx.globalAlpha = 0.8;
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1;
+        ctx.setLineDash(style.dash);
+        ctx.strokeRect(xPos, y(array.top), Math.max(0, xEnd - xPos), Math.abs(y(array.bottom) - y(array.top)));
+        ctx.setLineDash([]);
+
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = color;
+        ctx.font = 'bold 8px sans-serif';
+        ctx.textAlign = 'left';
+        ctx.fillText(style.tag, Math.max(MARGIN.left, xPos) + 2, y(array.top) + 9);
+      }
     });
 
-    // Market Structure Markers
+    ctx.globalAlpha = 1;
+    ctx.restore();
+  }, [layoutKey, zonesKey, htfAnalyses, sessionsKey, liquidityKey, rangeKey, pdArraysKey]);
+
+  // Candle layer: a tick that leaves the layout and every earlier bar alone
+  // repaints only the last bar; anything else (a new or revised bar) repaints all
+  useEffect(() => {
+    if (!layout || !candleCanvasRef.current) return;
+    const ctx = prepareCanvas(candleCanvasRef.current, layout);
+    const y = yScaleFor(layout);
+    const last = data.length - 1;
+    const previous = lastCandleRenderRef.current;
+
+    if (previous && previous.key === layout.key && previous.length === data.length && previous.settled === data[last - 1]) {
+      if (last <= layout.endIdx) {
+        const slotLeft = xAt(layout, last) - (layout.step - layout.bandwidth) / 2;
+        ctx.clearRect(slotLeft, 0, layout.step, layout.height);
+        drawCandle(ctx, layout, y, data[last], last);
+      }
+    } else {
+      ctx.clearRect(0, 0, layout.width, layout.height);
+      for (let i = Math.max(0, layout.startIdx); i <= layout.endIdx; i++) drawCandle(ctx, layout, y, data[i], i);
+    }
+    lastCandleRenderRef.current = { key: layout.key, length: data.length, settled: data[last - 1] };
+  }, [layoutKey, data]);
+
+  // Market Structure Markers: level from the broken pivot to the breaking candle
+  useEffect(() => {
+    if (!layout || !structureRef.current) return;
+    const g = d3.select(structureRef.current);
+    g.selectAll('*').remove();
+    const y = yScaleFor(layout);
+    const { bandwidth, plotRight } = layout;
+
     analysis.structure.forEach(s => {
-      const xPos = x(s.time.toString());
-      if (xPos === undefined) return;
+      const xBreak = xOf(layout, s.time);
+      const xPivot = xOf(layout, s.pivotTime);
+      if (xBreak < MARGIN.left - layout.step || xPivot > plotRight) return;
+      const isChoCh = s.type === 'ChoCh';
+      const color = isChoCh ? '#eab308' : s.direction === 'bullish' ? '#10b981' : '#ef4444';
+      const xMid = (xPivot + xBreak + bandwidth) / 2;
 
-      svg.append('line')
-        .attr('x1', xPos - 10)
-        .attr('x2', xPos + x.bandwidth() + 10)
+      g.append('line')
+        .attr('x1', xPivot + bandwidth / 2)
+        .attr('x2', xBreak + bandwidth)
         .attr('y1', y(s.price))
         .attr('y2', y(s.price))
-        .attr('stroke', s.direction === 'bullish' ? '#10b981' : '#ef4444')
-        .attr('stroke-dasharray', '4,2')
-        .attr('stroke-width', 2);
+        .attr('stroke', color)
+        .attr('stroke-dasharray', isChoCh ? '1,2' : '4,2')
+        .attr('stroke-width', isChoCh ? 1.5 : 2);
+
+      g.append('text')
+        .attr('x', xMid)
+        .attr('y', y(s.price) + (s.direction === 'bullish' ? -4 : 11))
+        .attr('text-anchor', 'middle')
+        .attr('fill', color)
+        .attr('font-size', '9px')
+        .attr('font-weight', 'bold')
+        .text(s.type);
     });
+  }, [layoutKey, structureKey]);
+
+  // Signal arrows: below the bar for buys, above it for sells, faded once settled
+  useEffect(() => {
+    if (!layout || !signalRef.current) return;
+    const g = d3.select(signalRef.current);
+    g.selectAll('*').remove();
+    const y = yScaleFor(layout);
+    const { bandwidth } = layout;
+    const bars = dataRef.current;
+
+    signals.forEach(s => {
+      const idx = timeBisector(bars, s.time);
+      const bar = bars[idx];
+      if (!bar || bar.time !== s.time || idx < layout.startIdx || idx > layout.endIdx) return;
+      const isBuy = s.side === 'BUY';
+      const cx = xAt(layout, idx) + bandwidth / 2;
+      const tip = isBuy ? y(bar.low) + 4 : y(bar.high) - 4;
+      const base = isBuy ? tip + 8 : tip - 8;
+      const half = Math.max(3, Math.min(6, bandwidth / 2));
+      const outcome = s.outcome === 'tp' ? 'hit TP' : s.outcome === 'sl' ? 'hit SL' : s.outcome === 'expired' ? 'expired unfilled' : 'open';
+
+      g.append('path')
+        .attr('d', `M${cx},${tip}L${cx - half},${base}L${cx + half},${base}Z`)
+        .attr('fill', isBuy ? '#10b981' : '#ef4444')
+        .attr('stroke', '#0f172a')
+        .attr('stroke-width', 0.5)
+        .attr('opacity', s.outcome === 'open' ? 1 : 0.5)
+        .append('title')
+        .text(`${s.side} @ ${s.entryPrice.toFixed(2)} (score ${formatScore(s.breakdown.score)}) · ${outcome}`);
+    });
+  }, [layoutKey, signalsKey]);
+
+  // Trade levels: signal SL/TP, open positions and resting orders
+  useEffect(() => {
+    if (!layout || !tradeRef.current) return;
+    const g = d3.select(tradeRef.current);
+    g.selectAll('*').remove();
+    const y = yScaleFor(layout);
+    const { bandwidth, plotRight } = layout;
 
     // Draw SL/TP Lines if available
-    const lastX = (x(data[data.length - 1].time.toString()) ?? 0) + x.bandwidth();
-    if (analysis.slPrice !== undefined) {
-      svg.append('line')
+    const lastX = Math.max(MARGIN.left, xAt(layout, data.length - 1) + bandwidth);
+    const signalLevel = (price: number, color: string, label: string) => {
+      g.append('line')
         .attr('x1', lastX)
-        .attr('x2', width - margin.right)
-        .attr('y1', y(analysis.slPrice))
-        .attr('y2', y(analysis.slPrice))
-        .attr('stroke', '#ef4444')
+        .attr('x2', plotRight)
+        .attr('y1', y(price))
+        .attr('y2', y(price))
+        .attr('stroke', color)
         .attr('stroke-width', 2)
         .attr('stroke-dasharray', '5,5');
-      
-      svg.append('text')
-        .attr('x', width - margin.right + 5)
-        .attr('y', y(analysis.slPrice))
+
+      g.append('text')
+        .attr('x', plotRight + 5)
+        .attr('y', y(price))
         .attr('dy', '0.32em')
-        .attr('fill', '#ef4444')
+        .attr('fill', color)
         .attr('font-size', '10px')
         .attr('font-weight', 'bold')
-        .text('SL');
+        .text(label);
+    };
+    if (lastX < plotRight) {
+      if (analysis.slPrice !== undefined) signalLevel(analysis.slPrice, '#ef4444', 'SL');
+      if (analysis.tpPrice !== undefined) signalLevel(analysis.tpPrice, '#10b981', 'TP');
+      if (analysis.entryType === 'limit' && analysis.entryPrice !== undefined) signalLevel(analysis.entryPrice, '#6366f1', 'LMT');
     }
 
-    if (analysis.tpPrice !== undefined) {
-      svg.append('line')
-        .attr('x1', lastX)
-        .attr('x2', width - margin.right)
-        .attr('y1', y(analysis.tpPrice))
-        .attr('y2', y(analysis.tpPrice))
-        .attr('stroke', '#10b981')
-        .attr('stroke-width', 2)
-        .attr('stroke-dasharray', '5,5');
+    // Paper trading: open positions and resting orders
+    const priceTag = (price: number, color: string, label: string, x1: number, dash: string) => {
+      if (x1 > plotRight) return;
+      g.append('line')
+        .attr('x1', Math.max(MARGIN.left, x1))
+        .attr('x2', plotRight)
+        .attr('y1', y(price))
+        .attr('y2', y(price))
+        .attr('stroke', color)
+        .attr('stroke-width', 1)
+        .attr('stroke-dasharray', dash);
 
-      svg.append('text')
-        .attr('x', width - margin.right + 5)
-        .attr('y', y(analysis.tpPrice))
-        .attr('dy', '0.32em')
-        .attr('fill', '#10b981')
-        .attr('font-size', '10px')
+      g.append('text')
+        .attr('x', plotRight - 4)
+        .attr('y', y(price) - 3)
+        .attr('text-anchor', 'end')
+        .attr('fill', color)
+        .attr('font-size', '9px')
         .attr('font-weight', 'bold')
-        .text('TP');
-    }
+        .text(label);
+    };
+
+    positions.forEach(p => {
+      const x1 = xOf(layout, p.openedAt) + bandwidth / 2;
+      priceTag(p.entryPrice, '#38bdf8', `${p.side === 'BUY' ? 'LONG' : 'SHORT'} ${p.quantity}`, x1, '');
+      priceTag(p.slPrice, '#f43f5e', p.slPrice === p.entryPrice ? 'BE' : 'POS SL', x1, '3,2');
+      if (p.tpPrice !== undefined) priceTag(p.tpPrice, '#22c55e', 'POS TP', x1, '3,2');
+    });
 
-    // Y-Axis
-    svg.append('g')
-      .attr('transform', `translate(${width - margin.right}, 0)`)
-      .call(d3.axisRight(y).ticks(10).tickFormat(d3.format('.2f')))
+    orders.forEach(o => {
+      const x1 = xOf(layout, o.createdAt) + bandwidth / 2;
+      priceTag(o.price!, '#a78bfa', `${o.side} ${o.type.toUpperCase()} ${o.quantity}`, x1, '6,3');
+    });
+  }, [layoutKey, data.length, analysis.slPrice, analysis.tpPrice, analysis.entryPrice, analysis.entryType, positions, orders]);
+
+  // Y-Axis and plot clip
+  useEffect(() => {
+    if (!layout || !axisRef.current || !clipRectRef.current || !timeAxisRef.current) return;
+    d3.select(clipRectRef.current)
+      .attr('x', MARGIN.left)
+      .attr('y', 0)
+      .attr('width', layout.plotRight - MARGIN.left)
+      .attr('height', layout.height);
+
+    const g = d3.select(axisRef.current);
+    g.selectAll('*').remove();
+    g.attr('transform', `translate(${layout.plotRight}, 0)`)
+      .call(d3.axisRight(yScaleFor(layout)).ticks(10).tickFormat(d3.format('.2f')))
       .call(g => g.select('.domain').remove())
       .call(g => g.selectAll('.tick line').attr('stroke', '#475569'));
 
-    // --- Drawings Layer ---
-    const drawGroup = svg.append('g').attr('class', 'drawings');
+    // Time axis: evenly spaced bars, labelled by the interval's granularity
+    const series = dataRef.current;
+    const intervalMs = intervalToMs(interval);
+    const every = Math.max(1, Math.ceil(MIN_TIME_LABEL_SPACING / layout.step));
+    const axisY = layout.height - MARGIN.bottom;
+    const timeAxis = d3.select(timeAxisRef.current);
+    timeAxis.selectAll('*').remove();
+
+    let prevTime: number | undefined;
+    for (let i = Math.max(0, layout.startIdx); i <= layout.endIdx; i++) {
+      if (i % every !== 0) continue;
+      const xPos = xAt(layout, i) + layout.bandwidth / 2;
+      timeAxis.append('line')
+        .attr('x1', xPos)
+        .attr('x2', xPos)
+        .attr('y1', axisY)
+        .attr('y2', axisY + 4)
+        .attr('stroke', '#475569');
+      timeAxis.append('text')
+        .attr('x', xPos)
+        .attr('y', axisY + 16)
+        .attr('text-anchor', 'middle')
+        .attr('fill', 'currentColor')
+        .attr('font-size', '10px')
+        .text(formatTimeTick(series[i].time, prevTime, intervalMs));
+      prevTime = series[i].time;
+    }
+  }, [layoutKey, interval]);
+
+  // --- Drawings Layer ---
+  // Position tools show live P&L, so they repaint on ticks; other drawings don't need to
+  const positionToolPrice = drawings.some(d => d.type === 'long' || d.type === 'short') ? data[data.length - 1]?.close : undefined;
+  useEffect(() => {
+    if (!layout || !drawingRef.current) return;
+    const drawGroup = d3.select(drawingRef.current);
+    drawGroup.selectAll('*').remove();
+    const y = yScaleFor(layout);
+    const { bandwidth, plotRight } = layout;
 
     const renderDrawing = (d: Drawing) => {
       const color = d.color || '#6366f1';
-      if (d.type === 'trendline' && d.points.length >= 2) {
-        const p1 = d.points[0];
-        const p2 = d.points[1];
-        const x1 = x(p1.time.toString()) ?? 0;
-        const x2 = x(p2.time.toString()) ?? 0;
-        drawGroup.append('line')
-          .attr('x1', x1 + x.bandwidth() / 2)
-          .attr('y1', y(p1.price))
-          .attr('x2', x2 + x.bandwidth() / 2)
-          .attr('y2', y(p2.price))
-          .attr('stroke', color)
-          .attr('stroke-width', 2);
+      const strokeWidth = d.width ?? 2;
+      const dash = DASH_ARRAYS[d.lineStyle ?? 'solid'];
+      const px = (p: { time: number }) => xOf(layout, p.time) + bandwidth / 2;
+      const label = (x: number, yPos: number, anchor: 'start' | 'end') => {
+        if (!d.label) return;
+        drawGroup.append('text')
+          .attr('x', x)
+          .attr('y', yPos - 5)
+          .attr('text-anchor', anchor)
+          .attr('fill', color)
+          .attr('font-size', '10px')
+          .attr('font-weight', 'bold')
+          .text(d.label);
+      };
+      const line = (x1: number, y1: number, x2: number, y2: number) => drawGroup.append('line')
+        .attr('x1', x1)
+        .attr('y1', y1)
+        .attr('x2', x2)
+        .attr('y2', y2)
+        .attr('stroke', color)
+        .attr('stroke-width', strokeWidth)
+        .attr('stroke-dasharray', dash);
+
+      if ((d.type === 'trendline' || d.type === 'ray') && d.points.length >= 2) {
+        const [p1, p2] = d.points;
+        const [x2, y2] = d.type === 'ray'
+          ? rayEnd(px(p1), y(p1.price), px(p2), y(p2.price), MARGIN.left, plotRight)
+          : [px(p2), y(p2.price)];
+        line(px(p1), y(p1.price), x2, y2);
+        label(px(p2), y(p2.price), 'start');
       } else if (d.type === 'horizontal' && d.points.length >= 1) {
         const p = d.points[0];
-        drawGroup.append('line')
-          .attr('x1', margin.left)
-          .attr('x2', width - margin.right)
-          .attr('y1', y(p.price))
-          .attr('y2', y(p.price))
+        line(MARGIN.left, y(p.price), plotRight, y(p.price));
+        label(plotRight - 4, y(p.price), 'end');
+      } else if (d.type === 'vertical' && d.points.length >= 1) {
+        const x = px(d.points[0]);
+        line(x, MARGIN.top, x, layout.height - MARGIN.bottom);
+        label(x + 4, MARGIN.top + 10, 'start');
+      } else if (d.type === 'rectangle' && d.points.length >= 2) {
+        const [p1, p2] = d.points;
+        const x1 = Math.min(px(p1), px(p2));
+        const yTop = Math.min(y(p1.price), y(p2.price));
+        drawGroup.append('rect')
+          .attr('x', x1)
+          .attr('y', yTop)
+          .attr('width', Math.abs(px(p2) - px(p1)))
+          .attr('height', Math.abs(y(p2.price) - y(p1.price)))
+          .attr('fill', color)
+          .attr('fill-opacity', 0.12)
           .attr('stroke', color)
-          .attr('stroke-width', 2);
+          .attr('stroke-width', strokeWidth)
+          .attr('stroke-dasharray', dash);
+        if (d.label) label(x1 + 4, yTop + 16, 'start');
+      } else if ((d.type === 'long' || d.type === 'short') && d.points.length >= 3) {
+        const [entry, stop, target] = d.points;
+        const [x1, x2] = positionSpan(px(entry), px(stop), px(target), layout.step);
+        const stats = positionToolStats(d, dataRef.current[dataRef.current.length - 1].close);
+        const box = (price: number, fill: string) => drawGroup.append('rect')
+          .attr('x', x1)
+          .attr('y', Math.min(y(entry.price), y(price)))
+          .attr('width', x2 - x1)
+          .attr('height', Math.abs(y(price) - y(entry.price)))
+          .attr('fill', fill)
+          .attr('fill-opacity', 0.15);
+        const boxText = (price: number, fill: string, text: string) => drawGroup.append('text')
+          .attr('x', x1 + 4)
+          .attr('y', y(price) + (y(price) < y(entry.price) ? 11 : -4))
+          .attr('fill', fill)
+          .attr('font-size', '9px')
+          .attr('font-weight', 'bold')
+          .text(text);
+
+        box(stop.price, '#ef4444');
+        box(target.price, '#10b981');
+        line(x1, y(entry.price), x2, y(entry.price));
+        boxText(target.price, '#10b981', `Target ${target.price.toFixed(2)} (${stats.rewardPercent.toFixed(2)}%) · ${stats.rr.toFixed(2)}R`);
+        boxText(stop.price, '#ef4444', `Stop ${stop.price.toFixed(2)} (${stats.riskPercent.toFixed(2)}%)`);
+        drawGroup.append('text')
+          .attr('x', x2 - 4)
+          .attr('y', y(entry.price) - 4)
+          .attr('text-anchor', 'end')
+          .attr('fill', stats.pnlR >= 0 ? '#10b981' : '#ef4444')
+          .attr('font-size', '9px')
+          .attr('font-weight', 'bold')
+          .text(`${d.label ?? d.type.toUpperCase()} ${stats.pnlR >= 0 ? '+' : ''}${stats.pnlR.toFixed(2)}R (${stats.pnlPercent.toFixed(2)}%)`);
+      } else if (d.type === 'text' && d.points.length >= 1) {
+        const p = d.points[0];
+        drawGroup.append('text')
+          .attr('x', px(p))
+          .attr('y', y(p.price))
+          .attr('dy', '0.32em')
+          .attr('fill', color)
+          .attr('font-size', `${10 + (d.width ?? 2)}px`)
+          .attr('font-weight', 'bold')
+          .text(d.label ?? 'Note');
       } else if (d.type === 'fib' && d.points.length >= 2) {
-        const p1 = d.points[0];
-        const p2 = d.points[1];
-        const y1 = y(p1.price);
-        const y2 = y(p2.price);
+        const [p1, p2] = d.points;
         const diff = p2.price - p1.price;
-        const levels = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
-        levels.forEach(lvl => {
-          const pLvl = p1.price + diff * lvl;
-          const yLvl = y(pLvl);
+        const levelY = (lvl: number) => y(p1.price + diff * lvl);
+
+        if (d.showOte !== false) {
+          drawGroup.append('rect')
+            .attr('x', MARGIN.left)
+            .attr('y', Math.min(levelY(OTE_RANGE[0]), levelY(OTE_RANGE[1])))
+            .attr('width', plotRight - MARGIN.left)
+            .attr('height', Math.abs(levelY(OTE_RANGE[1]) - levelY(OTE_RANGE[0])))
+            .attr('fill', color)
+            .attr('fill-opacity', 0.1);
+          drawGroup.append('text')
+            .attr('x', plotRight - 4)
+            .attr('y', Math.min(levelY(OTE_RANGE[0]), levelY(OTE_RANGE[1])) + 10)
+            .attr('text-anchor', 'end')
+            .attr('fill', color)
+            .attr('font-size', '9px')
+            .attr('font-weight', 'bold')
+            .text('OTE');
+        }
+
+        (d.fibLevels ?? DEFAULT_FIB_LEVELS).forEach(lvl => {
+          const yLvl = levelY(lvl);
           drawGroup.append('line')
-            .attr('x1', margin.left)
-            .attr('x2', width - margin.right)
+            .attr('x1', MARGIN.left)
+            .attr('x2', plotRight)
             .attr('y1', yLvl)
             .attr('y2', yLvl)
             .attr('stroke', color)
             .attr('stroke-opacity', 0.5)
-            .attr('stroke-dasharray', '2,2');
+            .attr('stroke-width', d.width ?? 1)
+            .attr('stroke-dasharray', d.lineStyle ? dash : '2,2');
           drawGroup.append('text')
-            .attr('x', margin.left + 5)
+            .attr('x', MARGIN.left + 5)
             .attr('y', yLvl - 2)
             .attr('fill', color)
             .attr('font-size', '10px')
             .text(`${(lvl * 100).toFixed(1)}%`);
         });
+        label(px(p2), y(p2.price), 'start');
+      }
+
+      // Handles on the selected drawing's anchor points
+      if (d.id === selectedDrawingId) {
+        d.points.forEach(p => {
+          drawGroup.append('circle')
+            .attr('cx', px(p))
+            .attr('cy', y(p.price))
+            .attr('r', 4)
+            .attr('fill', '#0B0F19')
+            .attr('stroke', color)
+            .attr('stroke-width', 2);
+        });
       }
     };
 
-    drawings.forEach(renderDrawing);
+    const shown = draft ? drawings.map(d => d.id === draft.id ? draft : d) : drawings;
+    shown.forEach(renderDrawing);
+  }, [layoutKey, drawings, draft, selectedDrawingId, positionToolPrice]);
+
+  // Interaction: drawing clicks, preview, wheel zoom and drag-to-pan
+  useEffect(() => {
+    if (!layout || !interactionRef.current || !drawingRef.current) return;
+    const interactionLayer = d3.select(interactionRef.current)
+      .attr('width', layout.width)
+      .attr('height', layout.height);
+    const y = yScaleFor(layout);
+    const { step, plotRight } = layout;
+
+    const setEndIdx = (idx: number, barCount: number) => {
+      const series = dataRef.current;
+      const clamped = Math.max(Math.min(series.length - 1, MIN_VISIBLE_BARS - 1), Math.min(series.length - 1, idx));
+      setViewport({ endTime: clamped >= series.length - 1 ? null : series[clamped].time, barCount });
+    };
 
-    // Click handling for new drawings
-    const interactionLayer = svg.append('rect')
-      .attr('width', width)
-      .attr('height', height)
-      .attr('fill', 'transparent')
-      .style('pointer-events', activeTool ? 'all' : 'none');
+    const clampIdx = (idx: number) => Math.max(0, Math.min(dataRef.current.length - 1, idx));
+    const pointX = (p: { time: number }) => xOf(layout, p.time) + layout.bandwidth / 2;
+
+    // Handles of the selected drawing win over bodies; later drawings sit on top
+    const hitTest = (mx: number, my: number): { drawing: Drawing; pointIdx: number | null } | null => {
+      const selected = drawings.find(d => d.id === selectedDrawingId);
+      if (selected) {
+        const pointIdx = selected.points.findIndex(p => Math.hypot(pointX(p) - mx, y(p.price) - my) <= HIT_TOLERANCE);
+        if (pointIdx >= 0) return { drawing: selected, pointIdx };
+      }
+
+      const inside = (x1: number, x2: number, y1: number, y2: number) =>
+        mx >= Math.min(x1, x2) - HIT_TOLERANCE && mx <= Math.max(x1, x2) + HIT_TOLERANCE &&
+        my >= Math.min(y1, y2) - HIT_TOLERANCE && my <= Math.max(y1, y2) + HIT_TOLERANCE;
+
+      const hit = [...drawings].reverse().find(d => {
+        const [p1, p2, p3] = d.points;
+        switch (d.type) {
+          case 'horizontal': return Math.abs(y(p1.price) - my) <= HIT_TOLERANCE;
+          case 'vertical': return Math.abs(pointX(p1) - mx) <= HIT_TOLERANCE;
+          case 'text': return inside(pointX(p1), pointX(p1) + (d.label ?? 'Note').length * 7, y(p1.price) - 8, y(p1.price) + 8);
+          case 'trendline': return distanceToSegment(mx, my, pointX(p1), y(p1.price), pointX(p2), y(p2.price)) <= HIT_TOLERANCE;
+          case 'ray': {
+            const [x2, y2] = rayEnd(pointX(p1), y(p1.price), pointX(p2), y(p2.price), MARGIN.left, plotRight);
+            return distanceToSegment(mx, my, pointX(p1), y(p1.price), x2, y2) <= HIT_TOLERANCE;
+          }
+          case 'rectangle': return inside(pointX(p1), pointX(p2), y(p1.price), y(p2.price));
+          case 'long':
+          case 'short': {
+            const [x1, x2] = positionSpan(pointX(p1), pointX(p2), pointX(p3), step);
+            return inside(x1, x2, y(p2.price), y(p3.price));
+          }
+          case 'fib': return (d.fibLevels ?? DEFAULT_FIB_LEVELS).some(lvl => Math.abs(y(p1.price + (p2.price - p1.price) * lvl) - my) <= HIT_TOLERANCE);
+        }
+      });
+      return hit ? { drawing: hit, pointIdx: null } : null;
+    };
+
+    // Endpoint drags snap to the candle under the cursor; body drags shift every point by whole bars
+    const editDrawing = (mx: number, my: number) => {
+      const { original, pointIdx, startX, startY } = editRef.current!;
+      const series = dataRef.current;
+      const points = pointIdx !== null
+        ? original.points.map((p, i) => i === pointIdx
+          ? { time: series[clampIdx(layout.startIdx + Math.floor((mx - MARGIN.left) / step))].time, price: y.invert(my) }
+          : p)
+        : original.points.map(p => ({
+          time: series[clampIdx(timeBisector(series, p.time) + Math.round((mx - startX) / step))].time,
+          price: p.price + y.invert(my) - y.invert(startY)
+        }));
+      updateDraft({ ...original, points });
+    };
 
     interactionLayer.on('click', (event) => {
       if (!activeTool) return;
       const [mx, my] = d3.pointer(event);
-      
+
       // Find closest candle for time
-      const domain = x.domain();
-      const bandwidth = x.bandwidth();
-      const step = x.step();
-      const index = Math.floor((mx - margin.left) / step);
-      if (index < 0 || index >= domain.length) return;
+      const series = dataRef.current;
+      const index = layout.startIdx + Math.floor((mx - MARGIN.left) / step);
+      if (index < 0 || index >= series.length) return;
 
-      const time = parseInt(domain[index]);
+      const time = series[index].time;
       const price = y.invert(my);
 
       const newPoint = { time, price };
 
-      if (activeTool === 'horizontal') {
-        onDrawingsChange([...drawings, {
-          id: Math.random().toString(36).substr(2, 9),
-          type: 'horizontal',
-          points: [newPoint],
-          color: '#6366f1'
-        }]);
-        onToolUsed();
-      } else {
-        const updatedPoints = [...currentPoints, newPoint];
-        if (updatedPoints.length === 2) {
-          onDrawingsChange([...drawings, {
-            id: Math.random().toString(36).substr(2, 9),
-            type: activeTool,
-            points: updatedPoints,
-            color: '#6366f1'
-          }]);
-          setCurrentPoints([]);
-          onToolUsed();
-        } else {
-          setCurrentPoints(updatedPoints);
-        }
+      const updatedPoints = [...currentPoints, newPoint];
+      if (updatedPoints.length < pointsForTool(activeTool)) {
+        setCurrentPoints(updatedPoints);
+        return;
       }
+
+      let drawing: Drawing = {
+        id: Math.random().toString(36).substr(2, 9),
+        type: activeTool,
+        points: updatedPoints,
+        color: '#6366f1'
+      };
+      if (activeTool === 'long' || activeTool === 'short') drawing = withPositionTarget(drawing);
+      if (activeTool === 'text') {
+        const text = window.prompt('Note text');
+        drawing = text ? { ...drawing, label: text } : drawing;
+      }
+
+      setCurrentPoints([]);
+      onToolUsed();
+      if (activeTool !== 'text' || drawing.label) onDrawingsChange([...drawings, drawing]);
+    });
+
+    // Crosshair snaps to the hovered candle and badges its price and time on the axes
+    const crosshair = d3.select(crosshairRef.current);
+    const intervalMs = intervalToMs(interval);
+    const badge = (x: number, yPos: number, text: string, anchor: 'start' | 'middle') => {
+      const label = crosshair.append('g');
+      const node = label.append('text')
+        .attr('x', x)
+        .attr('y', yPos)
+        .attr('dy', '0.32em')
+        .attr('text-anchor', anchor)
+        .attr('fill', '#f8fafc')
+        .attr('font-size', '10px')
+        .attr('font-family', 'monospace')
+        .text(text)
+        .node()!;
+      const box = node.getBBox();
+      label.insert('rect', 'text')
+        .attr('x', box.x - 4)
+        .attr('y', box.y - 2)
+        .attr('width', box.width + 8)
+        .attr('height', box.height + 4)
+        .attr('rx', 2)
+        .attr('fill', '#334155');
+    };
+
+    const drawCrosshair = (mx: number, my: number) => {
+      const series = dataRef.current;
+      const idx = Math.min(layout.endIdx, Math.max(Math.max(0, layout.startIdx), layout.startIdx + Math.floor((mx - MARGIN.left) / step)));
+      crosshair.selectAll('*').remove();
+      if (mx < MARGIN.left || mx > plotRight || my < MARGIN.top || my > layout.height - MARGIN.bottom || !series[idx]) {
+        setHoverIdx(null);
+        return;
+      }
+      const cx = xAt(layout, idx) + layout.bandwidth / 2;
+
+      crosshair.append('line')
+        .attr('x1', cx).attr('x2', cx)
+        .attr('y1', MARGIN.top).attr('y2', layout.height - MARGIN.bottom)
+        .attr('stroke', '#64748b').attr('stroke-width', 1).attr('stroke-dasharray', '3,3');
+      crosshair.append('line')
+        .attr('x1', MARGIN.left).attr('x2', plotRight)
+        .attr('y1', my).attr('y2', my)
+        .attr('stroke', '#64748b').attr('stroke-width', 1).attr('stroke-dasharray', '3,3');
+
+      badge(plotRight + 4, my, y.invert(my).toFixed(2), 'start');
+      badge(cx, layout.height - MARGIN.bottom + 16, formatBadgeTime(series[idx].time, intervalMs), 'middle');
+      setHoverIdx(idx);
+    };
+
+    interactionLayer.on('mouseleave', () => {
+      crosshair.selectAll('*').remove();
+      setHoverIdx(null);
     });
 
     // Preview crosshair or pending lines
+    const drawGroup = d3.select(drawingRef.current);
     interactionLayer.on('mousemove', (event) => {
-       if (currentPoints.length === 1 && (activeTool === 'trendline' || activeTool === 'fib')) {
-          const [mx, my] = d3.pointer(event);
-          const price = y.invert(my);
-          const p1 = currentPoints[0];
-          
-          svg.select('.drawing-preview').remove();
-          const preview = svg.append('g').attr('class', 'drawing-preview');
-          const x1 = (x(p1.time.toString()) ?? 0) + x.bandwidth()/2;
-          
-          if (activeTool === 'trendline') {
-            preview.append('line')
-              .attr('x1', x1).attr('y1', y(p1.price))
-              .attr('x2', mx).attr('y2', my)
-              .attr('stroke', '#6366f1').attr('stroke-width', 1).attr('stroke-dasharray', '4,4');
-          }
-       }
+      const [cursorX, cursorY] = d3.pointer(event);
+      drawCrosshair(cursorX, cursorY);
+
+      if (editRef.current) {
+        editDrawing(cursorX, cursorY);
+        return;
+      }
+
+      if (dragRef.current) {
+        const bars = Math.round((d3.pointer(event)[0] - dragRef.current.startX) / step);
+        const target = dragRef.current.endIdx - bars;
+        if (target !== layout.endIdx) setEndIdx(target, viewport.barCount);
+        return;
+      }
+
+      if (!activeTool) interactionLayer.style('cursor', hitTest(cursorX, cursorY) ? 'move' : null);
+
+      if (currentPoints.length === 1 && activeTool) {
+        const [mx, my] = d3.pointer(event);
+        const p1 = currentPoints[0];
+
+        drawGroup.select('.drawing-preview').remove();
+        const preview = drawGroup.append('g').attr('class', 'drawing-preview');
+        const x1 = xOf(layout, p1.time) + layout.bandwidth / 2;
+
+        if (activeTool === 'trendline' || activeTool === 'ray') {
+          preview.append('line')
+            .attr('x1', x1).attr('y1', y(p1.price))
+            .attr('x2', mx).attr('y2', my)
+            .attr('stroke', '#6366f1').attr('stroke-width', 1).attr('stroke-dasharray', '4,4');
+        } else {
+          preview.append('rect')
+            .attr('x', Math.min(x1, mx)).attr('y', Math.min(y(p1.price), my))
+            .attr('width', Math.abs(mx - x1)).attr('height', Math.abs(my - y(p1.price)))
+            .attr('fill', 'none')
+            .attr('stroke', '#6366f1').attr('stroke-width', 1).attr('stroke-dasharray', '4,4');
+        }
+      }
+    });
+
+    // With no drawing tool armed, pressing on a drawing selects and edits it; anywhere else pans
+    interactionLayer.on('mousedown', (event: MouseEvent) => {
+      if (activeTool) return;
+      const [mx, my] = d3.pointer(event);
+      const hit = hitTest(mx, my);
+      if (hit) {
+        onSelectDrawing?.(hit.drawing.id);
+        editRef.current = { original: hit.drawing, pointIdx: hit.pointIdx, startX: mx, startY: my };
+        return;
+      }
+      onSelectDrawing?.(null);
+      dragRef.current = { startX: mx, endIdx: layout.endIdx };
     });
+    d3.select(window).on('mouseup.chart-viewport', () => {
+      dragRef.current = null;
+      if (!editRef.current) return;
+      const edited = draftRef.current;
+      editRef.current = null;
+      updateDraft(null);
+      if (edited) onDrawingsChange(drawings.map(d => d.id === edited.id ? edited : d));
+    });
+
+    // Wheel zooms around the cursor; a view that follows the latest bar keeps following
+    interactionLayer.on('wheel', (event: WheelEvent) => {
+      event.preventDefault();
+      const [mx] = d3.pointer(event);
+      const factor = event.deltaY > 0 ? 1.15 : 1 / 1.15;
+      const barCount = Math.round(Math.min(MAX_VISIBLE_BARS, Math.max(MIN_VISIBLE_BARS, viewport.barCount * factor)));
+      if (barCount === viewport.barCount) return;
+      if (viewport.endTime === null) {
+        setViewport({ endTime: null, barCount });
+        return;
+      }
+      const fraction = Math.min(1, Math.max(0, (mx - MARGIN.left) / (plotRight - MARGIN.left)));
+      const anchorIdx = layout.startIdx + fraction * viewport.barCount;
+      setEndIdx(Math.round(anchorIdx - fraction * barCount + barCount - 1), barCount);
+    });
+  }, [layoutKey, interval, activeTool, currentPoints, drawings, selectedDrawingId, viewport]);
+
+  useEffect(() => () => { d3.select(window).on('mouseup.chart-viewport', null); }, []);
 
-  }, [data, analysis, drawings, activeTool, currentPoints]);
+  // Legend follows the hovered bar and falls back to the latest one
+  const legendIdx = hoverIdx !== null && hoverIdx < data.length ? hoverIdx : data.length - 1;
+  const legendBar = data[legendIdx];
+  const legendPrev = data[legendIdx - 1];
+  const legendChange = legendBar ? ((legendBar.close - (legendPrev?.close ?? legendBar.open)) / (legendPrev?.close ?? legendBar.open)) * 100 : 0;
+  const legendEvents = legendBar ? [
+    ...analysis.orderBlocks.filter(z => z.startTime === legendBar.time).map(z => `${z.type} OB`),
+    ...analysis.fvgs.filter(z => z.startTime === legendBar.time).map(z => `${z.type} FVG`),
+    ...analysis.structure.filter(s => s.time === legendBar.time).map(s => `${s.direction} ${s.type}`),
+    ...analysis.structure.filter(s => s.pivotTime === legendBar.time).map(s => `${s.type} pivot`)
+  ] : [];
 
   return (
-    <div ref={containerRef} className={`w-full h-full relative ${activeTool ? 'cursor-crosshair' : 'cursor-default'}`}>
-      <svg ref={svgRef} className="w-full h-full" />
+    <div ref={containerRef} className={`w-full h-full relative ${activeTool ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}>
+      <canvas ref={zoneCanvasRef} className="absolute inset-0 w-full h-full" />
+      <canvas ref={candleCanvasRef} className="absolute inset-0 w-full h-full" />
+      <svg className="absolute inset-0 w-full h-full">
+        <defs>
+          <clipPath id="chart-plot-clip">
+            <rect ref={clipRectRef} />
+          </clipPath>
+        </defs>
+        <g ref={structureRef} clipPath="url(#chart-plot-clip)" />
+        <g ref={signalRef} clipPath="url(#chart-plot-clip)" />
+        <g ref={tradeRef} />
+        <g ref={drawingRef} clipPath="url(#chart-plot-clip)" />
+        <g ref={axisRef} />
+        <g ref={timeAxisRef} className="text-slate-400" />
+        <g ref={crosshairRef} pointerEvents="none" />
+        <rect ref={interactionRef} fill="transparent" />
+      </svg>
+      {legendBar && (
+        <div className="absolute top-4 right-20 flex flex-col items-end gap-1 pointer-events-none z-20">
+          <div className="flex gap-3 text-[10px] font-mono bg-slate-900/90 backdrop-blur px-2.5 py-1.5 rounded-lg border border-slate-800 shadow-xl">
+            <span className="text-slate-500">{formatBadgeTime(legendBar.time, intervalToMs(interval))}</span>
+            {(['open', 'high', 'low', 'close'] as const).map(field => (
+              <span key={field} className="text-slate-500">
+                {field[0].toUpperCase()} <span className={legendChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{legendBar[field].toFixed(2)}</span>
+              </span>
+            ))}
+            <span className="text-slate-500">V <span className="text-slate-300">{legendBar.volume.toFixed(2)}</span></span>
+            <span className={legendChange >= 0 ? 'text-emerald-400' : 'text-rose-400'}>{legendChange >= 0 ? '+' : ''}{legendChange.toFixed(2)}%</span>
+          </div>
+          {legendEvents.length > 0 && (
+            <div className="flex gap-1">
+              {legendEvents.map(event => (
+                <span key={event} className="text-[9px] font-bold uppercase bg-slate-900/90 border border-slate-800 rounded px-1.5 py-0.5 text-slate-300">{event}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      {viewport.endTime !== null && (
+        <button
+          onClick={() => setViewport(v => ({ ...v, endTime: null }))}
+          className="absolute bottom-12 right-20 text-[10px] font-bold uppercase px-2 py-1 rounded bg-slate-800/90 border border-slate-700 text-slate-300 hover:text-white hover:bg-slate-700"
+        >
+          Latest <i className="fa-solid fa-angles-right ml-1"></i>
+        </button>
+      )}
     </div>
   );
 };
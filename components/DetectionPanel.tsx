@@ -0,0 +1,80 @@
+
+import React, { useState } from 'react';
+import { Config, NumericParameter } from '../types';
+import { PARAMETER_LIMITS, validateParameter } from '../services/parameters';
+
+interface DetectionPanelProps {
+  config: Config;
+  onChange: (patch: Partial<Config>) => void;
+}
+
+const FIELDS: NumericParameter[] = ['pivotConfirmation', 'obLookback', 'obImpulse', 'fvgSizeRatio', 'fvgMinSize', 'displacement', 'chartPadding'];
+
+// Text typed into a field is kept as a draft until it validates, so a bad value never reaches the analysis
+const DetectionPanel: React.FC<DetectionPanelProps> = ({ config, onChange }) => {
+  const [drafts, setDrafts] = useState<Partial<Record<NumericParameter, string>>>({});
+
+  const edit = (key: NumericParameter, text: string) => {
+    setDrafts(prev => ({ ...prev, [key]: text }));
+    const value = parseFloat(text);
+    if (validateParameter(key, value) === null) onChange({ [key]: value });
+  };
+
+  const settle = (key: NumericParameter) => setDrafts(prev => {
+    const next = { ...prev };
+    delete next[key];
+    return next;
+  });
+
+  const errors = FIELDS
+    .map(key => drafts[key] === undefined ? null : validateParameter(key, parseFloat(drafts[key]!)))
+    .filter((e): e is string => e !== null);
+
+  const inputClass = 'w-20 bg-slate-900 border rounded-md px-2 py-0.5 text-[11px] font-mono text-slate-200 text-right focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Detection</h2>
+      <div className="space-y-2 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        {FIELDS.map(key => {
+          const limit = PARAMETER_LIMITS[key];
+          const draft = drafts[key];
+          const invalid = draft !== undefined && validateParameter(key, parseFloat(draft)) !== null;
+          return (
+            <div key={key} className="flex justify-between items-center gap-2 text-[10px] text-slate-400 uppercase">
+              <span>{limit.label}</span>
+              <div className="flex items-center gap-1">
+                {key === 'fvgMinSize' && (
+                  <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+                    {(['atr', 'points'] as const).map(unit => (
+                      <button
+                        key={unit}
+                        onClick={() => onChange({ fvgSizeUnit: unit })}
+                        className={`px-1.5 py-0.5 font-bold ${config.fvgSizeUnit === unit ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+                      >
+                        {unit === 'atr' ? 'ATR' : 'pts'}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <input
+                  type="number" min={limit.min} max={limit.max} step={limit.step}
+                  value={draft ?? config[key]}
+                  onChange={(e) => edit(key, e.target.value)}
+                  onBlur={() => settle(key)}
+                  className={`${inputClass} ${invalid ? 'border-rose-500 text-rose-300' : 'border-slate-700'}`}
+                />
+              </div>
+            </div>
+          );
+        })}
+        {errors.map(error => (
+          <div key={error} className="text-[9px] text-rose-400">{error}</div>
+        ))}
+        <div className="text-[9px] text-slate-500">0 turns off the FVG floor and the displacement filter.</div>
+      </div>
+    </section>
+  );
+};
+
+export default DetectionPanel;
@@ -0,0 +1,104 @@
+
+import React from 'react';
+import { Drawing, DrawingLineStyle } from '../types';
+import { DEFAULT_FIB_LEVELS } from '../services/drawingTools';
+
+interface DrawingStyleEditorProps {
+  drawing: Drawing;
+  onChange: (patch: Partial<Drawing>) => void;
+  onDelete: () => void;
+}
+
+const PALETTE = ['#6366f1', '#3b82f6', '#10b981', '#eab308', '#f97316', '#ef4444', '#a855f7', '#f8fafc'];
+const LINE_STYLES: DrawingLineStyle[] = ['solid', 'dashed', 'dotted'];
+
+const DrawingStyleEditor: React.FC<DrawingStyleEditorProps> = ({ drawing, onChange, onDelete }) => {
+  const width = drawing.width ?? 2;
+  const lineStyle = drawing.lineStyle ?? 'solid';
+
+  return (
+    <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">{drawing.type} #{drawing.id.slice(0, 4)}</span>
+        <button onClick={onDelete} className="text-[10px] text-slate-500 hover:text-rose-400" title="Delete (Del)">
+          <i className="fa-solid fa-trash-can"></i>
+        </button>
+      </div>
+
+      <div className="flex gap-1.5">
+        {PALETTE.map(color => (
+          <button
+            key={color}
+            onClick={() => onChange({ color })}
+            className={`w-4 h-4 rounded-full border ${drawing.color === color ? 'border-white scale-110' : 'border-slate-700'}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+          {[1, 2, 3, 4].map(w => (
+            <button
+              key={w}
+              onClick={() => onChange({ width: w })}
+              className={`flex-1 text-[10px] py-1 font-mono font-bold ${width === w ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {w}px
+            </button>
+          ))}
+        </div>
+        <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+          {LINE_STYLES.map(style => (
+            <button
+              key={style}
+              onClick={() => onChange({ lineStyle: style })}
+              className={`flex-1 text-[10px] py-1 font-bold ${lineStyle === style ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              title={style}
+            >
+              {style === 'solid' ? '—' : style === 'dashed' ? '- -' : '···'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <input
+        key={drawing.id}
+        defaultValue={drawing.label ?? ''}
+        placeholder={drawing.type === 'text' ? 'Note text' : 'Label'}
+        onBlur={(e) => {
+          const label = e.target.value.trim();
+          if (label !== (drawing.label ?? '')) onChange({ label: label || undefined });
+        }}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+      />
+
+      {drawing.type === 'fib' && (
+        <div className="space-y-1.5 border-t border-slate-800 pt-2">
+          <label className="block space-y-0.5">
+            <span className="text-[9px] text-slate-500 uppercase">Levels</span>
+            <input
+              key={`${drawing.id}-levels`}
+              defaultValue={(drawing.fibLevels ?? DEFAULT_FIB_LEVELS).join(', ')}
+              onBlur={(e) => {
+                const levels: number[] = e.target.value.split(',').map(v => parseFloat(v)).filter(Number.isFinite);
+                if (levels.length > 0) onChange({ fibLevels: Array.from(new Set(levels)).sort((a, b) => a - b) });
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              className="w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+            />
+          </label>
+          <button
+            onClick={() => onChange({ showOte: drawing.showOte === false })}
+            className={`w-full py-1 rounded-md text-[10px] font-bold uppercase border transition-colors ${drawing.showOte !== false ? 'bg-blue-600 border-blue-400 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+          >
+            OTE 62–79% {drawing.showOte !== false ? 'On' : 'Off'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawingStyleEditor;
@@ -0,0 +1,262 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Candle, Config, OptimizableParameter, OptimizerResult, OptimizerSettings, ParameterRange } from '../types';
+import { DEFAULT_OPTIMIZER_SETTINGS, OPTIMIZABLE_PARAMETERS, OPTIMIZER_METRICS, countCombinations, requiredBars, startOptimization, validateOptimizer } from '../services/optimizer';
+
+interface OptimizerPanelProps {
+  data: Candle[];
+  config: Config;
+  symbol: string;
+  onApply: (params: Pick<Config, OptimizableParameter>) => void;
+  // Pages older bars in until the series holds `bars`, resolving with what it ends up holding
+  onLoadHistory: (bars: number) => Promise<Candle[]>;
+}
+
+const MAX_RESULT_ROWS = 10;
+
+const OptimizerPanel: React.FC<OptimizerPanelProps> = ({ data, config, symbol, onApply, onLoadHistory }) => {
+  const [settings, setSettings] = useState<OptimizerSettings>(DEFAULT_OPTIMIZER_SETTINGS);
+  const [result, setResult] = useState<OptimizerResult | null>(null);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // Results belong to the series they were run on
+  useEffect(() => {
+    setResult(null);
+  }, [symbol]);
+
+  // Never leave a worker running behind an unmounted panel
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const invalid = validateOptimizer(settings);
+  const needed = requiredBars(settings);
+  const combinations = countCombinations(settings);
+  const runCount = settings.method === 'grid' ? combinations : Math.min(settings.samples, combinations);
+
+  const updateRange = (key: OptimizableParameter, patch: Partial<ParameterRange>) =>
+    setSettings(prev => ({ ...prev, ranges: prev.ranges.map(r => r.key === key ? { ...r, ...patch } : r) }));
+
+  const handleRun = async () => {
+    if (invalid) return;
+    setError(null);
+    let candles = data;
+    if (candles.length < needed) {
+      setLoadingHistory(true);
+      candles = await onLoadHistory(needed);
+      setLoadingHistory(false);
+      if (candles.length < needed) {
+        setError(`Only ${candles.length} bars of history available; ${settings.folds} folds need ${needed}. Use fewer folds or a larger train share.`);
+        return;
+      }
+    }
+    setProgress({ done: 0, total: 0 });
+    const job = startOptimization({ candles, config, settings }, (done, total) => setProgress({ done, total }));
+    cancelRef.current = job.cancel;
+    job.result
+      .then(setResult)
+      .catch((e: Error) => setError(e.message))
+      .finally(() => {
+        cancelRef.current = null;
+        setProgress(null);
+      });
+  };
+
+  const handleCancel = () => {
+    cancelRef.current?.();
+    cancelRef.current = null;
+    setProgress(null);
+  };
+
+  const formatMetric = (value: number) => value.toFixed(2);
+  const describe = (params: Pick<Config, OptimizableParameter>) => settings.ranges
+    .filter(r => r.enabled)
+    .map(r => `${OPTIMIZABLE_PARAMETERS.find(p => p.key === r.key)?.label} ${params[r.key]}`)
+    .join(' · ');
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-[10px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+  const toggleClass = (active: boolean) => `px-2 py-0.5 font-bold ${active ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Optimiser</h2>
+        <button
+          onClick={progress ? handleCancel : handleRun}
+          disabled={loadingHistory || (!progress && (!!invalid || data.length === 0))}
+          className="px-2 py-0.5 rounded bg-slate-800 border border-slate-700 text-[9px] font-bold text-slate-300 uppercase tracking-tighter hover:bg-slate-700 disabled:opacity-50 transition-colors"
+        >
+          {loadingHistory ? 'Loading…' : progress ? 'Cancel' : `Run ${runCount} configs`}
+        </button>
+      </div>
+
+      <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-3">
+        <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+          <span>Search</span>
+          <div className="flex items-center gap-2">
+            {settings.method === 'random' && (
+              <input
+                type="number" min="1" max="500" step="1"
+                value={settings.samples}
+                onChange={(e) => {
+                  const samples = parseInt(e.target.value);
+                  if (samples >= 1 && samples <= 500) setSettings(prev => ({ ...prev, samples }));
+                }}
+                className="w-14 bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-[10px] font-mono text-slate-200"
+              />
+            )}
+            <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+              {(['grid', 'random'] as const).map(method => (
+                <button key={method} onClick={() => setSettings(prev => ({ ...prev, method }))} className={toggleClass(settings.method === method)}>
+                  {method}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+          <span>Metric</span>
+          <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+            {OPTIMIZER_METRICS.map(({ metric, label }) => (
+              <button key={metric} onClick={() => setSettings(prev => ({ ...prev, metric }))} className={toggleClass(settings.metric === metric)}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+              <span>Folds</span>
+              <span className="text-blue-400 font-mono">{settings.folds}</span>
+            </div>
+            <input
+              type="range" min="1" max="5" step="1"
+              value={settings.folds}
+              onChange={(e) => setSettings(prev => ({ ...prev, folds: parseInt(e.target.value) }))}
+              className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+          <div>
+            <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+              <span>Train</span>
+              <span className="text-blue-400 font-mono">{Math.round(settings.trainRatio * 100)}%</span>
+            </div>
+            <input
+              type="range" min="0.5" max="0.9" step="0.05"
+              value={settings.trainRatio}
+              onChange={(e) => setSettings(prev => ({ ...prev, trainRatio: parseFloat(e.target.value) }))}
+              className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-[auto_1fr_3rem_3rem_3rem] gap-1.5 text-[9px] text-slate-500 uppercase">
+            <span></span>
+            <span>Parameter</span>
+            <span>Min</span>
+            <span>Max</span>
+            <span>Step</span>
+          </div>
+          {settings.ranges.map(range => (
+            <div key={range.key} className={`grid grid-cols-[auto_1fr_3rem_3rem_3rem] gap-1.5 items-center ${range.enabled ? '' : 'opacity-40'}`}>
+              <input
+                type="checkbox"
+                checked={range.enabled}
+                onChange={(e) => updateRange(range.key, { enabled: e.target.checked })}
+                className="accent-blue-500"
+              />
+              <span className="text-[10px] font-bold text-slate-300 truncate">{OPTIMIZABLE_PARAMETERS.find(p => p.key === range.key)?.label}</span>
+              {(['min', 'max', 'step'] as const).map(field => (
+                <input
+                  key={field}
+                  type="number"
+                  value={range[field]}
+                  disabled={!range.enabled}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (Number.isFinite(value)) updateRange(range.key, { [field]: value });
+                  }}
+                  className={inputClass}
+                />
+              ))}
+            </div>
+          ))}
+        </div>
+
+        <div className="text-[9px] text-slate-500">
+          {combinations} combinations · {settings.folds} walk-forward fold{settings.folds > 1 ? 's' : ''} on {Math.max(data.length, needed)} bars
+          {data.length < needed && data.length > 0 && ` (pages in ${needed - data.length} older)`}
+        </div>
+        {invalid && <div className="text-[9px] text-rose-400">{invalid}</div>}
+        {error && <div className="text-[9px] text-rose-400">{error}</div>}
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="h-1 bg-slate-800 rounded-full overflow-hidden">
+              <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.total > 0 ? (progress.done / progress.total) * 100 : 0}%` }}></div>
+            </div>
+            <div className="text-[9px] text-slate-500 font-mono">{progress.done}/{progress.total} backtests</div>
+          </div>
+        )}
+
+        {result && (result.runs.length > 0 ? (
+          <div className="space-y-2">
+            <div className="grid grid-cols-4 gap-1.5 text-center">
+              {[
+                { label: 'IS', title: "In-sample: each fold's pick on its training slice, averaged", value: formatMetric(result.inSample), tone: 'text-slate-200' },
+                { label: 'OOS', title: "Out-of-sample: the picks' test-slice trades stitched together", value: formatMetric(result.outOfSample), tone: result.outOfSample > 0 ? 'text-emerald-400' : 'text-rose-400' },
+                { label: 'WFE', title: 'Walk-forward efficiency: OOS / IS', value: result.efficiency === null ? '—' : `${Math.round(result.efficiency * 100)}%`, tone: result.efficiency !== null && result.efficiency >= 0.5 ? 'text-emerald-400' : 'text-amber-400' },
+                { label: 'OOS R', title: `${result.testTrades} test trades · ${result.profitableFolds}/${result.folds.length} folds profitable`, value: result.netR.toFixed(1), tone: result.netR > 0 ? 'text-emerald-400' : 'text-rose-400' },
+              ].map(({ label, title, value, tone }) => (
+                <div key={label} title={title} className="bg-slate-900/50 rounded border border-slate-800 py-1">
+                  <div className="text-[8px] text-slate-500 uppercase">{label}</div>
+                  <div className={`text-[10px] font-mono font-bold ${tone}`}>{value}</div>
+                </div>
+              ))}
+            </div>
+            <div className="space-y-1">
+              {result.folds.map((fold, i) => (
+                <div key={i} className="flex justify-between gap-2 text-[9px] font-mono text-slate-400">
+                  <span className="truncate" title={describe(fold.params)}>Fold {i + 1}: {describe(fold.params)}</span>
+                  <span className={fold.outOfSample > 0 ? 'text-emerald-400' : 'text-rose-400'}>{formatMetric(fold.inSample)} → {formatMetric(fold.outOfSample)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-[1rem_1fr_2.5rem_2rem_auto] gap-1.5 text-[9px] text-slate-500 uppercase">
+              <span>#</span>
+              <span>Params</span>
+              <span title="Score on the most recent training window">Score</span>
+              <span title="Walk-forward folds that picked these parameters">Picks</span>
+              <span></span>
+            </div>
+            <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+              {result.runs.slice(0, MAX_RESULT_ROWS).map((run, i) => (
+                <div key={i} className="grid grid-cols-[1rem_1fr_2.5rem_2rem_auto] gap-1.5 items-center text-[9px] font-mono bg-slate-900/50 px-2 py-1 rounded border border-slate-800">
+                  <span className="text-slate-500">{i + 1}</span>
+                  <span className="text-slate-300 truncate" title={`${describe(run.params)} · ${run.trades} trades`}>
+                    {describe(run.params)}
+                  </span>
+                  <span className="text-slate-200">{formatMetric(run.score)}</span>
+                  <span className="text-slate-400">{run.picks}</span>
+                  <button onClick={() => onApply(run.params)} title="Apply to config" className="text-slate-500 hover:text-blue-400">
+                    <i className="fa-solid fa-arrow-right-to-bracket"></i>
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="text-[9px] text-slate-500">OOS is what re-fitting on each training window earned on the bars after it. Candidates are ranked on the latest window; a WFE under 50% suggests the fit does not carry forward.</div>
+          </div>
+        ) : (
+          <div className="text-[10px] text-slate-500 text-center italic">No configurations to compare.</div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default OptimizerPanel;
@@ -0,0 +1,38 @@
+
+import React from 'react';
+import { PDArrayKind } from '../types';
+import { factorLabel } from '../services/scoring';
+
+interface PDArrayPanelProps {
+  hidden: PDArrayKind[];
+  onHiddenChange: (hidden: PDArrayKind[]) => void;
+}
+
+const PD_ARRAY_KINDS: PDArrayKind[] = ['breaker', 'mitigation', 'ifvg', 'bpr', 'vi'];
+
+// Chart visibility only; how the arrays score lives in the scoring model
+const PDArrayPanel: React.FC<PDArrayPanelProps> = ({ hidden, onHiddenChange }) => {
+  const toggleHidden = (kind: PDArrayKind) =>
+    onHiddenChange(hidden.includes(kind) ? hidden.filter(k => k !== kind) : [...hidden, kind]);
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">PD Arrays</h2>
+      <div className="space-y-2 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        {PD_ARRAY_KINDS.map(kind => (
+          <label key={kind} className="flex justify-between items-center text-[10px] text-slate-400 uppercase cursor-pointer">
+            <span>Show {factorLabel(kind)}</span>
+            <input
+              type="checkbox"
+              checked={!hidden.includes(kind)}
+              onChange={() => toggleHidden(kind)}
+              className="accent-blue-500"
+            />
+          </label>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+export default PDArrayPanel;
@@ -0,0 +1,254 @@
+
+import React, { useState } from 'react';
+import { Candle, AnalysisResult, PaperAccount, OrderSide, OrderType } from '../types';
+import {
+  placeOrder, cancelOrder, closePosition, moveToBreakEven, updatePosition,
+  positionPnl, accountEquity, createPaperAccount
+} from '../services/paperBroker';
+
+interface PaperTradingPanelProps {
+  account: PaperAccount;
+  analysis: AnalysisResult | null;
+  lastCandle?: Candle;
+  symbol: string;
+  suggestedQuantity?: number;
+  onAccountChange: (update: (account: PaperAccount) => PaperAccount) => void;
+}
+
+const fmt = (n: number) => n.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+const fmtTime = (t: number) => new Date(t).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const PaperTradingPanel: React.FC<PaperTradingPanelProps> = ({ account, analysis, lastCandle, symbol, suggestedQuantity, onAccountChange }) => {
+  const [side, setSide] = useState<OrderSide>('BUY');
+  const [type, setType] = useState<OrderType>('limit');
+  const [price, setPrice] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [slPrice, setSlPrice] = useState('');
+  const [tpPrice, setTpPrice] = useState('');
+  const [autoBreakEven, setAutoBreakEven] = useState(true);
+  const [tab, setTab] = useState<'book' | 'journal'>('book');
+
+  const lastPrice = lastCandle?.close;
+  const equity = lastPrice !== undefined ? accountEquity(account, { [symbol]: lastPrice }) : account.balance;
+  const hasPlan = !!analysis && analysis.signal !== 'NEUTRAL' && analysis.entryPrice !== undefined && analysis.slPrice !== undefined;
+
+  const loadPlan = () => {
+    if (!hasPlan || !analysis) return;
+    setSide(analysis.signal === 'SELL' ? 'SELL' : 'BUY');
+    setType('limit');
+    setPrice(analysis.entryPrice!.toFixed(2));
+    setSlPrice(analysis.slPrice!.toFixed(2));
+    setTpPrice(analysis.tpPrice?.toFixed(2) ?? '');
+    if (suggestedQuantity) setQuantity(String(Number(suggestedQuantity.toFixed(6))));
+  };
+
+  const submitOrder = () => {
+    if (!lastCandle) return;
+    const qty = parseFloat(quantity);
+    const sl = parseFloat(slPrice);
+    const entry = type === 'market' ? lastCandle.close : parseFloat(price);
+    const tp = tpPrice ? parseFloat(tpPrice) : undefined;
+
+    if (!(qty > 0) || !Number.isFinite(sl) || !Number.isFinite(entry)) {
+      window.alert('Quantity, stop loss and (for pending orders) price are required.');
+      return;
+    }
+    if (side === 'BUY' ? sl >= entry : sl <= entry) {
+      window.alert('Stop loss must be on the risk side of the entry.');
+      return;
+    }
+
+    onAccountChange(acc => placeOrder(acc, {
+      symbol,
+      side,
+      type,
+      price: type === 'market' ? undefined : entry,
+      quantity: qty,
+      slPrice: sl,
+      tpPrice: tp,
+      breakEvenAtR: autoBreakEven ? 1 : undefined
+    }, lastCandle));
+  };
+
+  const resetAccount = () => {
+    if (window.confirm('Reset paper account? Open positions, orders and the journal will be erased.')) {
+      onAccountChange(acc => createPaperAccount(acc.startingBalance));
+    }
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Paper Trading</h2>
+        <button onClick={resetAccount} className="text-slate-500 hover:text-rose-400 transition-colors text-[10px]" title="Reset account">
+          <i className="fa-solid fa-arrow-rotate-left"></i>
+        </button>
+      </div>
+
+      <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-0.5">
+            <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">Balance</span>
+            <div className="text-sm font-mono text-slate-200">${fmt(account.balance)}</div>
+          </div>
+          <div className="space-y-0.5">
+            <span className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">Equity</span>
+            <div className={`text-sm font-mono ${equity >= account.balance ? 'text-emerald-400' : 'text-rose-400'}`}>${fmt(equity)}</div>
+          </div>
+        </div>
+
+        {/* Order Ticket */}
+        <div className="space-y-2 border-t border-slate-800 pt-2">
+          <div className="flex gap-2">
+            {(['BUY', 'SELL'] as const).map(s => (
+              <button
+                key={s}
+                onClick={() => setSide(s)}
+                className={`flex-1 py-1 rounded-md text-[10px] font-black uppercase border transition-colors ${
+                  side === s
+                  ? s === 'BUY' ? 'bg-emerald-500 border-emerald-400 text-white' : 'bg-rose-500 border-rose-400 text-white'
+                  : 'bg-slate-800 border-slate-700 text-slate-400 hover:bg-slate-700'
+                }`}
+              >
+                {s}
+              </button>
+            ))}
+          </div>
+          <div className="flex bg-slate-800 rounded-md border border-slate-700 overflow-hidden">
+            {(['market', 'limit', 'stop'] as const).map(t => (
+              <button
+                key={t}
+                onClick={() => setType(t)}
+                className={`flex-1 text-[10px] py-1 font-bold uppercase ${type === t ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {t}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <input className={inputClass} placeholder={type === 'market' ? 'Market' : 'Price'} disabled={type === 'market'} value={type === 'market' ? '' : price} onChange={(e) => setPrice(e.target.value)} />
+            <input className={inputClass} placeholder="Qty" value={quantity} onChange={(e) => setQuantity(e.target.value)} />
+            <input className={`${inputClass} text-rose-300`} placeholder="Stop Loss" value={slPrice} onChange={(e) => setSlPrice(e.target.value)} />
+            <input className={`${inputClass} text-emerald-300`} placeholder="Take Profit" value={tpPrice} onChange={(e) => setTpPrice(e.target.value)} />
+          </div>
+          <label className="flex items-center justify-between text-[10px] text-slate-400 uppercase cursor-pointer">
+            <span>Auto break-even at 1R</span>
+            <input type="checkbox" checked={autoBreakEven} onChange={(e) => setAutoBreakEven(e.target.checked)} className="accent-blue-500" />
+          </label>
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={loadPlan}
+              disabled={!hasPlan}
+              className="py-1.5 rounded-md text-[10px] font-bold uppercase bg-indigo-600/20 border border-indigo-500/40 text-indigo-300 hover:bg-indigo-600/40 disabled:opacity-40 transition-colors"
+            >
+              Load Plan
+            </button>
+            <button
+              onClick={submitOrder}
+              disabled={!lastCandle}
+              className="py-1.5 rounded-md text-[10px] font-bold uppercase bg-blue-600 text-white hover:bg-blue-500 disabled:opacity-40 transition-colors"
+            >
+              Place Order
+            </button>
+          </div>
+        </div>
+
+        <div className="flex gap-3 border-t border-slate-800 pt-2 text-[10px] font-bold uppercase">
+          <button onClick={() => setTab('book')} className={tab === 'book' ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}>
+            Positions ({account.positions.length + account.orders.length})
+          </button>
+          <button onClick={() => setTab('journal')} className={tab === 'journal' ? 'text-blue-400' : 'text-slate-500 hover:text-slate-300'}>
+            Journal ({account.journal.length})
+          </button>
+        </div>
+
+        {tab === 'book' ? (
+          <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+            {account.positions.map(p => {
+              const pnl = p.symbol === symbol && lastPrice !== undefined ? positionPnl(p, lastPrice) : undefined;
+              return (
+                <div key={p.id} className="bg-slate-900/50 px-2 py-1.5 rounded border border-slate-800 text-[9px] font-mono space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className={p.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>{p.side} {p.quantity} {p.symbol}</span>
+                    <span className={pnl === undefined ? 'text-slate-500' : pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                      {pnl === undefined ? '—' : `${pnl >= 0 ? '+' : ''}${fmt(pnl)}`}
+                    </span>
+                  </div>
+                  <div className="flex justify-between items-center text-slate-500">
+                    <span>@ {fmt(p.entryPrice)}</span>
+                    <input
+                      className="w-16 bg-transparent border-b border-slate-700 text-rose-300 text-right focus:outline-none"
+                      defaultValue={p.slPrice.toFixed(2)}
+                      key={`sl-${p.slPrice}`}
+                      onBlur={(e) => {
+                        const v = parseFloat(e.target.value);
+                        if (Number.isFinite(v)) onAccountChange(acc => updatePosition(acc, p.id, { slPrice: v }));
+                      }}
+                    />
+                    <input
+                      className="w-16 bg-transparent border-b border-slate-700 text-emerald-300 text-right focus:outline-none"
+                      defaultValue={p.tpPrice?.toFixed(2) ?? ''}
+                      key={`tp-${p.tpPrice}`}
+                      placeholder="TP"
+                      onBlur={(e) => {
+                        const v = parseFloat(e.target.value);
+                        onAccountChange(acc => updatePosition(acc, p.id, { tpPrice: Number.isFinite(v) ? v : undefined }));
+                      }}
+                    />
+                  </div>
+                  <div className="flex justify-end gap-3">
+                    <button
+                      onClick={() => onAccountChange(acc => moveToBreakEven(acc, p.id))}
+                      disabled={p.slPrice === p.entryPrice}
+                      className="text-slate-400 hover:text-white disabled:opacity-40 uppercase font-bold"
+                    >
+                      BE
+                    </button>
+                    <button
+                      onClick={() => lastPrice !== undefined && lastCandle && onAccountChange(acc => closePosition(acc, p.id, lastPrice, lastCandle.time))}
+                      disabled={p.symbol !== symbol || lastPrice === undefined}
+                      className="text-rose-400 hover:text-rose-300 disabled:opacity-40 uppercase font-bold"
+                    >
+                      Close
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+            {account.orders.map(o => (
+              <div key={o.id} className="flex justify-between items-center bg-slate-900/50 px-2 py-1.5 rounded border border-dashed border-slate-700 text-[9px] font-mono">
+                <span className={o.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>{o.side} {o.type.toUpperCase()} {o.quantity}</span>
+                <span className="text-slate-400">@ {fmt(o.price!)}</span>
+                <button onClick={() => onAccountChange(acc => cancelOrder(acc, o.id))} className="text-slate-500 hover:text-rose-400">
+                  <i className="fa-solid fa-xmark"></i>
+                </button>
+              </div>
+            ))}
+            {account.positions.length === 0 && account.orders.length === 0 && (
+              <div className="text-[10px] text-slate-500 text-center italic">No open positions or orders.</div>
+            )}
+          </div>
+        ) : (
+          <div className="max-h-40 overflow-y-auto custom-scrollbar space-y-1">
+            {account.journal.map(t => (
+              <div key={t.id} className="flex justify-between items-center bg-slate-900/50 px-2 py-1 rounded border border-slate-800 text-[9px] font-mono">
+                <span className={t.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}>{t.side}</span>
+                <span className="text-slate-500">{fmtTime(t.closedAt)} · {t.reason.toUpperCase()}</span>
+                <span className={t.pnl >= 0 ? 'text-emerald-400' : 'text-rose-400'}>
+                  {t.rMultiple >= 0 ? '+' : ''}{t.rMultiple.toFixed(2)}R / {fmt(t.pnl)}
+                </span>
+              </div>
+            ))}
+            {account.journal.length === 0 && (
+              <div className="text-[10px] text-slate-500 text-center italic">No closed trades yet.</div>
+            )}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PaperTradingPanel;
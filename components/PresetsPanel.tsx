@@ -0,0 +1,74 @@
+
+import React, { useState } from 'react';
+import { ConfigPreset } from '../types';
+
+interface PresetsPanelProps {
+  symbol: string;
+  // Already narrowed to the current symbol
+  presets: ConfigPreset[];
+  activeId?: string;
+  onSave: (name: string) => void;
+  onApply: (preset: ConfigPreset) => void;
+  onDelete: (id: string) => void;
+}
+
+const PresetsPanel: React.FC<PresetsPanelProps> = ({ symbol, presets, activeId, onSave, onApply, onDelete }) => {
+  const [name, setName] = useState('');
+  const trimmed = name.trim();
+  const overwrites = presets.some(p => p.name.toLowerCase() === trimmed.toLowerCase());
+
+  const save = () => {
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Presets</h2>
+        <span className="text-[9px] font-bold text-slate-500 uppercase">{symbol}</span>
+      </div>
+      <div className="space-y-3 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={name}
+            maxLength={32}
+            placeholder="Preset name"
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+          />
+          <button
+            onClick={save}
+            disabled={!trimmed}
+            className="px-2 py-1 rounded-md bg-blue-600 hover:bg-blue-500 disabled:opacity-40 disabled:hover:bg-blue-600 text-[10px] font-bold uppercase text-white"
+          >
+            {overwrites ? 'Update' : 'Save'}
+          </button>
+        </div>
+
+        {presets.length === 0 ? (
+          <div className="text-[9px] text-slate-500">No presets saved for {symbol}. The current parameters stay in use until you save one.</div>
+        ) : (
+          <div className="space-y-1">
+            {presets.map(p => (
+              <div key={p.id} className={`flex items-center gap-2 px-2 py-1 rounded-md border ${p.id === activeId ? 'border-blue-500/40 bg-blue-500/10' : 'border-transparent hover:bg-slate-800/50'}`}>
+                <button onClick={() => onApply(p)} className="flex-1 text-left text-[10px] font-bold text-slate-300 truncate">
+                  {p.id === activeId && <i className="fa-solid fa-check text-blue-400 mr-1.5"></i>}
+                  {p.name}
+                </button>
+                <button onClick={() => onDelete(p.id)} title="Delete preset" className="text-[10px] text-slate-600 hover:text-rose-400">
+                  <i className="fa-solid fa-trash"></i>
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default PresetsPanel;
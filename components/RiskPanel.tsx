@@ -0,0 +1,99 @@
+
+import React from 'react';
+import { RiskSettings, ContractSpec } from '../types';
+import { getContractSpec } from '../services/riskManagement';
+
+interface RiskPanelProps {
+  settings: RiskSettings;
+  symbol: string;
+  equity: number;
+  onChange: (settings: RiskSettings) => void;
+}
+
+const SPEC_FIELDS: { key: keyof ContractSpec; label: string }[] = [
+  { key: 'contractSize', label: 'Contract Size' },
+  { key: 'tickSize', label: 'Tick Size' },
+  { key: 'tickValue', label: 'Tick Value $' },
+  { key: 'minLot', label: 'Min Lot' },
+  { key: 'lotStep', label: 'Lot Step' },
+  { key: 'marginRate', label: 'Margin Rate' },
+];
+
+const RiskPanel: React.FC<RiskPanelProps> = ({ settings, symbol, equity, onChange }) => {
+  const spec = getContractSpec(settings, symbol);
+
+  const updateSpec = (key: keyof ContractSpec, raw: string) => {
+    const val = parseFloat(raw);
+    if (!(val > 0)) return;
+    onChange({ ...settings, contracts: { ...settings.contracts, [symbol]: { ...spec, [key]: val } } });
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+
+  return (
+    <section className="space-y-4">
+      <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Risk Management</h2>
+      <div className="space-y-3 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+          <span>Equity</span>
+          <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+            {(['paper', 'manual'] as const).map(source => (
+              <button
+                key={source}
+                onClick={() => onChange({ ...settings, equitySource: source })}
+                className={`px-2 py-0.5 font-bold ${settings.equitySource === source ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {source}
+              </button>
+            ))}
+          </div>
+        </div>
+        {settings.equitySource === 'manual' ? (
+          <input
+            className={inputClass}
+            defaultValue={settings.manualEquity}
+            key={settings.manualEquity}
+            onBlur={(e) => {
+              const val = parseFloat(e.target.value);
+              if (val > 0) onChange({ ...settings, manualEquity: val });
+            }}
+          />
+        ) : (
+          <div className="text-sm font-mono text-slate-200">${equity.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</div>
+        )}
+
+        <div>
+          <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+            <span>Risk per Trade</span>
+            <span className="text-blue-400 font-mono">{settings.riskPercent.toFixed(2)}%</span>
+          </div>
+          <input
+            type="range" min="0.25" max="5" step="0.25"
+            value={settings.riskPercent}
+            onChange={(e) => onChange({ ...settings, riskPercent: parseFloat(e.target.value) })}
+            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+
+        <div className="border-t border-slate-800 pt-2 space-y-1.5">
+          <div className="text-[9px] text-slate-500 uppercase font-bold tracking-tighter">{symbol} Contract</div>
+          <div className="grid grid-cols-2 gap-2">
+            {SPEC_FIELDS.map(({ key, label }) => (
+              <label key={key} className="space-y-0.5">
+                <span className="text-[9px] text-slate-500 uppercase">{label}</span>
+                <input
+                  className={inputClass}
+                  defaultValue={spec[key]}
+                  key={`${symbol}-${key}-${spec[key]}`}
+                  onBlur={(e) => updateSpec(key, e.target.value)}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default RiskPanel;
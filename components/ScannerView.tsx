@@ -0,0 +1,278 @@
+
+import React, { useState, useEffect, useRef } from 'react';
+import { AnalysisResult, Candle, Config, MarketSymbol, ScanRow, Watchlist } from '../types';
+import { MarketDataProvider, mergeCandle } from '../services/marketData';
+import { LiveAnalysis, createLiveAnalysis } from '../services/liveAnalysis';
+import { buildScanRow } from '../services/scanner';
+import { EXECUTION_INTERVALS, HIGHER_INTERVALS, computeHTFBias, intervalToMs } from '../services/multiTimeframe';
+
+interface ScannerViewProps {
+  provider: MarketDataProvider;
+  availableSymbols: MarketSymbol[];
+  watchlist: Watchlist;
+  // The chart's higher timeframes; each row takes its bias from those above its own interval
+  htfIntervals: string[];
+  config: Config;
+  onWatchlistChange: (watchlist: Watchlist) => void;
+  onSelect: (symbol: string, interval: string) => void;
+}
+
+type SortKey = 'symbol' | 'bullScore' | 'bearScore' | 'signal' | 'distance' | 'rrRatio';
+
+const SCAN_INTERVALS = Array.from(new Set([...EXECUTION_INTERVALS, ...HIGHER_INTERVALS]));
+
+const rowKey = (symbol: string, interval: string) => `${symbol}@${interval}`;
+
+// Higher timeframes that sit above at least one watched interval
+const biasIntervals = (watchlist: Watchlist, htfIntervals: string[]) => {
+  const fastest = Math.min(...watchlist.intervals.map(intervalToMs));
+  return htfIntervals.filter(interval => intervalToMs(interval) > fastest);
+};
+
+// Undefined when the row has no value for the column
+const sortValue = (row: ScanRow, key: SortKey): number | string | undefined => {
+  switch (key) {
+    case 'symbol': return row.symbol;
+    case 'signal': return row.signal === 'NEUTRAL' ? 1 : 0;
+    case 'distance': return row.nearestZone?.distancePercent;
+    case 'rrRatio': return row.rrRatio;
+    default: return row[key];
+  }
+};
+
+// Rows without a value sort last in either direction
+const compareRows = (a: ScanRow, b: ScanRow, key: SortKey, desc: boolean) => {
+  const va = sortValue(a, key);
+  const vb = sortValue(b, key);
+  if (va === undefined || vb === undefined) return va === vb ? 0 : va === undefined ? 1 : -1;
+  const cmp = typeof va === 'string' ? va.localeCompare(vb as string) : (va as number) - (vb as number);
+  return desc ? -cmp : cmp;
+};
+
+const ScannerView: React.FC<ScannerViewProps> = ({ provider, availableSymbols, watchlist, htfIntervals, config, onWatchlistChange, onSelect }) => {
+  const [rows, setRows] = useState<Record<string, ScanRow>>({});
+  const [sortKey, setSortKey] = useState<SortKey>('bullScore');
+  const [sortDesc, setSortDesc] = useState(true);
+  const [newSymbol, setNewSymbol] = useState('');
+  const seriesRef = useRef<Record<string, Candle[]>>({});
+  // Latest analysis of each higher timeframe series, by row key
+  const htfRef = useRef<Record<string, AnalysisResult>>({});
+  const analysisRef = useRef<LiveAnalysis | null>(null);
+  const htfAnalysisRef = useRef<LiveAnalysis | null>(null);
+
+  const configRef = useRef(config);
+
+  // A row's HTF bias, built as the chart builds it from the higher timeframes above the row
+  const rowBias = (symbol: string, interval: string) => {
+    const timeframes = htfIntervals
+      .filter(htf => intervalToMs(htf) > intervalToMs(interval) && htfRef.current[rowKey(symbol, htf)])
+      .map(htf => ({ interval: htf, candles: seriesRef.current[rowKey(symbol, htf)], analysis: htfRef.current[rowKey(symbol, htf)] }));
+    return timeframes.length > 0 ? computeHTFBias(timeframes) : undefined;
+  };
+
+  // Rows are scored off the main thread; in close mode the forming bar is left
+  // out, as on the chart
+  const refresh = (symbol: string, interval: string) => {
+    const series = seriesRef.current[rowKey(symbol, interval)];
+    if (!series || series.length === 0) return;
+    analysisRef.current?.analyze({ symbol, interval }, series, configRef.current, rowBias(symbol, interval));
+  };
+
+  // HTF bias reads the forming bar, whatever the signal mode
+  const refreshHtf = (symbol: string, interval: string) => {
+    const series = seriesRef.current[rowKey(symbol, interval)];
+    if (!series || series.length === 0) return;
+    htfAnalysisRef.current?.analyze({ symbol, interval }, series, { ...configRef.current, signalMode: 'intrabar' });
+  };
+
+  // Every watched symbol/interval pair, and every higher timeframe a row takes
+  // its bias from, gets its own history load and live stream; an update
+  // re-analyses only the series it belongs to and the rows it biases
+  useEffect(() => {
+    let isMounted = true;
+    seriesRef.current = {};
+    htfRef.current = {};
+    setRows({});
+    const live = createLiveAnalysis(({ symbol, interval }, update) => {
+      const key = rowKey(symbol, interval);
+      const series = seriesRef.current[key];
+      if (!isMounted || !series) return;
+      setRows(prev => ({ ...prev, [key]: buildScanRow(symbol, interval, series, update.result) }));
+    }, (message) => console.error('Scanner analysis failed', message));
+    const htfLive = createLiveAnalysis(({ symbol, interval }, update) => {
+      if (!isMounted) return;
+      htfRef.current[rowKey(symbol, interval)] = update.result;
+      watchlist.intervals.filter(i => intervalToMs(i) < intervalToMs(interval)).forEach(i => refresh(symbol, i));
+    }, (message) => console.error('Scanner HTF analysis failed', message));
+    analysisRef.current = live;
+    htfAnalysisRef.current = htfLive;
+
+    const htfs = biasIntervals(watchlist, htfIntervals);
+    const intervals = Array.from(new Set([...watchlist.intervals, ...htfs]));
+    const update = (symbol: string, interval: string) => {
+      if (watchlist.intervals.includes(interval)) refresh(symbol, interval);
+      if (htfs.includes(interval)) refreshHtf(symbol, interval);
+    };
+
+    const unsubscribers = watchlist.symbols.flatMap(symbol => intervals.map(interval => {
+      const key = rowKey(symbol, interval);
+      provider.fetchKlines(symbol, interval, 150).then(historical => {
+        if (!isMounted || historical.length === 0) return;
+        seriesRef.current[key] = historical;
+        update(symbol, interval);
+      });
+
+      return provider.subscribeKlines(symbol, interval, (candle) => {
+        if (!isMounted || !seriesRef.current[key]) return;
+        seriesRef.current[key] = mergeCandle(seriesRef.current[key], candle);
+        update(symbol, interval);
+      });
+    }));
+
+    return () => {
+      isMounted = false;
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      live.dispose();
+      htfLive.dispose();
+    };
+  }, [provider, watchlist, htfIntervals]);
+
+  // Parameter changes rescore the cached series without refetching
+  useEffect(() => {
+    configRef.current = config;
+    const htfs = biasIntervals(watchlist, htfIntervals);
+    watchlist.symbols.forEach(symbol => {
+      htfs.forEach(interval => refreshHtf(symbol, interval));
+      watchlist.intervals.forEach(interval => refresh(symbol, interval));
+    });
+  }, [config]);
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setSortDesc(!sortDesc);
+    else {
+      setSortKey(key);
+      setSortDesc(key !== 'symbol' && key !== 'distance' && key !== 'signal');
+    }
+  };
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || watchlist.symbols.includes(symbol)) return;
+    onWatchlistChange({ ...watchlist, symbols: [...watchlist.symbols, symbol] });
+    setNewSymbol('');
+  };
+
+  const toggleInterval = (interval: string) => {
+    const intervals = watchlist.intervals.includes(interval)
+      ? watchlist.intervals.filter(i => i !== interval)
+      : [...watchlist.intervals, interval];
+    if (intervals.length > 0) onWatchlistChange({ ...watchlist, intervals });
+  };
+
+  const sorted = (Object.values(rows) as ScanRow[]).sort((a, b) => compareRows(a, b, sortKey, sortDesc));
+
+  const header = (key: SortKey, label: string) => (
+    <th onClick={() => toggleSort(key)} className="px-3 py-2 text-left cursor-pointer select-none hover:text-slate-300">
+      {label} {sortKey === key && <i className={`fa-solid ${sortDesc ? 'fa-caret-down' : 'fa-caret-up'}`}></i>}
+    </th>
+  );
+
+  return (
+    <div className="absolute inset-0 flex flex-col bg-[#0B0F19] z-30">
+      <div className="flex flex-wrap items-center gap-3 px-6 py-3 border-b border-slate-800">
+        <div className="flex items-center gap-2">
+          <input
+            list="scanner-symbols"
+            value={newSymbol}
+            onChange={(e) => setNewSymbol(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addSymbol()}
+            placeholder="Add symbol"
+            className="bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] font-mono text-slate-200 w-32 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+          />
+          <datalist id="scanner-symbols">
+            {availableSymbols.map(s => <option key={s.symbol} value={s.symbol}>{s.name}</option>)}
+          </datalist>
+          <button onClick={addSymbol} className="text-[10px] font-bold uppercase px-2 py-1 rounded bg-blue-600 text-white hover:bg-blue-500">
+            <i className="fa-solid fa-plus"></i>
+          </button>
+        </div>
+        <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+          {SCAN_INTERVALS.map(interval => (
+            <button
+              key={interval}
+              onClick={() => toggleInterval(interval)}
+              className={`text-[10px] px-2 py-1 font-mono uppercase font-bold ${watchlist.intervals.includes(interval) ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {interval}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1">
+          {watchlist.symbols.map(symbol => (
+            <span key={symbol} className="flex items-center gap-1 text-[10px] font-mono font-bold bg-slate-800 border border-slate-700 rounded px-2 py-0.5 text-slate-300">
+              {symbol}
+              <button
+                onClick={() => onWatchlistChange({ ...watchlist, symbols: watchlist.symbols.filter(s => s !== symbol) })}
+                className="text-slate-500 hover:text-rose-400"
+              >
+                <i className="fa-solid fa-xmark"></i>
+              </button>
+            </span>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-grow overflow-auto custom-scrollbar">
+        <table className="w-full text-[11px] font-mono">
+          <thead className="sticky top-0 bg-slate-900 text-[9px] uppercase tracking-widest text-slate-500">
+            <tr>
+              {header('symbol', 'Symbol')}
+              <th className="px-3 py-2 text-left">TF</th>
+              <th className="px-3 py-2 text-right">Price</th>
+              {header('bullScore', 'Bull')}
+              {header('bearScore', 'Bear')}
+              {header('signal', 'Signal')}
+              <th className="px-3 py-2 text-left">Confluences</th>
+              {header('distance', 'Nearest Zone')}
+              {header('rrRatio', 'R:R')}
+            </tr>
+          </thead>
+          <tbody>
+            {sorted.map(row => (
+              <tr
+                key={rowKey(row.symbol, row.interval)}
+                onClick={() => onSelect(row.symbol, row.interval)}
+                className="border-b border-slate-800/60 hover:bg-slate-800/40 cursor-pointer"
+              >
+                <td className="px-3 py-2 font-bold text-slate-200">{row.symbol}</td>
+                <td className="px-3 py-2 text-blue-400 uppercase">{row.interval}</td>
+                <td className="px-3 py-2 text-right text-slate-300">{row.price.toLocaleString(undefined, { minimumFractionDigits: 2 })}</td>
+                <td className="px-3 py-2 text-emerald-400">{+row.bullScore.toFixed(2)}</td>
+                <td className="px-3 py-2 text-rose-400">{+row.bearScore.toFixed(2)}</td>
+                <td className="px-3 py-2">
+                  <span className={`px-1.5 py-0.5 rounded text-[9px] font-black ${
+                    row.signal === 'BUY' ? 'bg-emerald-500 text-white' : row.signal === 'SELL' ? 'bg-rose-500 text-white' : 'text-slate-600'
+                  }`}>
+                    {row.signal}
+                  </span>
+                </td>
+                <td className="px-3 py-2 text-slate-400">{row.confluences.join(' · ') || '—'}</td>
+                <td className="px-3 py-2 text-slate-400">
+                  {row.nearestZone ? `${row.nearestZone.label} ${row.nearestZone.distancePercent.toFixed(2)}%` : '—'}
+                </td>
+                <td className="px-3 py-2 text-indigo-400">{row.rrRatio !== undefined ? `1:${row.rrRatio.toFixed(1)}` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {sorted.length === 0 && (
+          <div className="flex items-center justify-center h-40 text-[10px] font-bold uppercase tracking-widest text-slate-600">
+            {watchlist.symbols.length === 0 ? 'Watchlist is empty' : 'Loading watchlist...'}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScannerView;
@@ -0,0 +1,89 @@
+
+import React from 'react';
+import { ConfluenceFactor, FactorRule, ScoringModel } from '../types';
+import { CONFLUENCE_FACTORS, DEFAULT_SCORE_THRESHOLD, DEFAULT_SCORING, formatScore, maxScore } from '../services/scoring';
+
+interface ScoringPanelProps {
+  model: ScoringModel;
+  threshold: number;
+  onModelChange: (model: ScoringModel) => void;
+  onThresholdChange: (threshold: number) => void;
+}
+
+const ScoringPanel: React.FC<ScoringPanelProps> = ({ model, threshold, onModelChange, onThresholdChange }) => {
+  const max = maxScore(model);
+
+  const updateRule = (factor: ConfluenceFactor, patch: Partial<FactorRule>) =>
+    onModelChange({ ...model, [factor]: { ...model[factor], ...patch } });
+
+  const reset = () => {
+    onModelChange(DEFAULT_SCORING);
+    onThresholdChange(DEFAULT_SCORE_THRESHOLD);
+  };
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Scoring Model</h2>
+        <button onClick={reset} className="text-[9px] font-bold uppercase text-slate-500 hover:text-white">Reset</button>
+      </div>
+      <div className="space-y-3 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        <div>
+          <div className="flex justify-between text-[10px] text-slate-400 mb-1 uppercase">
+            <span>Signal Threshold</span>
+            <span className="text-blue-400 font-mono">{formatScore(threshold)} / {formatScore(max)}</span>
+          </div>
+          <input
+            type="range" min="0.5" max={Math.max(0.5, max)} step="0.5"
+            value={threshold}
+            onChange={(e) => onThresholdChange(parseFloat(e.target.value))}
+            className="w-full h-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+          />
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="grid grid-cols-[auto_1fr_auto_auto] gap-2 text-[9px] text-slate-500 uppercase">
+            <span>On</span>
+            <span>Factor</span>
+            <span>Weight</span>
+            <span>Req</span>
+          </div>
+          {CONFLUENCE_FACTORS.map(({ factor, label }) => {
+            const rule = model[factor];
+            return (
+              <div key={factor} className={`grid grid-cols-[auto_1fr_auto_auto] gap-2 items-center ${rule.enabled ? '' : 'opacity-40'}`}>
+                <input
+                  type="checkbox"
+                  checked={rule.enabled}
+                  onChange={(e) => updateRule(factor, { enabled: e.target.checked })}
+                  className="accent-blue-500"
+                />
+                <span className="text-[10px] font-bold text-slate-300">{label}</span>
+                <input
+                  type="number" min="0" max="5" step="0.5"
+                  value={rule.weight}
+                  disabled={!rule.enabled}
+                  onChange={(e) => {
+                    const weight = parseFloat(e.target.value);
+                    if (weight >= 0) updateRule(factor, { weight });
+                  }}
+                  className="w-14 bg-slate-900 border border-slate-700 rounded-md px-1.5 py-0.5 text-[11px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50"
+                />
+                <button
+                  onClick={() => updateRule(factor, { required: !rule.required })}
+                  disabled={!rule.enabled}
+                  title={rule.required ? 'Required for a signal' : 'Optional'}
+                  className={`w-6 text-[10px] ${rule.required ? 'text-amber-400' : 'text-slate-600 hover:text-slate-300'}`}
+                >
+                  <i className={`fa-solid ${rule.required ? 'fa-lock' : 'fa-lock-open'}`}></i>
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+export default ScoringPanel;
@@ -0,0 +1,91 @@
+
+import React from 'react';
+import { FactorRule, KillzoneWindow } from '../types';
+import { DEFAULT_KILLZONES, parseClockTime } from '../services/sessions';
+
+interface SessionsPanelProps {
+  rule: FactorRule;
+  killzones: KillzoneWindow[];
+  activeKillzone?: string;
+  showOverlay: boolean;
+  overlayAvailable: boolean;
+  onRuleChange: (rule: FactorRule) => void;
+  onKillzonesChange: (killzones: KillzoneWindow[]) => void;
+  onShowOverlayChange: (show: boolean) => void;
+}
+
+// Shortcuts onto the killzone factor of the scoring model: 'gate' makes it required
+type KillzoneMode = 'off' | 'confluence' | 'gate';
+
+const SessionsPanel: React.FC<SessionsPanelProps> = ({ rule, killzones, activeKillzone, showOverlay, overlayAvailable, onRuleChange, onKillzonesChange, onShowOverlayChange }) => {
+  const mode: KillzoneMode = !rule.enabled ? 'off' : rule.required ? 'gate' : 'confluence';
+  const setMode = (next: KillzoneMode) => onRuleChange({ ...rule, enabled: next !== 'off', required: next === 'gate' });
+
+  const updateWindow = (id: string, key: 'start' | 'end', value: string) => {
+    if (parseClockTime(value) === null) return;
+    onKillzonesChange(killzones.map(w => w.id === id ? { ...w, [key]: value } : w));
+  };
+
+  const inputClass = 'w-full bg-slate-900 border border-slate-700 rounded-md px-2 py-1 text-[11px] font-mono text-slate-200 focus:outline-none focus:ring-1 focus:ring-blue-500/50';
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Killzones</h2>
+        <div className={`px-2 py-0.5 rounded border text-[9px] font-bold uppercase tracking-tighter ${activeKillzone ? 'bg-amber-500/10 border-amber-500/30 text-amber-400' : 'bg-slate-800 border-slate-700 text-slate-500'}`}>
+          {activeKillzone ?? 'Off Hours'}
+        </div>
+      </div>
+      <div className="space-y-3 bg-slate-800/30 p-3 rounded-xl border border-slate-800">
+        <div className="flex justify-between items-center text-[10px] text-slate-400 uppercase">
+          <span>Use in signals</span>
+          <div className="flex bg-slate-800 rounded border border-slate-700 overflow-hidden">
+            {(['off', 'confluence', 'gate'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-2 py-0.5 font-bold ${mode === m ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {m}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-1.5">
+          <div className="text-[9px] text-slate-500 uppercase">Windows (New York time)</div>
+          {killzones.map(w => (
+            <div key={w.id} className="grid grid-cols-[1fr_auto_auto] gap-2 items-center">
+              <span className="flex items-center gap-1.5 text-[10px] font-bold text-slate-300">
+                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: w.color }}></span>
+                {w.label}
+              </span>
+              <input type="time" value={w.start} onChange={(e) => updateWindow(w.id, 'start', e.target.value)} className={inputClass} />
+              <input type="time" value={w.end} onChange={(e) => updateWindow(w.id, 'end', e.target.value)} className={inputClass} />
+            </div>
+          ))}
+          <button
+            onClick={() => onKillzonesChange(DEFAULT_KILLZONES)}
+            className="text-[9px] font-bold uppercase text-slate-500 hover:text-white"
+          >
+            Reset to defaults
+          </button>
+        </div>
+
+        <label className={`flex justify-between items-center text-[10px] text-slate-400 uppercase ${overlayAvailable ? 'cursor-pointer' : 'opacity-40'}`}>
+          <span>Show sessions on chart</span>
+          <input
+            type="checkbox"
+            checked={showOverlay}
+            disabled={!overlayAvailable}
+            onChange={(e) => onShowOverlayChange(e.target.checked)}
+            className="accent-blue-500"
+          />
+        </label>
+        {!overlayAvailable && <div className="text-[9px] text-slate-500">Session overlays are drawn on intraday charts below 4h.</div>}
+      </div>
+    </section>
+  );
+};
+
+export default SessionsPanel;
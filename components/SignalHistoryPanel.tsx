@@ -0,0 +1,68 @@
+
+import React from 'react';
+import { SignalEvent } from '../types';
+import { formatScore } from '../services/scoring';
+
+interface SignalHistoryPanelProps {
+  signals: SignalEvent[];
+  symbol: string;
+  onClear: () => void;
+}
+
+const OUTCOME_STYLES: Record<SignalEvent['outcome'], { label: string; className: string }> = {
+  open: { label: 'Open', className: 'bg-blue-500/10 border-blue-500/30 text-blue-400' },
+  tp: { label: 'Hit TP', className: 'bg-emerald-500/10 border-emerald-500/30 text-emerald-400' },
+  sl: { label: 'Hit SL', className: 'bg-rose-500/10 border-rose-500/30 text-rose-400' },
+  expired: { label: 'Unfilled', className: 'bg-slate-800 border-slate-700 text-slate-500' },
+};
+
+const SignalHistoryPanel: React.FC<SignalHistoryPanelProps> = ({ signals, symbol, onClear }) => {
+  const visible = signals.filter(s => s.symbol === symbol);
+  const settled = visible.filter(s => s.outcome === 'tp' || s.outcome === 'sl');
+  const wins = settled.filter(s => s.outcome === 'tp').length;
+
+  return (
+    <section className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xs font-semibold text-slate-500 uppercase tracking-widest">Signal History</h2>
+        {visible.length > 0 && (
+          <button onClick={onClear} className="text-[9px] font-bold uppercase text-slate-500 hover:text-white">Clear</button>
+        )}
+      </div>
+      <div className="bg-slate-800/30 p-3 rounded-xl border border-slate-800 space-y-2">
+        {visible.length === 0 ? (
+          <div className="text-[10px] text-slate-500 text-center italic">No confirmed signals on {symbol} yet.</div>
+        ) : (
+          <>
+            <div className="flex justify-between text-[9px] text-slate-500 uppercase font-bold tracking-tighter">
+              <span>{visible.length} signals</span>
+              <span>{settled.length > 0 ? `${wins}/${settled.length} hit TP` : 'None settled'}</span>
+            </div>
+            <div className="max-h-48 overflow-y-auto custom-scrollbar space-y-1">
+              {visible.map(s => (
+                <div key={s.id} className="bg-slate-900/50 px-2 py-1.5 rounded border border-slate-800 space-y-1">
+                  <div className="flex justify-between items-center text-[9px] font-mono">
+                    <span className={`font-bold ${s.side === 'BUY' ? 'text-emerald-400' : 'text-rose-400'}`}>
+                      <i className={`fa-solid ${s.side === 'BUY' ? 'fa-caret-up' : 'fa-caret-down'} mr-1`}></i>
+                      {s.side} <span className="text-slate-500 uppercase">{s.interval}</span>
+                    </span>
+                    <span className="text-slate-500">{new Date(s.time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}</span>
+                    <span className={`px-1.5 rounded border text-[8px] font-bold uppercase ${OUTCOME_STYLES[s.outcome].className}`}>{OUTCOME_STYLES[s.outcome].label}</span>
+                  </div>
+                  <div className="flex justify-between text-[9px] font-mono text-slate-400">
+                    <span>{s.entryType === 'limit' ? 'LMT' : 'MKT'} {s.entryPrice.toFixed(2)}</span>
+                    <span className="text-rose-400/80">SL {s.slPrice.toFixed(2)}</span>
+                    <span className="text-emerald-400/80">TP {s.tpPrice.toFixed(2)}</span>
+                    <span className="text-slate-500">{formatScore(s.breakdown.score)}/{formatScore(s.breakdown.maxScore)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </div>
+    </section>
+  );
+};
+
+export default SignalHistoryPanel;
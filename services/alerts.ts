@@ -0,0 +1,142 @@
+
+import { Candle, AnalysisResult, Drawing, AlertRule, AlertEvent, OrderBlock, FVG } from '../types';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export interface AlertContext {
+  symbol: string;
+  candle: Candle;
+  prevPrice?: number;
+  analysis: AnalysisResult;
+  prevAnalysis?: AnalysisResult;
+  drawings: Drawing[];
+  intervalMs: number;
+}
+
+// Price of a drawing at a moment in time: flat for horizontals, linearly
+// extended for trendlines and rays so an alert keeps working past the second anchor.
+export const drawingPriceAt = (drawing: Drawing, time: number): number | undefined => {
+  if (drawing.type === 'horizontal' && drawing.points.length >= 1) return drawing.points[0].price;
+  if ((drawing.type === 'trendline' || drawing.type === 'ray') && drawing.points.length >= 2) {
+    const [p1, p2] = drawing.points;
+    if (p2.time === p1.time) return p2.price;
+    return p1.price + ((p2.price - p1.price) * (time - p1.time)) / (p2.time - p1.time);
+  }
+  return undefined;
+};
+
+const crossed = (prev: number, curr: number, level: number, direction: AlertRule['direction']) => {
+  const up = prev < level && curr >= level;
+  const down = prev > level && curr <= level;
+  if (direction === 'bullish') return up;
+  if (direction === 'bearish') return down;
+  return up || down;
+};
+
+const sideMatches = (rule: AlertRule, side: 'bullish' | 'bearish') =>
+  !rule.direction || rule.direction === 'any' || rule.direction === side;
+
+const zoneKey = (zone: OrderBlock | FVG, kind: string) => `${kind}-${zone.type}-${zone.startTime}`;
+
+// Returns a message when the rule's condition became true on this update
+const checkRule = (rule: AlertRule, ctx: AlertContext): string | null => {
+  const { candle, prevPrice, analysis, prevAnalysis } = ctx;
+  const price = candle.close;
+
+  switch (rule.type) {
+    case 'price_cross': {
+      if (rule.level === undefined || prevPrice === undefined) return null;
+      return crossed(prevPrice, price, rule.level, rule.direction)
+        ? `${ctx.symbol} crossed ${price >= rule.level ? 'above' : 'below'} ${rule.level.toFixed(2)}`
+        : null;
+    }
+    case 'drawing_cross': {
+      const drawing = ctx.drawings.find(d => d.id === rule.drawingId);
+      if (!drawing || prevPrice === undefined) return null;
+      const level = drawingPriceAt(drawing, candle.time);
+      if (level === undefined) return null;
+      return crossed(prevPrice, price, level, rule.direction)
+        ? `${ctx.symbol} crossed ${drawing.type} at ${level.toFixed(2)}`
+        : null;
+    }
+    case 'signal': {
+      if (analysis.signal === 'NEUTRAL' || analysis.signal === prevAnalysis?.signal) return null;
+      if (!sideMatches(rule, analysis.signal === 'BUY' ? 'bullish' : 'bearish')) return null;
+      return `New ${analysis.signal} signal on ${ctx.symbol} at ${price.toFixed(2)}`;
+    }
+    case 'score': {
+      const n = rule.scoreThreshold ?? 3;
+      const bullHit = sideMatches(rule, 'bullish') && analysis.bullScore >= n && (prevAnalysis?.bullScore ?? 0) < n;
+      const bearHit = sideMatches(rule, 'bearish') && analysis.bearScore >= n && (prevAnalysis?.bearScore ?? 0) < n;
+      if (!bullHit && !bearHit) return null;
+      return `${ctx.symbol} ${bullHit ? 'bullish' : 'bearish'} score reached ${bullHit ? analysis.bullScore : analysis.bearScore}`;
+    }
+    case 'zone_entry': {
+      if (!prevAnalysis) return null;
+      // A fresh zone is one price had not touched as of the previous update
+      const fresh = new Set([
+        ...prevAnalysis.orderBlocks.filter(z => z.status === 'untouched').map(z => zoneKey(z, 'OB')),
+        ...prevAnalysis.fvgs.filter(z => z.status === 'untouched').map(z => zoneKey(z, 'FVG'))
+      ]);
+      const entered = [
+        ...analysis.orderBlocks.map(zone => ({ zone, kind: 'OB' })),
+        ...analysis.fvgs.map(zone => ({ zone, kind: 'FVG' }))
+      ].find(({ zone, kind }) =>
+        fresh.has(zoneKey(zone, kind)) && sideMatches(rule, zone.type) && candle.low <= zone.top && candle.high >= zone.bottom
+      );
+      return entered ? `${ctx.symbol} entered fresh ${entered.zone.type} ${entered.kind} (${entered.zone.bottom.toFixed(2)}–${entered.zone.top.toFixed(2)})` : null;
+    }
+    case 'structure': {
+      if (!prevAnalysis) return null;
+      // Breaks confirm on the current bar; older events can reappear as the window slides
+      const seen = new Set(prevAnalysis.structure.map(s => `${s.type}-${s.time}-${s.price}`));
+      const event = analysis.structure.find(s =>
+        s.time === candle.time &&
+        !seen.has(`${s.type}-${s.time}-${s.price}`) &&
+        sideMatches(rule, s.direction) &&
+        (!rule.structureType || rule.structureType === 'any' || rule.structureType === s.type)
+      );
+      return event ? `${ctx.symbol} ${event.direction} ${event.type} through ${event.price.toFixed(2)}` : null;
+    }
+  }
+};
+
+// Evaluates every enabled rule for the symbol on one live update. A rule fires
+// at most once per bar; firing records the bar so the cooldown can be counted
+// in bars, and once-only rules disable themselves.
+export const evaluateAlerts = (rules: AlertRule[], ctx: AlertContext): { rules: AlertRule[]; events: AlertEvent[] } => {
+  const events: AlertEvent[] = [];
+
+  const updated = rules.map(rule => {
+    if (!rule.enabled || rule.symbol !== ctx.symbol) return rule;
+    if (rule.lastFiredBar !== undefined && ctx.intervalMs > 0) {
+      const barsSince = (ctx.candle.time - rule.lastFiredBar) / ctx.intervalMs;
+      if (barsSince < Math.max(1, rule.cooldownBars)) return rule;
+    }
+
+    const message = checkRule(rule, ctx);
+    if (!message) return rule;
+
+    events.push({ id: newId(), ruleId: rule.id, symbol: ctx.symbol, message, barTime: ctx.candle.time, firedAt: Date.now() });
+    return { ...rule, lastFiredBar: ctx.candle.time, enabled: rule.trigger === 'repeat' };
+  });
+
+  return { rules: events.length > 0 ? updated : rules, events };
+};
+
+export const createAlertRule = (input: Omit<AlertRule, 'id' | 'enabled' | 'createdAt'>): AlertRule => ({
+  ...input,
+  id: newId(),
+  enabled: true,
+  createdAt: Date.now()
+});
+
+export const requestNotificationPermission = async () => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'default') return;
+  await Notification.requestPermission();
+};
+
+export const sendBrowserNotification = (event: AlertEvent) => {
+  if (typeof Notification === 'undefined' || Notification.permission !== 'granted') return;
+  new Notification('ICT Terminal Alert', { body: event.message, tag: event.ruleId });
+};
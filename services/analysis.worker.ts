@@ -0,0 +1,7 @@
+
+import { AnalysisRequest, createAnalysisHost } from './liveAnalysis';
+
+// Every followed series and its detector state live here between requests
+const handle = createAnalysisHost();
+
+self.onmessage = (e: MessageEvent<AnalysisRequest>) => self.postMessage(handle(e.data));
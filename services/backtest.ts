@@ -0,0 +1,149 @@
+
+import { Candle, Config, BacktestTrade, BacktestResult } from '../types';
+import { analyzePriceData } from './technicalAnalysis';
+
+export interface BacktestOptions {
+  // Bars skipped before the first signal is evaluated
+  warmup?: number;
+  // Bars handed to analyzePriceData on each step (mirrors the live chart window)
+  window?: number;
+}
+
+// Bars of history each step analyses unless the caller says otherwise
+export const DEFAULT_BACKTEST_WINDOW = 150;
+
+// Limit entries that have not filled by then are cancelled
+export const LIMIT_EXPIRY_BARS = 10;
+
+const closeTrade = (trade: BacktestTrade, candle: Candle, index: number, exitPrice: number, outcome: BacktestTrade['outcome']) => {
+  const risk = Math.abs(trade.entryPrice - trade.slPrice);
+  const move = trade.side === 'BUY' ? exitPrice - trade.entryPrice : trade.entryPrice - exitPrice;
+  trade.exitIndex = index;
+  trade.exitTime = candle.time;
+  trade.exitPrice = exitPrice;
+  trade.outcome = outcome;
+  trade.rMultiple = risk > 0 ? move / risk : 0;
+  trade.pnlPercent = (move / trade.entryPrice) * 100;
+};
+
+export const runBacktest = (candles: Candle[], config: Config, options: BacktestOptions = {}): BacktestResult => {
+  const warmup = options.warmup ?? config.swingLength + config.pivotConfirmation + 1;
+  const window = options.window ?? DEFAULT_BACKTEST_WINDOW;
+  const trades: BacktestTrade[] = [];
+  let openTrade: BacktestTrade | null = null;
+  let pending: { trade: BacktestTrade; expiresAt: number } | null = null;
+
+  for (let i = warmup; i < candles.length; i++) {
+    const candle = candles[i];
+
+    // 1. Resolve the open trade against this bar. When SL and TP are both inside
+    // the range we cannot know the intrabar path, so assume the stop hit first.
+    if (openTrade) {
+      const isBuy = openTrade.side === 'BUY';
+      const hitSL = isBuy ? candle.low <= openTrade.slPrice : candle.high >= openTrade.slPrice;
+      const hitTP = isBuy ? candle.high >= openTrade.tpPrice : candle.low <= openTrade.tpPrice;
+
+      if (hitSL) {
+        closeTrade(openTrade, candle, i, openTrade.slPrice, 'loss');
+        openTrade = null;
+      } else if (hitTP) {
+        closeTrade(openTrade, candle, i, openTrade.tpPrice, 'win');
+        openTrade = null;
+      }
+      continue;
+    }
+
+    // 2. A resting limit fills when the bar trades through it, and a stop inside
+    // the fill bar counts against it
+    if (pending) {
+      const { trade } = pending;
+      const isBuy = trade.side === 'BUY';
+      if (isBuy ? candle.low <= trade.entryPrice : candle.high >= trade.entryPrice) {
+        trade.entryIndex = trade.exitIndex = i;
+        trade.entryTime = trade.exitTime = candle.time;
+        trades.push(trade);
+        pending = null;
+        if (isBuy ? candle.low <= trade.slPrice : candle.high >= trade.slPrice) {
+          closeTrade(trade, candle, i, trade.slPrice, 'loss');
+        } else {
+          openTrade = trade;
+        }
+        continue;
+      }
+      if (i < pending.expiresAt) continue;
+      pending = null;
+    }
+
+    // 3. Replay analysis on the history visible at this bar only
+    const visible = candles.slice(Math.max(0, i + 1 - window), i + 1);
+    const result = analyzePriceData(visible, config);
+    if (result.signal === 'NEUTRAL' || result.entryPrice === undefined || result.slPrice === undefined || result.tpPrice === undefined) {
+      continue;
+    }
+    if (result.entryPrice === result.slPrice) continue;
+
+    const trade: BacktestTrade = {
+      side: result.signal,
+      entryIndex: i,
+      entryTime: candle.time,
+      entryPrice: result.entryPrice,
+      slPrice: result.slPrice,
+      tpPrice: result.tpPrice,
+      exitIndex: i,
+      exitTime: candle.time,
+      exitPrice: result.entryPrice,
+      outcome: 'open',
+      rMultiple: 0,
+      pnlPercent: 0,
+      score: result.signal === 'BUY' ? result.bullScore : result.bearScore
+    };
+    if (result.entryType === 'limit') {
+      pending = { trade, expiresAt: i + LIMIT_EXPIRY_BARS };
+    } else {
+      openTrade = trade;
+      trades.push(trade);
+    }
+  }
+
+  // Mark any still-running trade to the last close so it shows in the list
+  if (openTrade && candles.length > 0) {
+    const lastIdx = candles.length - 1;
+    closeTrade(openTrade, candles[lastIdx], lastIdx, candles[lastIdx].close, 'open');
+  }
+
+  return summarizeTrades(trades);
+};
+
+export const summarizeTrades = (trades: BacktestTrade[]): BacktestResult => {
+  const closed = trades.filter(t => t.outcome !== 'open');
+  const wins = closed.filter(t => t.outcome === 'win');
+  const losses = closed.filter(t => t.outcome === 'loss');
+
+  const grossProfit = wins.reduce((sum, t) => sum + t.rMultiple, 0);
+  const grossLoss = Math.abs(losses.reduce((sum, t) => sum + t.rMultiple, 0));
+  const netR = grossProfit - grossLoss;
+
+  const equityCurve: { time: number; equity: number }[] = [];
+  let equity = 0;
+  let peak = 0;
+  let maxDrawdown = 0;
+  closed.forEach(t => {
+    equity += t.rMultiple;
+    peak = Math.max(peak, equity);
+    maxDrawdown = Math.max(maxDrawdown, peak - equity);
+    equityCurve.push({ time: t.exitTime, equity });
+  });
+
+  return {
+    trades,
+    totalTrades: closed.length,
+    wins: wins.length,
+    losses: losses.length,
+    winRate: closed.length > 0 ? (wins.length / closed.length) * 100 : 0,
+    expectancy: closed.length > 0 ? netR / closed.length : 0,
+    profitFactor: grossLoss > 0 ? grossProfit / grossLoss : (grossProfit > 0 ? Infinity : 0),
+    maxDrawdown,
+    netR,
+    equityCurve
+  };
+};
@@ -0,0 +1,32 @@
+
+import { DealingRange, SwingPivot } from '../types';
+
+// Optimal trade entry band of an ICT retracement, and the level limit entries rest at
+export const OTE_RANGE: [number, number] = [0.62, 0.79];
+export const OTE_ENTRY = 0.705;
+
+// The active dealing range spans the latest confirmed swing high and swing low.
+// Whichever printed last ends the leg, and retracements are measured back from it.
+export const findDealingRange = (highPivots: SwingPivot[], lowPivots: SwingPivot[], price: number): DealingRange | undefined => {
+  const high = highPivots[highPivots.length - 1];
+  const low = lowPivots[lowPivots.length - 1];
+  if (!high || !low || high.val <= low.val) return undefined;
+
+  const direction = high.idx > low.idx ? 'bullish' : 'bearish';
+  const size = high.val - low.val;
+  const retrace = (level: number) => direction === 'bullish' ? high.val - size * level : low.val + size * level;
+  const equilibrium = (high.val + low.val) / 2;
+
+  return {
+    high: high.val,
+    low: low.val,
+    highTime: high.time,
+    lowTime: low.time,
+    direction,
+    equilibrium,
+    oteTop: Math.max(retrace(OTE_RANGE[0]), retrace(OTE_RANGE[1])),
+    oteBottom: Math.min(retrace(OTE_RANGE[0]), retrace(OTE_RANGE[1])),
+    oteEntry: retrace(OTE_ENTRY),
+    zone: price > equilibrium ? 'premium' : price < equilibrium ? 'discount' : 'equilibrium'
+  };
+};
@@ -0,0 +1,40 @@
+
+import { Drawing } from '../types';
+
+const HISTORY_LIMIT = 100;
+
+// Undo/redo stack over whole snapshots of a symbol's drawings
+export interface DrawingHistory {
+  past: Drawing[][];
+  present: Drawing[];
+  future: Drawing[][];
+}
+
+export const createDrawingHistory = (present: Drawing[] = []): DrawingHistory => ({ past: [], present, future: [] });
+
+export const commitDrawings = (history: DrawingHistory, next: Drawing[]): DrawingHistory => {
+  if (next === history.present) return history;
+  return {
+    past: [...history.past, history.present].slice(-HISTORY_LIMIT),
+    present: next,
+    future: []
+  };
+};
+
+export const undoDrawings = (history: DrawingHistory): DrawingHistory => {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future]
+  };
+};
+
+export const redoDrawings = (history: DrawingHistory): DrawingHistory => {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1)
+  };
+};
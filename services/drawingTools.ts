@@ -0,0 +1,60 @@
+
+import { Drawing, DrawingType } from '../types';
+
+export interface DrawingToolSpec {
+  type: DrawingType;
+  title: string;
+  icon: string;
+  // Clicks needed to place the drawing
+  points: number;
+}
+
+export const DRAWING_TOOLS: DrawingToolSpec[] = [
+  { type: 'trendline', title: 'Trendline', icon: 'fa-solid fa-minus rotate-[-45deg]', points: 2 },
+  { type: 'ray', title: 'Ray (Extended Line)', icon: 'fa-solid fa-arrow-trend-up', points: 2 },
+  { type: 'horizontal', title: 'Horizontal Line', icon: 'fa-solid fa-grip-lines', points: 1 },
+  { type: 'vertical', title: 'Vertical Time Line', icon: 'fa-solid fa-grip-lines-vertical', points: 1 },
+  { type: 'fib', title: 'Fibonacci Retracement', icon: 'fa-solid fa-align-justify', points: 2 },
+  { type: 'rectangle', title: 'Rectangle / Price Range', icon: 'fa-regular fa-square', points: 2 },
+  { type: 'long', title: 'Long Position', icon: 'fa-solid fa-arrow-up text-emerald-400', points: 2 },
+  { type: 'short', title: 'Short Position', icon: 'fa-solid fa-arrow-down text-rose-400', points: 2 },
+  { type: 'text', title: 'Text Note', icon: 'fa-solid fa-font', points: 1 },
+];
+
+export const pointsForTool = (type: DrawingType) => DRAWING_TOOLS.find(t => t.type === type)?.points ?? 2;
+
+export const DEFAULT_FIB_LEVELS = [0, 0.236, 0.382, 0.5, 0.618, 0.786, 1];
+
+const DEFAULT_POSITION_RR = 2;
+
+// Long/short tools are placed with entry and stop; the target starts at a
+// default multiple of the risk and becomes a third, draggable point
+export const withPositionTarget = (drawing: Drawing): Drawing => {
+  const [entry, stop] = drawing.points;
+  return {
+    ...drawing,
+    points: [entry, stop, { time: stop.time, price: entry.price + (entry.price - stop.price) * DEFAULT_POSITION_RR }]
+  };
+};
+
+export interface PositionToolStats {
+  riskPercent: number;
+  rewardPercent: number;
+  rr: number;
+  pnlR: number;
+  pnlPercent: number;
+}
+
+export const positionToolStats = (drawing: Drawing, lastPrice: number): PositionToolStats => {
+  const [entry, stop, target] = drawing.points;
+  const direction = drawing.type === 'short' ? -1 : 1;
+  const risk = Math.abs(entry.price - stop.price);
+  const move = (lastPrice - entry.price) * direction;
+  return {
+    riskPercent: (risk / entry.price) * 100,
+    rewardPercent: (Math.abs(target.price - entry.price) / entry.price) * 100,
+    rr: risk > 0 ? Math.abs(target.price - entry.price) / risk : 0,
+    pnlR: risk > 0 ? move / risk : 0,
+    pnlPercent: (move / entry.price) * 100
+  };
+};
@@ -1,6 +1,8 @@
 
 import { GoogleGenAI } from "@google/genai";
-import { AnalysisResult, Candle } from "../types";
+import { AnalysisResult, Candle, PositionSize } from "../types";
+import { drawOnLiquidity } from "./liquidity";
+import { describeBreakdown } from "./scoring";
 
 export interface AIAnalysisResult {
   text: string;
@@ -8,22 +10,53 @@ export interface AIAnalysisResult {
   isError?: boolean;
 }
 
-const getBasePrompt = (analysis: AnalysisResult, lastCandles: Candle[]) => `
+const getRiskContext = (analysis: AnalysisResult, sizing?: PositionSize) => {
+  if (!sizing || analysis.signal === 'NEUTRAL') return '';
+  return `
+    Position Sizing (account-level):
+    - Entry / SL / TP: ${analysis.entryPrice?.toFixed(2)} / ${analysis.slPrice?.toFixed(2)} / ${analysis.tpPrice?.toFixed(2)}
+    - Size: ${sizing.belowMinLot ? 'below minimum lot at the configured risk' : `${sizing.lots} lots (${sizing.units} units)`}
+    - Dollar Risk: $${sizing.dollarRisk.toFixed(2)} (target $${sizing.targetRisk.toFixed(2)})
+    - Dollar Reward: $${sizing.dollarReward.toFixed(2)}
+    - Required Margin: $${sizing.margin.toFixed(2)}
+`;
+};
+
+const getLiquidityContext = (analysis: AnalysisResult, price: number | undefined) => {
+  if (price === undefined || analysis.liquidity.length === 0) return '';
+  const { above, below } = drawOnLiquidity(analysis.liquidity, price);
+  const recentSweeps = analysis.liquidity
+    .filter(p => p.swept)
+    .sort((a, b) => (b.sweptTime ?? 0) - (a.sweptTime ?? 0))
+    .slice(0, 3);
+  return `
+    Liquidity (draw on liquidity):
+    - Nearest Buy-side (BSL) above: ${above ? `${above.label} at ${above.price.toFixed(2)}` : 'None untaken'}
+    - Nearest Sell-side (SSL) below: ${below ? `${below.label} at ${below.price.toFixed(2)}` : 'None untaken'}
+    - Recent Sweeps: ${recentSweeps.map(p => `${p.side === 'buy' ? 'BSL' : 'SSL'} ${p.label} at ${p.price.toFixed(2)}`).join(', ') || 'None'}
+`;
+};
+
+const getBasePrompt = (analysis: AnalysisResult, lastCandles: Candle[], sizing?: PositionSize) => `
     Act as a professional ICT (Inner Circle Trader) and SMC (Smart Money Concepts) analyst. 
     Analyze the following technical setup:
     
     Setup Data:
     - Current Signal: ${analysis.signal}
-    - Bullish Score: ${analysis.bullScore}/3
-    - Bearish Score: ${analysis.bearScore}/3
+    - Bullish Score: ${describeBreakdown(analysis.breakdown.bullish)}
+    - Bearish Score: ${describeBreakdown(analysis.breakdown.bearish)}
     - Order Blocks Detected: ${analysis.orderBlocks.length}
     - Fair Value Gaps Detected: ${analysis.fvgs.length}
-    - Market Structure: ${analysis.structure.map(s => `${s.type} ${s.direction} at ${s.price.toFixed(2)}`).join(', ') || 'Ranging/Consolidation'}
+    - Other PD Arrays Live: ${analysis.pdArrays.filter(a => a.isValid).length}
+    - Structure Trend: ${analysis.trend ?? 'Undetermined'}
+    - Dealing Range: ${analysis.dealingRange ? `${analysis.dealingRange.low.toFixed(2)} - ${analysis.dealingRange.high.toFixed(2)}, price in ${analysis.dealingRange.zone} (EQ ${analysis.dealingRange.equilibrium.toFixed(2)}, OTE ${analysis.dealingRange.oteBottom.toFixed(2)} - ${analysis.dealingRange.oteTop.toFixed(2)})` : 'Undetermined'}
+    - Active Killzone (New York time): ${analysis.killzone ?? 'None'}
+    - Recent Structure Events: ${analysis.structure.slice(-5).map(s => `${s.type} ${s.direction} at ${s.price.toFixed(2)}`).join(', ') || 'Ranging/Consolidation'}
     
     Price Context:
     - Current Price: ${lastCandles[lastCandles.length - 1]?.close.toFixed(2)}
     - Recent Range: ${lastCandles[0]?.low.toFixed(2)} to ${lastCandles[lastCandles.length - 1]?.high.toFixed(2)}
-`;
+${getLiquidityContext(analysis, lastCandles[lastCandles.length - 1]?.close)}${getRiskContext(analysis, sizing)}`;
 
 const handleApiError = (error: any, modelName: string): AIAnalysisResult => {
   console.error(`${modelName} Analysis failed:`, error);
@@ -42,9 +75,9 @@ const handleApiError = (error: any, modelName: string): AIAnalysisResult => {
   };
 };
 
-export const getFastAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[]): Promise<AIAnalysisResult> => {
+export const getFastAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[], sizing?: PositionSize): Promise<AIAnalysisResult> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `${getBasePrompt(analysis, lastCandles)}
+  const prompt = `${getBasePrompt(analysis, lastCandles, sizing)}
     Provide a 2-sentence lightning-fast summary of the current technical outlook. Focus only on the most immediate threat or opportunity.`;
 
   try {
@@ -58,9 +91,9 @@ export const getFastAnalysis = async (analysis: AnalysisResult, lastCandles: Can
   }
 };
 
-export const getSearchAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[]): Promise<AIAnalysisResult> => {
+export const getSearchAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[], sizing?: PositionSize): Promise<AIAnalysisResult> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `${getBasePrompt(analysis, lastCandles)}
+  const prompt = `${getBasePrompt(analysis, lastCandles, sizing)}
     Search for recent financial news or economic events that might impact USD or Gold (XAUUSD) markets today. 
     Correlate the technical ICT patterns above with current market sentiment. 
     Are there high-impact news events (CPI, NFP, FOMC) that could invalidate these levels?`;
@@ -88,14 +121,14 @@ export const getSearchAnalysis = async (analysis: AnalysisResult, lastCandles: C
   }
 };
 
-export const getDeepThinkingAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[]): Promise<AIAnalysisResult> => {
+export const getDeepThinkingAnalysis = async (analysis: AnalysisResult, lastCandles: Candle[], sizing?: PositionSize): Promise<AIAnalysisResult> => {
   const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const prompt = `${getBasePrompt(analysis, lastCandles)}
+  const prompt = `${getBasePrompt(analysis, lastCandles, sizing)}
     Perform a deep institutional narrative analysis.
     1. Identify the 'Draw on Liquidity' (DOL) - where is the market likely headed next?
     2. Analyze the 'Market Maker Models' (MMXM) current phase.
     3. Evaluate the quality of the FVGs and OBs detected. Are they high-probability or 'SMT' traps?
-    4. Provide a step-by-step trade execution plan if a high-probability entry exists.
+    4. Provide a step-by-step trade execution plan if a high-probability entry exists, using the position sizing above when given.
     
     Think extensively before providing your conclusion.`;
 
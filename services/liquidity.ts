@@ -0,0 +1,236 @@
+
+import { Candle, Config, LiquidityPool, SwingPivot } from '../types';
+import { killzoneAt, newYorkClock, newYorkWeek } from './sessions';
+
+// A pool swept this many bars ago still counts as the setup's sweep
+const SWEEP_LOOKBACK = 3;
+
+type PoolDraft = Omit<LiquidityPool, 'swept' | 'sweptIndex' | 'sweptTime'>;
+
+// Equal-level pools of one side, and which pool each pivot already belongs to
+interface EqualLevels {
+  pools: PoolDraft[];
+  poolOf: Map<number, number>;
+}
+
+// A run of bars sharing one day or week key; `hi` and `lo` are the bars
+// holding its extremes
+interface PeriodRun {
+  key: string;
+  start: number;
+  hi: number;
+  lo: number;
+}
+
+interface PeriodCursor {
+  current?: PeriodRun;
+  previous?: PeriodRun;
+}
+
+// One uninterrupted run of bars inside a killzone
+interface SessionRun {
+  id: string;
+  label: string;
+  startTime: number;
+  endIndex: number;
+  high: number;
+  low: number;
+}
+
+// Everything the pool finders carry from one bar to the next
+export interface LiquidityState {
+  buy: EqualLevels;
+  sell: EqualLevels;
+  daily: PeriodCursor;
+  weekly: PeriodCursor;
+  // Window ids in the order each first ran, with its latest run and the one before
+  sessionOrder: string[];
+  latestRun: Record<string, SessionRun>;
+  previousRun: Record<string, SessionRun>;
+  // Sweep checks of each pool over the folded bars. Shared between a state and
+  // its forming-bar copies, which only ever add folded bars to it.
+  sweeps: Map<string, { checked: number; sweptIndex?: number }>;
+}
+
+export const createLiquidityState = (): LiquidityState => ({
+  buy: { pools: [], poolOf: new Map() },
+  sell: { pools: [], poolOf: new Map() },
+  daily: {},
+  weekly: {},
+  sessionOrder: [],
+  latestRun: {},
+  previousRun: {},
+  sweeps: new Map()
+});
+
+// Copies everything stepLiquidity mutates
+export const cloneLiquidity = (state: LiquidityState): LiquidityState => ({
+  ...state,
+  buy: { pools: [...state.buy.pools], poolOf: new Map(state.buy.poolOf) },
+  sell: { pools: [...state.sell.pools], poolOf: new Map(state.sell.poolOf) },
+  sessionOrder: [...state.sessionOrder],
+  latestRun: { ...state.latestRun },
+  previousRun: { ...state.previousRun }
+});
+
+// Swing points within `tolerance` percent of each other, with nothing trading
+// beyond them in between, pool their stops into one level at the outer price.
+// Runs once for each newly confirmed pivot, the last one in `pivots`.
+const addEqualLevel = (levels: EqualLevels, candles: Candle[], pivots: SwingPivot[], side: LiquidityPool['side'], tolerance: number) => {
+  const isHigh = side === 'buy';
+  const j = pivots.length - 1;
+  const b = pivots[j];
+  // Most extreme price strictly between the earlier pivot and `b`
+  let extreme = isHigh ? -Infinity : Infinity;
+  let scanned = b.idx;
+
+  for (let i = j - 1; i >= 0; i--) {
+    const a = pivots[i];
+    for (let k = scanned - 1; k > a.idx; k--) {
+      extreme = isHigh ? Math.max(extreme, candles[k].high) : Math.min(extreme, candles[k].low);
+    }
+    scanned = a.idx + 1;
+    const outer = isHigh ? Math.max(a.val, b.val) : Math.min(a.val, b.val);
+    // Price already ran the earlier level before the later one formed
+    if (isHigh ? extreme > outer : extreme < outer) break;
+    if (Math.abs(a.val - b.val) / a.val * 100 > tolerance) continue;
+
+    const existing = levels.poolOf.get(a.idx);
+    if (existing !== undefined) {
+      const pool = levels.pools[existing];
+      levels.pools[existing] = {
+        ...pool,
+        price: isHigh ? Math.max(pool.price, b.val) : Math.min(pool.price, b.val),
+        index: b.idx + 1,
+        touches: pool.touches + 1
+      };
+      levels.poolOf.set(b.idx, existing);
+    } else {
+      levels.pools.push({ side, kind: 'equal', label: isHigh ? 'EQH' : 'EQL', price: outer, startTime: a.time, index: b.idx + 1, touches: 2 });
+      levels.poolOf.set(a.idx, levels.pools.length - 1);
+      levels.poolOf.set(b.idx, levels.pools.length - 1);
+    }
+    break;
+  }
+};
+
+const stepPeriod = (cursor: PeriodCursor, candles: Candle[], i: number, key: string): PeriodCursor => {
+  const { current } = cursor;
+  if (!current || current.key !== key) return { current: { key, start: i, hi: i, lo: i }, previous: current };
+  const c = candles[i];
+  return {
+    previous: cursor.previous,
+    current: { ...current, hi: c.high > candles[current.hi].high ? i : current.hi, lo: c.low < candles[current.lo].low ? i : current.lo }
+  };
+};
+
+// Folds bar i in. `newHigh` and `newLow` say whether the bar confirmed a pivot,
+// which is then the last entry of its list.
+export const stepLiquidity = (
+  state: LiquidityState,
+  candles: Candle[],
+  i: number,
+  highPivots: SwingPivot[],
+  lowPivots: SwingPivot[],
+  newHigh: boolean,
+  newLow: boolean,
+  config: Config
+) => {
+  if (newHigh) addEqualLevel(state.buy, candles, highPivots, 'buy', config.liquidityTolerance);
+  if (newLow) addEqualLevel(state.sell, candles, lowPivots, 'sell', config.liquidityTolerance);
+
+  const c = candles[i];
+  const day = newYorkClock(c.time).day;
+  state.daily = stepPeriod(state.daily, candles, i, day);
+  state.weekly = stepPeriod(state.weekly, candles, i, newYorkWeek(day));
+
+  const window = killzoneAt(c.time, config.killzones);
+  if (!window) return;
+  const run = state.latestRun[window.id];
+  if (run && run.endIndex === i - 1) {
+    state.latestRun[window.id] = { ...run, endIndex: i, high: Math.max(run.high, c.high), low: Math.min(run.low, c.low) };
+    return;
+  }
+  if (run) state.previousRun[window.id] = run;
+  else state.sessionOrder.push(window.id);
+  state.latestRun[window.id] = { id: window.id, label: window.label, startTime: c.time, endIndex: i, high: c.high, low: c.low };
+};
+
+// High and low of the period before the current one. Nothing is returned when
+// the series starts inside that period, since its range would be partial.
+const previousPeriod = (cursor: PeriodCursor, candles: Candle[], kind: 'daily' | 'weekly', labels: [string, string]): PoolDraft[] => {
+  const { current, previous } = cursor;
+  if (!current || !previous || previous.start <= 0) return [];
+  return [
+    { side: 'buy', kind, label: labels[0], price: candles[previous.hi].high, startTime: candles[previous.hi].time, index: current.start, touches: 1 },
+    { side: 'sell', kind, label: labels[1], price: candles[previous.lo].low, startTime: candles[previous.lo].time, index: current.start, touches: 1 },
+  ];
+};
+
+// Extremes of the latest finished run of each killzone
+const sessionExtremes = (state: LiquidityState, candles: Candle[]): PoolDraft[] => {
+  const lastIdx = candles.length - 1;
+  return state.sessionOrder.flatMap(id => {
+    const latest = state.latestRun[id];
+    const run = latest.endIndex < lastIdx ? latest : state.previousRun[id];
+    if (!run) return [];
+    return [
+      { side: 'buy' as const, kind: 'session' as const, label: `${run.label} H`, price: run.high, startTime: run.startTime, index: run.endIndex + 1, touches: 1 },
+      { side: 'sell' as const, kind: 'session' as const, label: `${run.label} L`, price: run.low, startTime: run.startTime, index: run.endIndex + 1, touches: 1 },
+    ];
+  });
+};
+
+const takes = (pool: PoolDraft, c: Candle) => pool.side === 'buy' ? c.high > pool.price : c.low < pool.price;
+
+// A pool is swept by the first bar that trades beyond it. Folded bars are only
+// ever checked once per pool; bars from `committed` on may still change.
+const trackSweep = (state: LiquidityState, pool: PoolDraft, candles: Candle[], committed: number): LiquidityPool => {
+  const key = `${pool.side}:${pool.kind}:${pool.label}:${pool.price}:${pool.index}`;
+  let sweep = state.sweeps.get(key);
+  if (!sweep) {
+    sweep = { checked: pool.index };
+    state.sweeps.set(key, sweep);
+  }
+  for (; sweep.sweptIndex === undefined && sweep.checked < committed; sweep.checked++) {
+    if (takes(pool, candles[sweep.checked])) sweep.sweptIndex = sweep.checked;
+  }
+
+  let sweptIndex = sweep.sweptIndex;
+  for (let j = Math.max(sweep.checked, pool.index); sweptIndex === undefined && j < candles.length; j++) {
+    if (takes(pool, candles[j])) sweptIndex = j;
+  }
+  return sweptIndex === undefined ? { ...pool, swept: false } : { ...pool, swept: true, sweptIndex, sweptTime: candles[sweptIndex].time };
+};
+
+// Pools as of the last bar in `candles`, every bar of which has been stepped in
+export const liquidityPools = (state: LiquidityState, candles: Candle[], committed: number): LiquidityPool[] => {
+  if (candles.length === 0) return [];
+  return [
+    ...state.buy.pools,
+    ...state.sell.pools,
+    ...previousPeriod(state.daily, candles, 'daily', ['PDH', 'PDL']),
+    ...previousPeriod(state.weekly, candles, 'weekly', ['PWH', 'PWL']),
+    ...sessionExtremes(state, candles),
+  ].map(pool => trackSweep(state, pool, candles, committed));
+};
+
+// A recent sweep that price has already closed back inside of: sell-side for
+// longs, buy-side for shorts
+export const recentSweep = (pools: LiquidityPool[], candles: Candle[], side: LiquidityPool['side']) => {
+  const last = candles[candles.length - 1];
+  return pools.find(p =>
+    p.side === side &&
+    p.sweptIndex !== undefined &&
+    p.sweptIndex >= candles.length - SWEEP_LOOKBACK &&
+    (side === 'sell' ? last.close > p.price : last.close < p.price)
+  );
+};
+
+// Nearest untaken pool on each side of price: where the market is likely drawn next
+export const drawOnLiquidity = (pools: LiquidityPool[], price: number) => {
+  const live = pools.filter(p => !p.swept);
+  const above = live.filter(p => p.side === 'buy' && p.price > price).sort((a, b) => a.price - b.price)[0];
+  const below = live.filter(p => p.side === 'sell' && p.price < price).sort((a, b) => b.price - a.price)[0];
+  return { above, below };
+};
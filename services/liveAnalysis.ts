@@ -0,0 +1,207 @@
+
+import { Candle, AnalysisResult, Config, HTFBias } from '../types';
+import { AnalysisState, advanceAnalysis, confirmedAnalysis, formingAnalysis, sameCandle } from './technicalAnalysis';
+
+// Which chart a series belongs to, echoed back with its results
+export interface AnalysisTarget {
+  symbol: string;
+  interval: string;
+}
+
+export interface AnalysisUpdate {
+  // What the terminal shows: the forming bar in intrabar mode, the last closed bar otherwise
+  result: AnalysisResult;
+  // The last closed bar's analysis, sent once per bar and again after a config change
+  confirmed?: { time: number; result: AnalysisResult };
+}
+
+// Main thread -> worker. `bars` replace the worker's copy of the target's
+// series from index `from` on; a full series is sent with `from` 0. Series
+// named in `release` are no longer followed and can be dropped.
+export interface AnalysisRequest {
+  seq: number;
+  target: AnalysisTarget;
+  from: number;
+  bars: Candle[];
+  config: Config;
+  htfBias?: HTFBias;
+  release?: string[];
+}
+
+export type AnalysisMessage =
+  | { type: 'result'; seq: number; target: AnalysisTarget; update: AnalysisUpdate }
+  | { type: 'error'; seq: number; target: AnalysisTarget; message: string };
+
+export const seriesKey = (target: AnalysisTarget) => `${target.symbol}@${target.interval}`;
+
+export interface LiveAnalysis {
+  analyze: (target: AnalysisTarget, candles: Candle[], config: Config, htfBias?: HTFBias) => void;
+  dispose: () => void;
+}
+
+// Incremental analysis of one series across calls; the closed-bar analysis is
+// only rebuilt when a bar closes or the inputs change
+export const createAnalysisSession = () => {
+  let state: AnalysisState | undefined;
+  let confirmed: { key: string; time: number; result: AnalysisResult } | undefined;
+
+  const update = (candles: Candle[], config: Config, htfBias?: HTFBias): AnalysisUpdate => {
+    state = advanceAnalysis(state, candles, config);
+    let fresh: AnalysisUpdate['confirmed'];
+    if (state.committed > 0) {
+      const time = candles[state.committed - 1].time;
+      const key = JSON.stringify([candles[0].time, time, state.committed, config, htfBias]);
+      if (confirmed?.key !== key) {
+        confirmed = { key, time, result: confirmedAnalysis(state, candles, config, htfBias) };
+        fresh = { time, result: confirmed.result };
+      }
+    } else {
+      confirmed = undefined;
+    }
+    const result = config.signalMode === 'close' && confirmed ? confirmed.result : formingAnalysis(state, candles, config, htfBias);
+    return { result, confirmed: fresh };
+  };
+
+  const reset = () => {
+    state = undefined;
+    confirmed = undefined;
+  };
+
+  return { update, reset };
+};
+
+// The worker side: every followed series with its own session, updated from
+// requests in the order they arrive. Runs on this thread where there are no workers.
+export const createAnalysisHost = () => {
+  const series = new Map<string, { candles: Candle[]; session: ReturnType<typeof createAnalysisSession> }>();
+
+  return (request: AnalysisRequest): AnalysisMessage => {
+    const { seq, target, from, bars, config, htfBias, release } = request;
+    release?.forEach(key => series.delete(key));
+    const key = seriesKey(target);
+    let entry = series.get(key);
+    if (!entry) {
+      entry = { candles: [], session: createAnalysisSession() };
+      series.set(key, entry);
+    }
+    try {
+      entry.candles = from === 0 ? bars : [...entry.candles.slice(0, from), ...bars];
+      return { type: 'result', seq, target, update: entry.session.update(entry.candles, config, htfBias) };
+    } catch (err) {
+      series.delete(key);
+      return { type: 'error', seq, target, message: err instanceof Error ? err.message : String(err) };
+    }
+  };
+};
+
+// Series one client keeps in its worker; the least recently analysed beyond this are released
+const MAX_SERIES = 32;
+
+interface PendingRequest {
+  target: AnalysisTarget;
+  candles: Candle[];
+  config: Config;
+  htfBias?: HTFBias;
+}
+
+// Enough of a series the worker holds to tell whether new candles continue it
+interface SentSeries {
+  first: Candle;
+  lastClosed?: Candle;
+  length: number;
+}
+
+// Keeps one request in flight and only the newest one per series waiting
+// behind it, so a burst of ticks costs one analysis rather than a queue of
+// stale ones. Live ticks only resend the bars from the previously forming one
+// on; anything else (a new symbol, paged-in history) resends the whole series.
+export const createLiveAnalysis = (
+  onUpdate: (target: AnalysisTarget, update: AnalysisUpdate) => void,
+  onError: (message: string) => void
+): LiveAnalysis => {
+  // Without worker support the same host answers on this thread
+  const local = typeof Worker === 'undefined' ? createAnalysisHost() : null;
+  let worker: Worker | null = null;
+  let seq = 0;
+  let busy = false;
+  // Oldest series first, so none is starved by a busier one
+  const waiting = new Map<string, PendingRequest>();
+  // Least recently sent first
+  const sent = new Map<string, SentSeries>();
+
+  const continuesSent = (key: string, candles: Candle[]) => {
+    const prev = sent.get(key);
+    return prev !== undefined &&
+      candles.length >= prev.length &&
+      sameCandle(candles[0], prev.first) &&
+      (prev.lastClosed === undefined || sameCandle(candles[prev.length - 2], prev.lastClosed));
+  };
+
+  const send = ({ target, candles, config, htfBias }: PendingRequest) => {
+    const key = seriesKey(target);
+    const from = continuesSent(key, candles) ? sent.get(key)!.length - 1 : 0;
+    sent.delete(key);
+    const release: string[] = [];
+    for (const old of sent.keys()) {
+      if (sent.size - release.length < MAX_SERIES) break;
+      release.push(old);
+    }
+    release.forEach(old => sent.delete(old));
+    if (candles.length > 0) sent.set(key, { first: candles[0], lastClosed: candles[candles.length - 2], length: candles.length });
+
+    busy = true;
+    const request: AnalysisRequest = { seq: ++seq, target, from, bars: candles.slice(from), config, htfBias, release };
+    if (local) receive(local(request));
+    else (worker ??= spawn()).postMessage(request);
+  };
+
+  const sendWaiting = () => {
+    const next = waiting.values().next();
+    if (next.done) return;
+    waiting.delete(seriesKey(next.value.target));
+    send(next.value);
+  };
+
+  // The worker's copy of the series (of all of them, when the worker itself
+  // failed) can no longer be trusted: the next request resends it whole
+  const fail = (message: string, target?: AnalysisTarget) => {
+    busy = false;
+    if (target) sent.delete(seriesKey(target));
+    else sent.clear();
+    onError(message);
+    sendWaiting();
+  };
+
+  const receive = (msg: AnalysisMessage) => {
+    if (msg.type === 'error') {
+      fail(msg.message, msg.target);
+      return;
+    }
+    busy = false;
+    onUpdate(msg.target, msg.update);
+    sendWaiting();
+  };
+
+  const spawn = () => {
+    const w = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+    w.onmessage = (e: MessageEvent<AnalysisMessage>) => receive(e.data);
+    // A worker that failed to load or threw outside a request is replaced on the next one
+    w.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      w.terminate();
+      if (worker === w) worker = null;
+      fail(e.message || 'Analysis worker failed');
+    };
+    w.onmessageerror = () => fail('Analysis worker sent a message that could not be read');
+    return w;
+  };
+
+  return {
+    analyze: (target, candles, config, htfBias) => {
+      const request = { target, candles, config, htfBias };
+      if (busy) waiting.set(seriesKey(target), request);
+      else send(request);
+    },
+    dispose: () => worker?.terminate()
+  };
+};
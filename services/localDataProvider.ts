@@ -0,0 +1,188 @@
+
+import { Candle } from '../types';
+import { MarketDataProvider } from './marketData';
+import { intervalToMs } from './multiTimeframe';
+
+const TIME_KEYS = ['time', 'timestamp', 'date', 'datetime', 'open_time', 't'];
+const FIELD_KEYS: Record<Exclude<keyof Candle, 'time'>, string[]> = {
+  open: ['open', 'o'],
+  high: ['high', 'h'],
+  low: ['low', 'l'],
+  close: ['close', 'c'],
+  volume: ['volume', 'vol', 'v', 'tickvol', 'tick_volume'],
+};
+
+// Accepts epoch seconds, epoch milliseconds or any string Date.parse understands
+const parseTime = (raw: unknown): number => {
+  if (typeof raw === 'number') return raw < 1e11 ? raw * 1000 : raw;
+  const str = String(raw).trim();
+  if (/^\d+(\.\d+)?$/.test(str)) return parseTime(parseFloat(str));
+  return Date.parse(str);
+};
+
+const toCandle = (time: unknown, open: unknown, high: unknown, low: unknown, close: unknown, volume: unknown): Candle => ({
+  time: parseTime(time),
+  open: parseFloat(String(open)),
+  high: parseFloat(String(high)),
+  low: parseFloat(String(low)),
+  close: parseFloat(String(close)),
+  volume: volume === undefined || volume === '' ? 0 : parseFloat(String(volume))
+});
+
+const isUsable = (c: Candle) =>
+  [c.time, c.open, c.high, c.low, c.close, c.volume].every(Number.isFinite);
+
+// Sorts oldest-first and drops duplicate timestamps, keeping the last occurrence
+const normalizeSeries = (candles: Candle[]): Candle[] => {
+  const byTime = new Map<number, Candle>();
+  candles.filter(isUsable).forEach(c => byTime.set(c.time, c));
+  return [...byTime.values()].sort((a, b) => a.time - b.time);
+};
+
+const parseCsv = (text: string): Candle[] => {
+  const lines = text.split(/\r?\n/).map(l => l.trim()).filter(Boolean);
+  if (lines.length === 0) return [];
+  const delimiter = [',', ';', '\t'].find(d => lines[0].includes(d)) ?? ',';
+  const first = lines[0].split(delimiter).map(h => h.trim().toLowerCase().replace(/[<>"]/g, ''));
+
+  // Without a header the columns are taken as time,open,high,low,close[,volume]
+  const hasHeader = first.includes('open') || first.includes('o');
+  const col = (keys: string[], fallback: number) => {
+    if (!hasHeader) return fallback;
+    const idx = first.findIndex(h => keys.includes(h));
+    return idx >= 0 ? idx : -1;
+  };
+  const idx = {
+    time: col(TIME_KEYS, 0),
+    open: col(FIELD_KEYS.open, 1),
+    high: col(FIELD_KEYS.high, 2),
+    low: col(FIELD_KEYS.low, 3),
+    close: col(FIELD_KEYS.close, 4),
+    volume: col(FIELD_KEYS.volume, 5),
+  };
+  if ([idx.time, idx.open, idx.high, idx.low, idx.close].some(i => i < 0)) {
+    throw new Error('CSV is missing one of the time/open/high/low/close columns');
+  }
+
+  return (hasHeader ? lines.slice(1) : lines).map(line => {
+    const cells = line.split(delimiter).map(c => c.trim().replace(/^"|"$/g, ''));
+    return toCandle(cells[idx.time], cells[idx.open], cells[idx.high], cells[idx.low], cells[idx.close], idx.volume >= 0 ? cells[idx.volume] : undefined);
+  });
+};
+
+const parseJson = (text: string): Candle[] => {
+  const raw = JSON.parse(text);
+  const rows: unknown[] = Array.isArray(raw) ? raw : raw?.candles ?? raw?.data ?? [];
+  const pick = (row: Record<string, unknown>, keys: string[]) => {
+    const key = Object.keys(row).find(k => keys.includes(k.toLowerCase()));
+    return key !== undefined ? row[key] : undefined;
+  };
+
+  return rows.map(row => {
+    // Binance kline arrays: [openTime, open, high, low, close, volume, ...]
+    if (Array.isArray(row)) return toCandle(row[0], row[1], row[2], row[3], row[4], row[5]);
+    const r = row as Record<string, unknown>;
+    return toCandle(pick(r, TIME_KEYS), pick(r, FIELD_KEYS.open), pick(r, FIELD_KEYS.high), pick(r, FIELD_KEYS.low), pick(r, FIELD_KEYS.close), pick(r, FIELD_KEYS.volume));
+  });
+};
+
+export const parseCandleFile = (text: string, fileName: string): Candle[] => {
+  const isJson = fileName.toLowerCase().endsWith('.json') || /^\s*[[{]/.test(text);
+  return normalizeSeries(isJson ? parseJson(text) : parseCsv(text));
+};
+
+// Buckets candles into a coarser interval aligned to UTC epoch boundaries
+export const resampleCandles = (candles: Candle[], intervalMs: number): Candle[] => {
+  const out: Candle[] = [];
+  candles.forEach(c => {
+    const bucket = Math.floor(c.time / intervalMs) * intervalMs;
+    const last = out[out.length - 1];
+    if (last && last.time === bucket) {
+      last.high = Math.max(last.high, c.high);
+      last.low = Math.min(last.low, c.low);
+      last.close = c.close;
+      last.volume += c.volume;
+    } else {
+      out.push({ ...c, time: bucket });
+    }
+  });
+  return out;
+};
+
+export interface ReplayProvider extends MarketDataProvider {
+  // Replay speed in source bars per second; 0 pauses the stream
+  setSpeed: (barsPerSecond: number) => void;
+  getProgress: () => { index: number; total: number };
+}
+
+export interface ReplayOptions {
+  symbol: string;
+  // Bars treated as already-closed history before the replay starts
+  startIndex?: number;
+  barsPerSecond?: number;
+}
+
+// Serves a loaded file as if it were an exchange: history requests only see
+// bars up to the replay cursor, and subscribers receive each following bar (or
+// the forming higher-timeframe bar it belongs to) as the cursor advances.
+export const createReplayProvider = (source: Candle[], options: ReplayOptions): ReplayProvider => {
+  const nativeMs = source.length > 1 ? source[1].time - source[0].time : 60_000;
+  const listeners = new Set<{ interval: string; onUpdate: (candle: Candle) => void }>();
+  let cursor = Math.min(options.startIndex ?? 150, source.length - 1);
+  let speed = options.barsPerSecond ?? 1;
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  const seriesFor = (interval: string, upTo: number) => {
+    const visible = source.slice(0, upTo + 1);
+    const ms = intervalToMs(interval);
+    return ms > nativeMs ? resampleCandles(visible, ms) : visible;
+  };
+
+  const tick = () => {
+    if (cursor >= source.length - 1) {
+      stop();
+      return;
+    }
+    cursor++;
+    listeners.forEach(({ interval, onUpdate }) => {
+      const series = seriesFor(interval, cursor);
+      onUpdate(series[series.length - 1]);
+    });
+  };
+
+  const stop = () => {
+    if (timer) clearInterval(timer);
+    timer = null;
+  };
+
+  const start = () => {
+    stop();
+    if (speed > 0 && listeners.size > 0) timer = setInterval(tick, 1000 / speed);
+  };
+
+  return {
+    id: 'replay',
+    name: 'Local Replay',
+    listSymbols: async () => [{ symbol: options.symbol, name: 'Local file', short: options.symbol.slice(0, 6) }],
+    fetchKlines: async (symbol, interval, limit = 150, endTime) => {
+      const series = seriesFor(interval, cursor);
+      const bounded = endTime !== undefined ? series.filter(c => c.time <= endTime) : series;
+      return bounded.slice(-limit);
+    },
+    subscribeKlines: (symbol, interval, onUpdate, onStatus) => {
+      const listener = { interval, onUpdate };
+      listeners.add(listener);
+      onStatus?.('live');
+      if (!timer) start();
+      return () => {
+        listeners.delete(listener);
+        if (listeners.size === 0) stop();
+      };
+    },
+    setSpeed: (barsPerSecond) => {
+      speed = barsPerSecond;
+      start();
+    },
+    getProgress: () => ({ index: cursor, total: source.length })
+  };
+};
@@ -1,12 +1,43 @@
 
-import { Candle } from '../types';
+import { Candle, MarketSymbol } from '../types';
+import { intervalToMs } from './multiTimeframe';
+
+export type FeedStatus = 'connecting' | 'live' | 'stale' | 'reconnecting' | 'error';
+
+// Every data source the terminal can chart implements this contract. Candles are
+// returned oldest-first; the subscriber receives both updates to the forming bar
+// and newly opened bars, and the returned function tears the stream down.
+export interface MarketDataProvider {
+  id: string;
+  name: string;
+  listSymbols: () => Promise<MarketSymbol[]>;
+  fetchKlines: (symbol: string, interval: string, limit?: number, endTime?: number) => Promise<Candle[]>;
+  subscribeKlines: (
+    symbol: string,
+    interval: string,
+    onUpdate: (candle: Candle) => void,
+    onStatus?: (status: FeedStatus) => void
+  ) => () => void;
+}
+
+const BINANCE_SYMBOLS: MarketSymbol[] = [
+  { symbol: 'BTCUSDT', name: 'Bitcoin', icon: 'fa-brands fa-bitcoin text-orange-500', short: 'BTC' },
+  { symbol: 'ETHUSDT', name: 'Ethereum', icon: 'fa-brands fa-ethereum text-blue-400', short: 'ETH' },
+  { symbol: 'PAXGUSDT', name: 'Gold', icon: 'fa-solid fa-coins text-yellow-500', short: 'XAU' },
+  { symbol: 'SOLUSDT', name: 'Solana', icon: 'fa-solid fa-s text-purple-400', short: 'SOL' },
+  { symbol: 'BNBUSDT', name: 'Binance Coin', icon: 'fa-solid fa-b text-yellow-500', short: 'BNB' },
+  { symbol: 'XRPUSDT', name: 'Ripple', icon: 'fa-solid fa-x text-slate-300', short: 'XRP' },
+  { symbol: 'ADAUSDT', name: 'Cardano', icon: 'fa-solid fa-a text-blue-600', short: 'ADA' },
+  { symbol: 'DOGEUSDT', name: 'Dogecoin', icon: 'fa-solid fa-dog text-yellow-600', short: 'DOGE' },
+];
 
 const BINANCE_REST_URL = 'https://api.binance.com/api/v3/klines';
 const BINANCE_WS_URL = 'wss://stream.binance.com:9443/ws';
 
-export const fetchBinanceKlines = async (symbol: string, interval: string, limit: number = 150): Promise<Candle[]> => {
+export const fetchBinanceKlines = async (symbol: string, interval: string, limit: number = 150, endTime?: number): Promise<Candle[]> => {
   try {
-    const response = await fetch(`${BINANCE_REST_URL}?symbol=${symbol}&interval=${interval}&limit=${limit}`);
+    const range = endTime !== undefined ? `&endTime=${endTime}` : '';
+    const response = await fetch(`${BINANCE_REST_URL}?symbol=${symbol}&interval=${interval}&limit=${limit}${range}`);
     if (!response.ok) throw new Error('Network response was not ok');
     const data = await response.json();
     
@@ -24,27 +55,211 @@ export const fetchBinanceKlines = async (symbol: string, interval: string, limit
   }
 };
 
-export const subscribeToBinanceKlines = (symbol: string, interval: string, onUpdate: (candle: Candle) => void) => {
-  const ws = new WebSocket(`${BINANCE_WS_URL}/${symbol.toLowerCase()}@kline_${interval}`);
-  
-  ws.onmessage = (event) => {
-    const msg = JSON.parse(event.data);
-    const k = msg.k;
-    if (k) {
-      onUpdate({
-        time: k.t,
-        open: parseFloat(k.o),
-        high: parseFloat(k.h),
-        low: parseFloat(k.l),
-        close: parseFloat(k.c),
-        volume: parseFloat(k.v)
-      });
-    }
+const HEARTBEAT_CHECK_MS = 5_000;
+// Binance pushes a kline update roughly every second while the market trades
+const STALE_AFTER_MS = 15_000;
+const DEAD_AFTER_MS = 30_000;
+const BACKOFF_BASE_MS = 1_000;
+const BACKOFF_MAX_MS = 30_000;
+// After this many failed attempts the feed reports an error but keeps retrying
+const ERROR_AFTER_ATTEMPTS = 5;
+
+export const subscribeToBinanceKlines = (
+  symbol: string,
+  interval: string,
+  onUpdate: (candle: Candle) => void,
+  onStatus: (status: FeedStatus) => void = () => {}
+) => {
+  let ws: WebSocket | null = null;
+  let disposed = false;
+  let attempt = 0;
+  let lastMessageAt = 0;
+  let lastCandleTime: number | null = null;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let status: FeedStatus | null = null;
+  // Socket ticks held back while a backfill is in flight, so its REST snapshot
+  // of the forming bar cannot land on top of a newer tick
+  let backfilling = 0;
+  let held: Candle[] = [];
+
+  const setStatus = (next: FeedStatus) => {
+    if (next === status) return;
+    status = next;
+    onStatus(next);
+  };
+
+  const emit = (candle: Candle) => {
+    if (lastCandleTime === null || candle.time >= lastCandleTime) lastCandleTime = candle.time;
+    onUpdate(candle);
+  };
+
+  // Pull every bar printed while the socket was down through REST, oldest first,
+  // then replay the ticks that arrived meanwhile
+  const backfill = async (since: number) => {
+    const intervalMs = intervalToMs(interval) || 60_000;
+    const missing = Math.ceil((Date.now() - since) / intervalMs) + 2;
+    backfilling++;
+    const candles = await fetchBinanceKlines(symbol, interval, Math.min(1000, missing));
+    backfilling--;
+    if (disposed) return;
+    candles.filter(c => c.time >= since).forEach(emit);
+    if (backfilling > 0) return;
+    const ticks = held;
+    held = [];
+    ticks.forEach(emit);
   };
 
+  const scheduleReconnect = () => {
+    if (disposed || reconnectTimer) return;
+    attempt++;
+    setStatus(attempt > ERROR_AFTER_ATTEMPTS ? 'error' : 'reconnecting');
+    const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** (attempt - 1)) * (0.8 + Math.random() * 0.4);
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (disposed) return;
+    const isReconnect = attempt > 0;
+    if (!isReconnect) setStatus('connecting');
+    const socket = new WebSocket(`${BINANCE_WS_URL}/${symbol.toLowerCase()}@kline_${interval}`);
+    ws = socket;
+
+    socket.onopen = () => {
+      attempt = 0;
+      lastMessageAt = Date.now();
+      setStatus('live');
+      if (isReconnect && lastCandleTime !== null) backfill(lastCandleTime);
+    };
+
+    socket.onmessage = (event) => {
+      lastMessageAt = Date.now();
+      setStatus('live');
+      const msg = JSON.parse(event.data);
+      const k = msg.k;
+      if (k) {
+        const candle: Candle = {
+          time: k.t,
+          open: parseFloat(k.o),
+          high: parseFloat(k.h),
+          low: parseFloat(k.l),
+          close: parseFloat(k.c),
+          volume: parseFloat(k.v)
+        };
+        if (backfilling > 0) held.push(candle);
+        else emit(candle);
+      }
+    };
+
+    socket.onerror = (event) => {
+      console.error(`Kline stream error for ${symbol} ${interval}:`, event);
+    };
+
+    socket.onclose = () => {
+      if (ws === socket) ws = null;
+      scheduleReconnect();
+    };
+  };
+
+  // Heartbeat: a quiet socket is first reported stale, then recycled
+  const heartbeat = setInterval(() => {
+    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+    const silence = Date.now() - lastMessageAt;
+    if (silence > DEAD_AFTER_MS) {
+      ws.close();
+    } else if (silence > STALE_AFTER_MS) {
+      setStatus('stale');
+    }
+  }, HEARTBEAT_CHECK_MS);
+
+  connect();
+
   return () => {
-    if (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING) {
+    disposed = true;
+    clearInterval(heartbeat);
+    if (reconnectTimer) clearTimeout(reconnectTimer);
+    if (ws && (ws.readyState === WebSocket.OPEN || ws.readyState === WebSocket.CONNECTING)) {
       ws.close();
     }
   };
 };
+
+export const binanceProvider: MarketDataProvider = {
+  id: 'binance',
+  name: 'Binance',
+  listSymbols: async () => BINANCE_SYMBOLS,
+  fetchKlines: fetchBinanceKlines,
+  subscribeKlines: subscribeToBinanceKlines
+};
+
+// Loads a chart's history, then streams its live bars into `onUpdate`. Bars
+// that arrive before the history are dropped, so after a switch a tick for the
+// new chart never lands in the series still shown for the previous one.
+export const followKlines = (
+  provider: MarketDataProvider,
+  symbol: string,
+  interval: string,
+  limit: number,
+  onHistory: (candles: Candle[]) => void,
+  onUpdate: (candle: Candle) => void,
+  onStatus?: (status: FeedStatus) => void
+) => {
+  let active = true;
+  let loaded = false;
+
+  provider.fetchKlines(symbol, interval, limit).then(historical => {
+    if (!active || historical.length === 0) return;
+    loaded = true;
+    onHistory(historical);
+  });
+
+  const unsubscribe = provider.subscribeKlines(symbol, interval, (candle) => {
+    if (active && loaded) onUpdate(candle);
+  }, (status) => {
+    if (active) onStatus?.(status);
+  });
+
+  return () => {
+    active = false;
+    unsubscribe();
+  };
+};
+
+// Bars a live series may run past its length limit before it is trimmed
+const TRIM_STEP = 100;
+
+// Applies a streamed kline to a series: updates a bar already present (normally
+// the forming one), inserts late or backfilled bars in time order, and appends
+// new bars. Once the series runs TRIM_STEP bars past `maxLength` the oldest are
+// trimmed back to it in one go, so the first bar (and with it the analysis
+// state built from it) moves every TRIM_STEP bars rather than on every bar.
+// Bars older than the series start are dropped.
+export const mergeCandle = (series: Candle[], candle: Candle, maxLength: number = 200): Candle[] => {
+  const updated = [...series];
+  const lastIdx = updated.length - 1;
+
+  if (lastIdx < 0 || candle.time > updated[lastIdx].time) {
+    updated.push(candle);
+  } else {
+    for (let i = lastIdx; i >= 0; i--) {
+      if (updated[i].time === candle.time) {
+        updated[i] = candle;
+        break;
+      }
+      if (updated[i].time < candle.time) {
+        updated.splice(i + 1, 0, candle);
+        break;
+      }
+    }
+  }
+  return updated.length > maxLength + TRIM_STEP ? updated.slice(-maxLength) : updated;
+};
+
+// Joins a page of older history onto the front of a series, skipping any bars
+// the series already holds.
+export const prependCandles = (series: Candle[], older: Candle[]): Candle[] => {
+  if (series.length === 0) return older;
+  return [...older.filter(c => c.time < series[0].time), ...series];
+};
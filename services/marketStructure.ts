@@ -0,0 +1,102 @@
+
+import { Candle, MarketStructure, SwingPivot, Trend } from '../types';
+
+// `len` bars on the left must be beaten, and `right` bars on the right (the
+// confirmation), which defaults to the same depth
+export const pivotAt = (candles: Candle[], i: number, type: 'high' | 'low', len: number, right: number = len): SwingPivot | null => {
+  if (i < len || i + right >= candles.length) return null;
+  for (let j = 1; j <= Math.max(len, right); j++) {
+    const left = j <= len ? candles[i - j] : undefined;
+    const next = j <= right ? candles[i + j] : undefined;
+    if (type === 'high') {
+      if ((left && candles[i].high <= left.high) || (next && candles[i].high <= next.high)) return null;
+    } else {
+      if ((left && candles[i].low >= left.low) || (next && candles[i].low >= next.low)) return null;
+    }
+  }
+  return { val: type === 'high' ? candles[i].high : candles[i].low, idx: i, time: candles[i].time };
+};
+
+export const findPivots = (candles: Candle[], type: 'high' | 'low', len: number, right: number = len): SwingPivot[] => {
+  const p: SwingPivot[] = [];
+  for (let i = len; i < candles.length - right; i++) {
+    const pivot = pivotAt(candles, i, type, len, right);
+    if (pivot) p.push(pivot);
+  }
+  return p;
+};
+
+export interface StructureState {
+  events: MarketStructure[];
+  trend: Trend;
+}
+
+// Structure replay state between bars: the live swing levels and how far into
+// each pivot list they have been promoted
+export interface StructureCursor extends StructureState {
+  swingHigh: SwingPivot | null;
+  swingLow: SwingPivot | null;
+  hi: number;
+  lo: number;
+}
+
+export const createStructureCursor = (): StructureCursor => ({ events: [], trend: null, swingHigh: null, swingLow: null, hi: 0, lo: 0 });
+
+// Replays one bar. A pivot only becomes a live swing level once `len` bars
+// have printed after it (that is when it is known to be a pivot), and it is
+// broken by a candle *closing* beyond it. A break in the direction of the
+// current trend is a BOS; a break against it flips the trend and is a ChoCh.
+// Mutates the cursor; callers that need the old state copy it first.
+export const stepStructure = (
+  cursor: StructureCursor,
+  candles: Candle[],
+  i: number,
+  highPivots: SwingPivot[],
+  lowPivots: SwingPivot[],
+  len: number
+) => {
+  // Promote pivots that are confirmed as of this bar
+  while (cursor.hi < highPivots.length && highPivots[cursor.hi].idx + len <= i) cursor.swingHigh = highPivots[cursor.hi++];
+  while (cursor.lo < lowPivots.length && lowPivots[cursor.lo].idx + len <= i) cursor.swingLow = lowPivots[cursor.lo++];
+
+  const c = candles[i];
+
+  if (cursor.swingHigh && c.close > cursor.swingHigh.val) {
+    cursor.events.push({
+      type: cursor.trend === 'bearish' ? 'ChoCh' : 'BOS',
+      direction: 'bullish',
+      price: cursor.swingHigh.val,
+      index: i,
+      time: c.time,
+      pivotIndex: cursor.swingHigh.idx,
+      pivotTime: cursor.swingHigh.time
+    });
+    cursor.trend = 'bullish';
+    cursor.swingHigh = null;
+  }
+
+  if (cursor.swingLow && c.close < cursor.swingLow.val) {
+    cursor.events.push({
+      type: cursor.trend === 'bullish' ? 'ChoCh' : 'BOS',
+      direction: 'bearish',
+      price: cursor.swingLow.val,
+      index: i,
+      time: c.time,
+      pivotIndex: cursor.swingLow.idx,
+      pivotTime: cursor.swingLow.time
+    });
+    cursor.trend = 'bearish';
+    cursor.swingLow = null;
+  }
+};
+
+export const detectMarketStructure = (
+  candles: Candle[],
+  highPivots: SwingPivot[],
+  lowPivots: SwingPivot[],
+  len: number
+): StructureState => {
+  const cursor = createStructureCursor();
+  for (let i = 0; i < candles.length; i++) stepStructure(cursor, candles, i, highPivots, lowPivots, len);
+  return { events: cursor.events, trend: cursor.trend };
+};
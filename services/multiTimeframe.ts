@@ -0,0 +1,56 @@
+
+import { Candle, AnalysisResult, HTFBias } from '../types';
+
+export const INTERVAL_MS: Record<string, number> = {
+  '1m': 60_000,
+  '5m': 5 * 60_000,
+  '15m': 15 * 60_000,
+  '30m': 30 * 60_000,
+  '1h': 60 * 60_000,
+  '4h': 4 * 60 * 60_000,
+  '1d': 24 * 60 * 60_000,
+};
+
+export const EXECUTION_INTERVALS = ['1m', '5m', '15m', '30m', '1h'];
+export const HIGHER_INTERVALS = ['1h', '4h', '1d'];
+
+export const intervalToMs = (interval: string) => INTERVAL_MS[interval] ?? 0;
+
+export interface TimeframeAnalysis {
+  interval: string;
+  candles: Candle[];
+  analysis: AnalysisResult;
+}
+
+// Each higher timeframe casts one vote from its structure trend, plus one vote
+// when price is currently trading inside one of its live order blocks or FVGs.
+// Larger timeframes carry more weight so a 1d trend outranks a 1h zone tap.
+export const computeHTFBias = (timeframes: TimeframeAnalysis[]): HTFBias => {
+  let score = 0;
+  const votes: HTFBias['votes'] = [];
+
+  timeframes.forEach(({ interval, candles, analysis }) => {
+    const last = candles[candles.length - 1];
+    if (!last) return;
+    const weight = Math.max(1, Math.log2(intervalToMs(interval) / INTERVAL_MS['1h']) + 1);
+
+    let vote = 0;
+    if (analysis.trend === 'bullish') vote += 1;
+    if (analysis.trend === 'bearish') vote -= 1;
+
+    const zones = [...analysis.orderBlocks, ...analysis.fvgs].filter(z => z.isValid);
+    const inBullZone = zones.some(z => z.type === 'bullish' && last.close >= z.bottom && last.close <= z.top);
+    const inBearZone = zones.some(z => z.type === 'bearish' && last.close >= z.bottom && last.close <= z.top);
+    if (inBullZone) vote += 1;
+    if (inBearZone) vote -= 1;
+
+    votes.push({ interval, trend: analysis.trend, inBullZone, inBearZone, vote });
+    score += vote * weight;
+  });
+
+  return {
+    direction: score > 0 ? 'bullish' : score < 0 ? 'bearish' : 'neutral',
+    score,
+    votes
+  };
+};
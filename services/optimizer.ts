@@ -0,0 +1,229 @@
+
+import { Candle, Config, BacktestResult, OptimizableParameter, OptimizerMetric, OptimizerResult, OptimizerRun, OptimizerSettings, ParameterRange, WalkForwardFold } from '../types';
+import { DEFAULT_BACKTEST_WINDOW, runBacktest, summarizeTrades } from './backtest';
+
+export const OPTIMIZABLE_PARAMETERS: { key: OptimizableParameter; label: string }[] = [
+  { key: 'swingLength', label: 'Swing Depth' },
+  { key: 'scoreThreshold', label: 'Score Threshold' },
+  { key: 'rrRatio', label: 'Risk:Reward' },
+  { key: 'slBuffer', label: 'SL Buffer %' },
+  { key: 'obLookback', label: 'OB Lookback' },
+  { key: 'obImpulse', label: 'OB Impulse x' },
+];
+
+export const OPTIMIZER_METRICS: { metric: OptimizerMetric; label: string }[] = [
+  { metric: 'expectancy', label: 'Expectancy' },
+  { metric: 'profitFactor', label: 'Profit F.' },
+  { metric: 'sharpe', label: 'Sharpe' },
+];
+
+export const DEFAULT_OPTIMIZER_SETTINGS: OptimizerSettings = {
+  method: 'random',
+  samples: 40,
+  metric: 'expectancy',
+  folds: 3,
+  trainRatio: 0.7,
+  ranges: [
+    { key: 'swingLength', enabled: true, min: 3, max: 7, step: 2 },
+    { key: 'scoreThreshold', enabled: true, min: 1.5, max: 3.5, step: 1 },
+    { key: 'rrRatio', enabled: true, min: 1.5, max: 3, step: 0.5 },
+    { key: 'slBuffer', enabled: true, min: 0, max: 0.2, step: 0.1 },
+    { key: 'obLookback', enabled: false, min: 1, max: 16, step: 5 },
+    { key: 'obImpulse', enabled: false, min: 1, max: 2, step: 0.2 },
+  ]
+};
+
+// Grids beyond this go to the random search instead
+export const MAX_GRID_RUNS = 400;
+// Each walk-forward test slice needs room for a few trades
+const MIN_TEST_BARS = 50;
+// Candidates with fewer training trades than this rank below every other one
+const MIN_TRAIN_TRADES = 5;
+// A run with no losing trades would otherwise top the profit factor table on one win
+const PROFIT_FACTOR_CAP = 10;
+
+// Step values from min to max inclusive, trimmed of float noise
+export const rangeValues = (range: ParameterRange): number[] => {
+  if (!range.enabled || range.step <= 0 || range.max < range.min) return [];
+  const values: number[] = [];
+  for (let v = range.min; v <= range.max + range.step * 1e-6; v += range.step) values.push(+v.toFixed(6));
+  return values;
+};
+
+export const countCombinations = (settings: OptimizerSettings) =>
+  settings.ranges.filter(r => r.enabled).reduce((count, r) => count * rangeValues(r).length, 1);
+
+// Null when the sweep settings are usable, otherwise why they are not
+export const validateOptimizer = (settings: OptimizerSettings): string | null => {
+  const active = settings.ranges.filter(r => r.enabled);
+  if (active.length === 0) return 'Enable at least one parameter';
+  const bad = active.find(r => r.step <= 0 || r.max < r.min);
+  if (bad) return `${OPTIMIZABLE_PARAMETERS.find(p => p.key === bad.key)?.label}: min must not exceed max and step must be positive`;
+  if (settings.method === 'grid' && countCombinations(settings) > MAX_GRID_RUNS) return `Grid has ${countCombinations(settings)} runs; narrow it to ${MAX_GRID_RUNS} or use random search`;
+  return null;
+};
+
+const testLength = (barCount: number, settings: OptimizerSettings) =>
+  Math.floor(barCount * (1 - settings.trainRatio) / settings.folds);
+
+// Fewest bars that give every fold a full test slice
+export const requiredBars = (settings: OptimizerSettings) => {
+  let bars = Math.ceil(MIN_TEST_BARS * settings.folds / (1 - settings.trainRatio) - 1e-9);
+  while (testLength(bars, settings) < MIN_TEST_BARS) bars++;
+  return bars;
+};
+
+// Rolling walk-forward: every fold trains on the same number of bars and tests
+// on the slice straight after, so the test slices tile the end of the series
+const walkForwardFolds = (barCount: number, settings: OptimizerSettings) => {
+  const test = testLength(barCount, settings);
+  const train = barCount - test * settings.folds;
+  return Array.from({ length: settings.folds }, (_, k) => ({
+    train: { start: k * test, end: k * test + train },
+    test: { start: k * test + train, end: k * test + train + test }
+  }));
+};
+
+const candidates = (base: Config, settings: OptimizerSettings): Pick<Config, OptimizableParameter>[] => {
+  const baseParams = Object.fromEntries(OPTIMIZABLE_PARAMETERS.map(({ key }) => [key, base[key]])) as Pick<Config, OptimizableParameter>;
+  const axes = settings.ranges.filter(r => r.enabled).map(r => ({ key: r.key, values: rangeValues(r) }));
+
+  if (settings.method === 'grid') {
+    return axes.reduce(
+      (combos, { key, values }) => combos.flatMap(combo => values.map(v => ({ ...combo, [key]: v }))),
+      [baseParams]
+    );
+  }
+
+  // Random draws on the same step lattice, each combination at most once
+  const total = countCombinations(settings);
+  const seen = new Set<string>();
+  const picked: Pick<Config, OptimizableParameter>[] = [];
+  while (picked.length < Math.min(settings.samples, total)) {
+    const combo = { ...baseParams };
+    axes.forEach(({ key, values }) => { combo[key] = values[Math.floor(Math.random() * values.length)]; });
+    const id = axes.map(({ key }) => combo[key]).join(':');
+    if (seen.has(id)) continue;
+    seen.add(id);
+    picked.push(combo);
+  }
+  return picked;
+};
+
+export const metricValue = (result: BacktestResult, metric: OptimizerMetric): number => {
+  if (metric === 'expectancy') return result.expectancy;
+  if (metric === 'profitFactor') return Math.min(result.profitFactor, PROFIT_FACTOR_CAP);
+  // Per-trade Sharpe on R multiples, not annualised
+  const rs = result.trades.filter(t => t.outcome !== 'open').map(t => t.rMultiple);
+  if (rs.length < 2) return 0;
+  const mean = rs.reduce((a, b) => a + b, 0) / rs.length;
+  const sd = Math.sqrt(rs.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (rs.length - 1));
+  return sd > 0 ? mean / sd : 0;
+};
+
+// Backtests bars [start, end) with enough earlier bars in front to warm the analysis up
+const backtestSlice = (candles: Candle[], config: Config, start: number, end: number) => {
+  const from = Math.max(0, start - DEFAULT_BACKTEST_WINDOW);
+  const warmup = Math.max(start - from, config.swingLength + config.pivotConfirmation + 1);
+  return runBacktest(candles.slice(from, end), config, { warmup });
+};
+
+// Best first, with candidates short of training trades behind the rest
+const byScore = (a: { score: number; trades: number }, b: { score: number; trades: number }) =>
+  Number(b.trades >= MIN_TRAIN_TRADES) - Number(a.trades >= MIN_TRAIN_TRADES) || b.score - a.score;
+
+// Walk-forward: each fold picks its best candidate on the training slice alone
+// and trades it on the test slice after, so the stitched test trades are what
+// re-optimising on a schedule would have earned
+export const runOptimization = (
+  candles: Candle[],
+  base: Config,
+  settings: OptimizerSettings,
+  onProgress?: (done: number, total: number) => void
+): OptimizerResult => {
+  if (candles.length < requiredBars(settings)) throw new Error(`Need ${requiredBars(settings)} bars for ${settings.folds} folds; only ${candles.length} loaded`);
+  const folds = walkForwardFolds(candles.length, settings);
+  const combos = candidates(base, settings);
+  const train = folds[0].train.end;
+  const total = combos.length * (folds.length + 1) + folds.length;
+  let done = 0;
+
+  const rank = (start: number, end: number) => combos
+    .map(params => {
+      const result = backtestSlice(candles, { ...base, ...params }, start, end);
+      onProgress?.(++done, total);
+      return { params, score: metricValue(result, settings.metric), trades: result.totalTrades };
+    })
+    .sort(byScore);
+
+  const tested = folds.map(f => {
+    const best = rank(f.train.start, f.train.end)[0];
+    const result = backtestSlice(candles, { ...base, ...best.params }, f.test.start, f.test.end);
+    onProgress?.(++done, total);
+    return { best, result };
+  });
+  const picks: WalkForwardFold[] = tested.map(({ best, result }) => ({
+    params: best.params,
+    inSample: best.score,
+    outOfSample: metricValue(result, settings.metric),
+    testTrades: result.totalTrades,
+    netR: result.netR
+  }));
+  const stitched = summarizeTrades(tested.flatMap(({ result }) => result.trades));
+  const inSample = picks.reduce((sum, f) => sum + f.inSample, 0) / picks.length;
+  const outOfSample = metricValue(stitched, settings.metric);
+
+  // What to apply going forward: the candidates fitted on the latest bars
+  const runs: OptimizerRun[] = rank(candles.length - train, candles.length).map(run => ({
+    ...run,
+    picks: picks.filter(f => OPTIMIZABLE_PARAMETERS.every(({ key }) => f.params[key] === run.params[key])).length
+  }));
+
+  return {
+    folds: picks,
+    inSample,
+    outOfSample,
+    efficiency: inSample > 0 ? outOfSample / inSample : null,
+    testTrades: stitched.totalTrades,
+    netR: stitched.netR,
+    profitableFolds: picks.filter(f => f.netR > 0).length,
+    runs
+  };
+};
+
+export type OptimizerMessage =
+  | { type: 'progress'; done: number; total: number }
+  | { type: 'done'; result: OptimizerResult }
+  | { type: 'error'; message: string };
+
+export interface OptimizerRequest {
+  candles: Candle[];
+  config: Config;
+  settings: OptimizerSettings;
+}
+
+// Runs the sweep off the main thread; `cancel` terminates the worker and the promise never settles
+export const startOptimization = (
+  request: OptimizerRequest,
+  onProgress: (done: number, total: number) => void
+): { result: Promise<OptimizerResult>; cancel: () => void } => {
+  const worker = new Worker(new URL('./optimizer.worker.ts', import.meta.url), { type: 'module' });
+  const result = new Promise<OptimizerResult>((resolve, reject) => {
+    worker.onmessage = (e: MessageEvent<OptimizerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'progress') {
+        onProgress(msg.done, msg.total);
+        return;
+      }
+      worker.terminate();
+      if (msg.type === 'done') resolve(msg.result);
+      else reject(new Error(msg.message));
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'Optimizer worker failed'));
+    };
+  });
+  worker.postMessage(request);
+  return { result, cancel: () => worker.terminate() };
+};
@@ -0,0 +1,14 @@
+
+import { OptimizerMessage, OptimizerRequest, runOptimization } from './optimizer';
+
+const post = (msg: OptimizerMessage) => self.postMessage(msg);
+
+self.onmessage = (e: MessageEvent<OptimizerRequest>) => {
+  const { candles, config, settings } = e.data;
+  try {
+    const result = runOptimization(candles, config, settings, (done, total) => post({ type: 'progress', done, total }));
+    post({ type: 'done', result });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
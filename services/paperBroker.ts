@@ -0,0 +1,158 @@
+
+import { Candle, PaperAccount, PaperOrder, PaperPosition, ClosedTrade, OrderSide } from '../types';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const createPaperAccount = (startingBalance: number = 10000): PaperAccount => ({
+  startingBalance,
+  balance: startingBalance,
+  orders: [],
+  positions: [],
+  journal: []
+});
+
+const direction = (side: OrderSide) => (side === 'BUY' ? 1 : -1);
+
+export const positionPnl = (position: PaperPosition, price: number) =>
+  (price - position.entryPrice) * direction(position.side) * position.quantity;
+
+export const positionRisk = (position: PaperPosition) =>
+  Math.abs(position.entryPrice - position.initialSlPrice) * position.quantity;
+
+export const accountEquity = (account: PaperAccount, prices: Record<string, number>) =>
+  account.balance + account.positions.reduce((sum, p) => sum + (prices[p.symbol] !== undefined ? positionPnl(p, prices[p.symbol]) : 0), 0);
+
+const openPosition = (order: PaperOrder, price: number, time: number): PaperPosition => ({
+  id: order.id,
+  symbol: order.symbol,
+  side: order.side,
+  entryPrice: price,
+  quantity: order.quantity,
+  slPrice: order.slPrice,
+  initialSlPrice: order.slPrice,
+  tpPrice: order.tpPrice,
+  breakEvenAtR: order.breakEvenAtR,
+  openedAt: time
+});
+
+export type OrderInput = Omit<PaperOrder, 'id' | 'createdAt'>;
+
+// Market orders fill immediately at the last price; limit and stop orders rest
+// until a later candle trades through their price.
+export const placeOrder = (account: PaperAccount, input: OrderInput, lastCandle: Candle): PaperAccount => {
+  const order: PaperOrder = { ...input, id: newId(), createdAt: lastCandle.time };
+  if (order.type === 'market') {
+    return { ...account, positions: [...account.positions, openPosition(order, lastCandle.close, lastCandle.time)] };
+  }
+  return { ...account, orders: [...account.orders, order] };
+};
+
+export const cancelOrder = (account: PaperAccount, orderId: string): PaperAccount => ({
+  ...account,
+  orders: account.orders.filter(o => o.id !== orderId)
+});
+
+export const updatePosition = (account: PaperAccount, positionId: string, changes: Partial<Pick<PaperPosition, 'slPrice' | 'tpPrice'>>): PaperAccount => ({
+  ...account,
+  positions: account.positions.map(p => (p.id === positionId ? { ...p, ...changes } : p))
+});
+
+export const moveToBreakEven = (account: PaperAccount, positionId: string): PaperAccount =>
+  updatePosition(account, positionId, { slPrice: account.positions.find(p => p.id === positionId)?.entryPrice });
+
+export const closePosition = (
+  account: PaperAccount,
+  positionId: string,
+  exitPrice: number,
+  closedAt: number,
+  reason: ClosedTrade['reason'] = 'manual'
+): PaperAccount => {
+  const position = account.positions.find(p => p.id === positionId);
+  if (!position) return account;
+
+  const pnl = positionPnl(position, exitPrice);
+  const risk = positionRisk(position);
+  const trade: ClosedTrade = {
+    id: position.id,
+    symbol: position.symbol,
+    side: position.side,
+    entryPrice: position.entryPrice,
+    exitPrice,
+    quantity: position.quantity,
+    openedAt: position.openedAt,
+    closedAt,
+    pnl,
+    rMultiple: risk > 0 ? pnl / risk : 0,
+    reason
+  };
+
+  return {
+    ...account,
+    balance: account.balance + pnl,
+    positions: account.positions.filter(p => p.id !== positionId),
+    journal: [trade, ...account.journal]
+  };
+};
+
+// Runs one streamed candle through the book for its symbol. The stream delivers
+// the forming bar repeatedly, so anything that opened on this bar only sees the
+// latest close; its earlier high/low happened before it existed.
+export const processCandle = (account: PaperAccount, symbol: string, candle: Candle): PaperAccount => {
+  let next = account;
+
+  // 1. Pending orders
+  next.orders.filter(o => o.symbol === symbol).forEach(order => {
+    const sameBar = order.createdAt >= candle.time;
+    const high = sameBar ? candle.close : candle.high;
+    const low = sameBar ? candle.close : candle.low;
+    const price = order.price!;
+
+    const triggered = order.type === 'limit'
+      ? (order.side === 'BUY' ? low <= price : high >= price)
+      : (order.side === 'BUY' ? high >= price : low <= price);
+    if (!triggered) return;
+
+    // A limit fills at its price; a stop fills at its price or worse on a gap
+    const fillPrice = order.type === 'limit'
+      ? price
+      : order.side === 'BUY' ? Math.max(price, sameBar ? candle.close : candle.open) : Math.min(price, sameBar ? candle.close : candle.open);
+
+    next = {
+      ...next,
+      orders: next.orders.filter(o => o.id !== order.id),
+      positions: [...next.positions, openPosition(order, fillPrice, candle.time)]
+    };
+  });
+
+  // 2. Open positions: stop first when both levels sit inside the bar
+  next.positions.filter(p => p.symbol === symbol).forEach(position => {
+    const sameBar = position.openedAt >= candle.time;
+    const high = sameBar ? candle.close : candle.high;
+    const low = sameBar ? candle.close : candle.low;
+    const isBuy = position.side === 'BUY';
+
+    const hitSL = isBuy ? low <= position.slPrice : high >= position.slPrice;
+    const hitTP = position.tpPrice !== undefined && (isBuy ? high >= position.tpPrice : low <= position.tpPrice);
+
+    if (hitSL) {
+      const reason = position.slPrice === position.entryPrice ? 'breakeven' : 'sl';
+      next = closePosition(next, position.id, position.slPrice, candle.time, reason);
+      return;
+    }
+    if (hitTP) {
+      next = closePosition(next, position.id, position.tpPrice!, candle.time, 'tp');
+      return;
+    }
+
+    // Auto break-even once price has run the configured multiple of initial risk
+    if (position.breakEvenAtR !== undefined && position.slPrice !== position.entryPrice) {
+      const riskPerUnit = Math.abs(position.entryPrice - position.initialSlPrice);
+      const trigger = position.entryPrice + direction(position.side) * riskPerUnit * position.breakEvenAtR;
+      if (isBuy ? high >= trigger : low <= trigger) {
+        next = moveToBreakEven(next, position.id);
+      }
+    }
+  });
+
+  return next;
+};
@@ -0,0 +1,86 @@
+
+import { Config, ConfigPreset, NumericParameter } from '../types';
+import { DEFAULT_SCORE_THRESHOLD, DEFAULT_SCORING } from './scoring';
+import { DEFAULT_KILLZONES } from './sessions';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+export const DEFAULT_CONFIG: Config = {
+  swingLength: 5,
+  pivotConfirmation: 5,
+  obLookback: 10,
+  obImpulse: 1.2,
+  fvgSizeRatio: 0.3,
+  fvgMinSize: 0,
+  fvgSizeUnit: 'atr',
+  displacement: 0,
+  chartPadding: 0.1,
+  scoring: DEFAULT_SCORING,
+  scoreThreshold: DEFAULT_SCORE_THRESHOLD,
+  rrRatio: 2.0,
+  slBuffer: 0.1,
+  htfFilter: 'block',
+  entryMode: 'market',
+  signalMode: 'close',
+  liquidityTolerance: 0.05,
+  killzones: DEFAULT_KILLZONES
+};
+
+export interface ParameterLimit {
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+export const PARAMETER_LIMITS: Record<NumericParameter, ParameterLimit> = {
+  swingLength: { label: 'Swing Depth', min: 2, max: 10, step: 1, integer: true },
+  pivotConfirmation: { label: 'Pivot Confirm Bars', min: 1, max: 10, step: 1, integer: true },
+  obLookback: { label: 'OB Lookback Bars', min: 1, max: 50, step: 1, integer: true },
+  obImpulse: { label: 'OB Impulse x', min: 0.5, max: 5, step: 0.1 },
+  fvgSizeRatio: { label: 'FVG Size Ratio', min: 0, max: 1, step: 0.05 },
+  fvgMinSize: { label: 'FVG Min Size', min: 0, max: 1000, step: 0.1 },
+  displacement: { label: 'Displacement ATR', min: 0, max: 5, step: 0.1 },
+  chartPadding: { label: 'Y-Axis Padding %', min: 0, max: 5, step: 0.05 }
+};
+
+// Null when the value is usable, otherwise why it is not
+export const validateParameter = (key: NumericParameter, value: number): string | null => {
+  const limit = PARAMETER_LIMITS[key];
+  if (!Number.isFinite(value)) return `${limit.label} must be a number`;
+  if (limit.integer && !Number.isInteger(value)) return `${limit.label} must be a whole number`;
+  if (value < limit.min || value > limit.max) return `${limit.label} must be between ${limit.min} and ${limit.max}`;
+  return null;
+};
+
+// Fills fields added since a preset was saved and pulls stray numbers back into range
+export const sanitizeConfig = (saved: Partial<Config>): Config => {
+  const config: Config = { ...DEFAULT_CONFIG, ...saved, scoring: { ...DEFAULT_CONFIG.scoring, ...saved.scoring } };
+  (Object.keys(PARAMETER_LIMITS) as NumericParameter[]).forEach(key => {
+    if (validateParameter(key, config[key]) === null) return;
+    const { min, max, integer } = PARAMETER_LIMITS[key];
+    const value = integer ? Math.round(config[key]) : config[key];
+    config[key] = Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : DEFAULT_CONFIG[key];
+  });
+  return config;
+};
+
+export const createPreset = (name: string, symbol: string, config: Config): ConfigPreset => ({
+  id: newId(),
+  name: name.trim(),
+  symbol,
+  config,
+  savedAt: Date.now()
+});
+
+// Saving under a name the symbol already uses overwrites that preset
+export const upsertPreset = (presets: ConfigPreset[], preset: ConfigPreset): ConfigPreset[] => {
+  const existing = presets.find(p => p.symbol === preset.symbol && p.name.toLowerCase() === preset.name.toLowerCase());
+  return existing
+    ? presets.map(p => p.id === existing.id ? { ...preset, id: existing.id } : p)
+    : [...presets, preset];
+};
+
+export const presetsForSymbol = (presets: ConfigPreset[], symbol: string) =>
+  presets.filter(p => p.symbol === symbol).sort((a, b) => a.name.localeCompare(b.name));
@@ -0,0 +1,119 @@
+
+import { Candle, FVG, MarketStructure, OrderBlock, PDArray, PDArrayKind } from '../types';
+
+// Opposing FVGs further apart than this never balance each other
+const BPR_MAX_SPACING = 20;
+
+type Zone = { type: 'bullish' | 'bearish'; top: number; bottom: number };
+
+const opposite = (type: Zone['type']): Zone['type'] => type === 'bullish' ? 'bearish' : 'bullish';
+
+// A close beyond the zone's far edge
+export const closesThrough = (zone: Zone, c: Candle) =>
+  zone.type === 'bullish' ? c.close < zone.bottom : c.close > zone.top;
+
+// Replay state for one array: as formed, and the invalidated copy once price
+// has closed through it
+export interface PDArrayTracker {
+  array: PDArray;
+  closed?: PDArray;
+}
+
+export const trackArray = (array: PDArray): PDArrayTracker => ({ array });
+
+// Every array stays live until a close through its far edge. Returns a new
+// tracker when bar j changes it, like the zone trackers.
+export const advanceArray = (tracker: PDArrayTracker, c: Candle, j: number): PDArrayTracker => {
+  if (tracker.closed || j <= tracker.array.index || !closesThrough(tracker.array, c)) return tracker;
+  return { array: tracker.array, closed: { ...tracker.array, isValid: false, invalidatedIndex: j, invalidatedTime: c.time } };
+};
+
+// Tracker for an array found late, caught up on the bars before i
+export const replayArray = (array: PDArray, candles: Candle[], i: number): PDArrayTracker => {
+  let tracker = trackArray(array);
+  for (let j = array.index + 1; j < i; j++) tracker = advanceArray(tracker, candles[j], j);
+  return tracker;
+};
+
+export const arraySnapshot = (tracker: PDArrayTracker): PDArray => tracker.closed ?? tracker.array;
+
+// An OB closed through at `failIdx` with structure breaking the same way flips
+// into a breaker when its move had taken the prior swing first, a mitigation
+// block otherwise. Undefined while that break can still come as of bar i, null
+// once it cannot.
+export const failedOrderBlock = (
+  candles: Candle[],
+  ob: OrderBlock,
+  failIdx: number,
+  structure: MarketStructure[],
+  swingLength: number,
+  i: number
+): PDArray | null | undefined => {
+  const flipped = opposite(ob.type);
+  let brokeStructure = false;
+  for (let e = structure.length - 1; e >= 0 && structure[e].index > ob.index && !brokeStructure; e--) {
+    brokeStructure = structure[e].direction === flipped && structure[e].index <= failIdx + swingLength;
+  }
+  if (!brokeStructure) return i >= failIdx + swingLength ? null : undefined;
+
+  const isBull = ob.type === 'bullish';
+  const before = candles.slice(Math.max(0, ob.index - swingLength * 2), ob.index);
+  const after = candles.slice(ob.index + 1, failIdx);
+  if (before.length === 0 || after.length === 0) return null;
+  const ranPriorSwing = isBull
+    ? Math.max(...after.map(c => c.high)) > Math.max(...before.map(c => c.high))
+    : Math.min(...after.map(c => c.low)) < Math.min(...before.map(c => c.low));
+
+  return {
+    kind: ranPriorSwing ? 'breaker' : 'mitigation',
+    type: flipped,
+    top: ob.top,
+    bottom: ob.bottom,
+    index: failIdx,
+    startTime: ob.startTime,
+    isValid: true
+  };
+};
+
+// A gap closed through at `flipIdx` acts from the other side
+export const inversionGap = (f: FVG, flipIdx: number): PDArray =>
+  ({ kind: 'ifvg', type: opposite(f.type), top: f.top, bottom: f.bottom, index: flipIdx, startTime: f.startTime, isValid: true });
+
+// The overlap of an earlier gap with a later opposing one; the later gap sets
+// the direction of the balanced range
+export const balancedRange = (a: FVG, b: FVG): PDArray | null => {
+  if (a.type === b.type || b.index - a.index > BPR_MAX_SPACING) return null;
+  const top = Math.min(a.top, b.top);
+  const bottom = Math.max(a.bottom, b.bottom);
+  if (top <= bottom) return null;
+  return { kind: 'bpr', type: b.type, top, bottom, index: b.index + 1, startTime: b.startTime, isValid: true };
+};
+
+// Earlier gaps further back than this can no longer pair with a new one
+export const pairsWith = (a: FVG, b: FVG) => b.index - a.index <= BPR_MAX_SPACING;
+
+// Imbalances between the bodies of bar i and the one before it
+export const volumeImbalancesAt = (candles: Candle[], i: number): PDArray[] => {
+  if (i < 1) return [];
+  const p = candles[i - 1];
+  const c = candles[i];
+  const imbalances: PDArray[] = [];
+  if (p.close > p.open && c.close > c.open && c.open > p.close && c.low <= p.high) {
+    imbalances.push({ kind: 'vi', type: 'bullish', top: c.open, bottom: p.close, index: i, startTime: p.time, isValid: true });
+  }
+  if (p.close < p.open && c.close < c.open && c.open < p.close && c.high >= p.low) {
+    imbalances.push({ kind: 'vi', type: 'bearish', top: p.close, bottom: c.open, index: i, startTime: p.time, isValid: true });
+  }
+  return imbalances;
+};
+
+// Kinds of array the last bar is trading in for one side, each listed once
+export const activeArrayKinds = (arrays: PDArray[], candles: Candle[], side: 'bullish' | 'bearish'): PDArrayKind[] => {
+  const lastIdx = candles.length - 1;
+  const last = candles[lastIdx];
+  const kinds = arrays
+    .filter(a => a.type === side && a.index < lastIdx && (a.invalidatedIndex === undefined || a.invalidatedIndex >= lastIdx))
+    .filter(a => side === 'bullish' ? last.low <= a.top && last.close >= a.bottom : last.high >= a.bottom && last.close <= a.top)
+    .map(a => a.kind);
+  return Array.from(new Set(kinds));
+};
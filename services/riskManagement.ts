@@ -0,0 +1,56 @@
+
+import { ContractSpec, RiskSettings, PositionSize } from '../types';
+
+// Gold is quoted per troy ounce and trades in 100 oz lots; the crypto pairs are
+// sized in coins, so one "lot" is a single unit.
+export const DEFAULT_CONTRACTS: Record<string, ContractSpec> = {
+  PAXGUSDT: { contractSize: 100, tickSize: 0.01, tickValue: 1, minLot: 0.01, lotStep: 0.01, marginRate: 0.01 },
+  BTCUSDT: { contractSize: 1, tickSize: 0.01, tickValue: 0.01, minLot: 0.001, lotStep: 0.001, marginRate: 0.1 },
+  ETHUSDT: { contractSize: 1, tickSize: 0.01, tickValue: 0.01, minLot: 0.01, lotStep: 0.01, marginRate: 0.1 },
+};
+
+export const FALLBACK_CONTRACT: ContractSpec = { contractSize: 1, tickSize: 0.0001, tickValue: 0.0001, minLot: 1, lotStep: 1, marginRate: 0.1 };
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+  equitySource: 'paper',
+  manualEquity: 10000,
+  riskPercent: 1,
+  contracts: DEFAULT_CONTRACTS
+};
+
+export const getContractSpec = (settings: RiskSettings, symbol: string): ContractSpec =>
+  settings.contracts[symbol] ?? FALLBACK_CONTRACT;
+
+// Value of a move from `from` to `to` for one lot, via the tick grid
+const lotValue = (from: number, to: number, spec: ContractSpec) =>
+  (Math.abs(to - from) / spec.tickSize) * spec.tickValue;
+
+// Largest lot size, on the instrument's lot step, whose stop-out costs no more
+// than `riskPercent` of equity. Sizes under the minimum lot are reported as
+// zero with `belowMinLot` set rather than silently rounded up.
+export const calculatePositionSize = (
+  entryPrice: number,
+  slPrice: number,
+  tpPrice: number | undefined,
+  equity: number,
+  riskPercent: number,
+  spec: ContractSpec
+): PositionSize => {
+  const targetRisk = equity * (riskPercent / 100);
+  const riskPerLot = lotValue(entryPrice, slPrice, spec);
+  const rawLots = riskPerLot > 0 ? targetRisk / riskPerLot : 0;
+  // Nudge before flooring so 0.30000000000000004 steps do not lose a step
+  const steppedLots = Math.floor(rawLots / spec.lotStep + 1e-9) * spec.lotStep;
+  const belowMinLot = steppedLots < spec.minLot;
+  const lots = belowMinLot ? 0 : Number(steppedLots.toFixed(8));
+
+  return {
+    lots,
+    units: lots * spec.contractSize,
+    dollarRisk: lots * riskPerLot,
+    dollarReward: tpPrice !== undefined ? lots * lotValue(entryPrice, tpPrice, spec) : 0,
+    margin: lots * spec.contractSize * entryPrice * spec.marginRate,
+    targetRisk,
+    belowMinLot
+  };
+};
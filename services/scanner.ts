@@ -0,0 +1,39 @@
+
+import { Candle, AnalysisResult, ScanRow } from '../types';
+
+// Percent distance from price to the closest live OB or FVG; zero when inside one
+export const nearestLiveZone = (analysis: AnalysisResult, price: number): ScanRow['nearestZone'] => {
+  const zones = [
+    ...analysis.orderBlocks.filter(z => z.isValid).map(zone => ({ zone, kind: 'OB' })),
+    ...analysis.fvgs.filter(z => z.isValid).map(zone => ({ zone, kind: 'FVG' }))
+  ];
+
+  let best: ScanRow['nearestZone'];
+  zones.forEach(({ zone, kind }) => {
+    const gap = price > zone.top ? price - zone.top : price < zone.bottom ? zone.bottom - price : 0;
+    const distancePercent = (gap / price) * 100;
+    if (!best || distancePercent < best.distancePercent) {
+      best = { label: `${zone.type === 'bullish' ? 'Bull' : 'Bear'} ${kind}`, distancePercent };
+    }
+  });
+  return best;
+};
+
+export const buildScanRow = (symbol: string, interval: string, candles: Candle[], analysis: AnalysisResult): ScanRow => {
+  const price = candles[candles.length - 1].close;
+  // Show the scored factors of whichever side is leading
+  const side = analysis.bearScore > analysis.bullScore ? analysis.breakdown.bearish : analysis.breakdown.bullish;
+
+  return {
+    symbol,
+    interval,
+    price,
+    bullScore: analysis.bullScore,
+    bearScore: analysis.bearScore,
+    signal: analysis.signal,
+    confluences: side.factors.filter(f => f.met).map(f => f.label),
+    nearestZone: nearestLiveZone(analysis, price),
+    rrRatio: analysis.rrRatio,
+    updatedAt: Date.now()
+  };
+};
@@ -0,0 +1,80 @@
+
+import { ConfluenceDetails, ConfluenceFactor, ScoreBreakdown, ScoringModel } from '../types';
+
+// Checklist order and names, shared by the sidebar, scanner and AI prompts
+export const CONFLUENCE_FACTORS: { factor: ConfluenceFactor; label: string }[] = [
+  { factor: 'ob', label: 'Order Block' },
+  { factor: 'fvg', label: 'FVG Gap' },
+  { factor: 'sweep', label: 'Liq Sweep' },
+  { factor: 'bos', label: 'Structure' },
+  { factor: 'htf', label: 'HTF Bias' },
+  { factor: 'pd', label: 'Premium/Discount' },
+  { factor: 'killzone', label: 'Killzone' },
+  { factor: 'breaker', label: 'Breaker' },
+  { factor: 'mitigation', label: 'Mitigation' },
+  { factor: 'ifvg', label: 'Inversion FVG' },
+  { factor: 'bpr', label: 'BPR' },
+  { factor: 'vi', label: 'Vol Imbalance' },
+];
+
+export const factorLabel = (factor: ConfluenceFactor) =>
+  CONFLUENCE_FACTORS.find(f => f.factor === factor)?.label ?? factor;
+
+// The four pattern factors at one point each, with premium/discount gating
+// both sides. HTF bias filters through `htfFilter` instead of scoring, and the
+// rest start switched off.
+export const DEFAULT_SCORING: ScoringModel = {
+  ob: { enabled: true, weight: 1, required: false },
+  fvg: { enabled: true, weight: 1, required: false },
+  sweep: { enabled: true, weight: 1, required: false },
+  bos: { enabled: true, weight: 1, required: false },
+  htf: { enabled: false, weight: 1, required: false },
+  pd: { enabled: true, weight: 1, required: true },
+  killzone: { enabled: false, weight: 1, required: false },
+  breaker: { enabled: false, weight: 0.5, required: false },
+  mitigation: { enabled: false, weight: 0.5, required: false },
+  ifvg: { enabled: false, weight: 0.5, required: false },
+  bpr: { enabled: false, weight: 0.5, required: false },
+  vi: { enabled: false, weight: 0.5, required: false },
+};
+
+// Premium/discount is a gate rather than a bonus: a signal still takes two
+// other factors on top of it, as it did before that factor existed
+export const DEFAULT_SCORE_THRESHOLD = 3;
+
+export const maxScore = (model: ScoringModel) =>
+  CONFLUENCE_FACTORS.reduce((sum, { factor }) => sum + (model[factor].enabled ? model[factor].weight : 0), 0);
+
+export const scoreConfluences = (details: ConfluenceDetails, model: ScoringModel, threshold: number): ScoreBreakdown => {
+  const factors = CONFLUENCE_FACTORS
+    .filter(({ factor }) => model[factor].enabled)
+    .map(({ factor, label }) => {
+      const rule = model[factor];
+      const met = details[factor];
+      return { factor, label, met, required: rule.required, weight: rule.weight, points: met ? rule.weight : 0 };
+    });
+
+  const score = factors.reduce((sum, f) => sum + f.points, 0);
+  const missingRequired = factors.filter(f => f.required && !f.met).map(f => f.factor);
+
+  return {
+    score,
+    maxScore: maxScore(model),
+    threshold,
+    factors,
+    missingRequired,
+    qualifies: score >= threshold && missingRequired.length === 0
+  };
+};
+
+// Trims float noise from fractional weights for display
+export const formatScore = (score: number) => String(+score.toFixed(2));
+
+// One line per side for prompts and logs, e.g. "2.5/6 (needs 2): Order Block +1, ..."
+export const describeBreakdown = (breakdown: ScoreBreakdown) => {
+  const factors = breakdown.factors
+    .map(f => `${f.label}${f.required ? ' (required)' : ''} ${f.met ? `+${formatScore(f.points)}` : 'missing'}`)
+    .join(', ');
+  const missing = breakdown.missingRequired.length > 0 ? `; blocked, missing required ${breakdown.missingRequired.map(factorLabel).join(', ')}` : '';
+  return `${formatScore(breakdown.score)}/${formatScore(breakdown.maxScore)} (needs ${formatScore(breakdown.threshold)}): ${factors || 'no factors enabled'}${missing}`;
+};
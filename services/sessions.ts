@@ -0,0 +1,107 @@
+
+import { Candle, KillzoneWindow, SessionOverlay, SessionRange } from '../types';
+
+// ICT killzones in New York time
+export const DEFAULT_KILLZONES: KillzoneWindow[] = [
+  { id: 'asia', label: 'Asia', start: '20:00', end: '00:00', color: '#a855f7' },
+  { id: 'london', label: 'London', start: '02:00', end: '05:00', color: '#3b82f6' },
+  { id: 'newyork', label: 'New York', start: '07:00', end: '10:00', color: '#f97316' },
+];
+
+// Intl resolves EST/EDT for each timestamp, so windows follow New York's DST switch
+const newYorkFormat = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'America/New_York',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23',
+});
+
+interface NewYorkClock {
+  day: string;
+  minutes: number;
+}
+
+// Formatting is slow next to everything else per bar, and the same bars are
+// read again on every tick and backtest step
+const clockCache = new Map<number, NewYorkClock>();
+const CLOCK_CACHE_LIMIT = 20_000;
+
+export const newYorkClock = (time: number): NewYorkClock => {
+  const cached = clockCache.get(time);
+  if (cached) return cached;
+
+  const parts: Record<string, string> = {};
+  newYorkFormat.formatToParts(new Date(time)).forEach(p => { parts[p.type] = p.value; });
+  const clock = {
+    day: `${parts.year}-${parts.month}-${parts.day}`,
+    minutes: parseInt(parts.hour) * 60 + parseInt(parts.minute),
+  };
+
+  if (clockCache.size >= CLOCK_CACHE_LIMIT) clockCache.clear();
+  clockCache.set(time, clock);
+  return clock;
+};
+
+// Weeks start on Sunday, when the metals and FX sessions open
+export const newYorkWeek = (day: string) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - date.getUTCDay());
+  return date.toISOString().slice(0, 10);
+};
+
+export const parseClockTime = (value: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(value.trim());
+  if (!match) return null;
+  const hours = parseInt(match[1]);
+  const minutes = parseInt(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+};
+
+// Start inclusive, end exclusive; a window whose end is before its start wraps midnight
+const windowContains = (window: KillzoneWindow, minutes: number) => {
+  const start = parseClockTime(window.start);
+  const end = parseClockTime(window.end);
+  if (start === null || end === null || start === end) return false;
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+const windowAt = (windows: KillzoneWindow[], minutes: number) => windows.find(w => windowContains(w, minutes));
+
+export const killzoneAt = (time: number, windows: KillzoneWindow[]): KillzoneWindow | undefined =>
+  windowAt(windows, newYorkClock(time).minutes);
+
+// One range per uninterrupted run of candles inside a killzone, plus the open of
+// the first candle of each New York day (the series' own first day is skipped,
+// since it rarely starts at midnight)
+export const buildSessionOverlay = (candles: Candle[], windows: KillzoneWindow[]): SessionOverlay => {
+  const ranges: SessionRange[] = [];
+  const midnightOpens: SessionOverlay['midnightOpens'] = [];
+  let current: SessionRange | null = null;
+  let prevDay: string | null = null;
+
+  candles.forEach(c => {
+    const clock = newYorkClock(c.time);
+    if (prevDay !== null && clock.day !== prevDay) midnightOpens.push({ time: c.time, price: c.open });
+    prevDay = clock.day;
+
+    const window = windowAt(windows, clock.minutes);
+    if (!window) {
+      current = null;
+      return;
+    }
+    if (current && current.id === window.id) {
+      current.endTime = c.time;
+      current.high = Math.max(current.high, c.high);
+      current.low = Math.min(current.low, c.low);
+      return;
+    }
+    current = { id: window.id, label: window.label, color: window.color, startTime: c.time, endTime: c.time, high: c.high, low: c.low };
+    ranges.push(current);
+  });
+
+  return { ranges, midnightOpens };
+};
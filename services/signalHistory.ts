@@ -0,0 +1,76 @@
+
+import { Candle, AnalysisResult, SignalEvent } from '../types';
+import { LIMIT_EXPIRY_BARS } from './backtest';
+
+const newId = () => Math.random().toString(36).substr(2, 9);
+
+// Oldest events drop off past this
+export const MAX_SIGNAL_HISTORY = 200;
+
+// `time` is the open time of the closed bar the analysis was run on
+export const createSignalEvent = (symbol: string, interval: string, time: number, analysis: AnalysisResult): SignalEvent | null => {
+  const { signal, entryPrice, slPrice, tpPrice } = analysis;
+  if (signal === 'NEUTRAL' || entryPrice === undefined || slPrice === undefined || tpPrice === undefined) return null;
+  const entryType = analysis.entryType ?? 'market';
+  return {
+    id: newId(),
+    symbol,
+    interval,
+    time,
+    side: signal,
+    breakdown: signal === 'BUY' ? analysis.breakdown.bullish : analysis.breakdown.bearish,
+    entryPrice,
+    entryType,
+    slPrice,
+    tpPrice,
+    filled: entryType === 'market',
+    outcome: 'open'
+  };
+};
+
+// Newest first; a bar re-analysed after a config change or reload does not fire twice
+export const recordSignal = (history: SignalEvent[], event: SignalEvent): SignalEvent[] => {
+  const duplicate = history.some(e => e.symbol === event.symbol && e.interval === event.interval && e.time === event.time && e.side === event.side);
+  return duplicate ? history : [event, ...history].slice(0, MAX_SIGNAL_HISTORY);
+};
+
+// Follows one open signal through the bars after it. A limit entry has to fill
+// first and is dropped after LIMIT_EXPIRY_BARS; as in the backtester, a bar
+// that spans both levels counts as a stop, and the fill bar only checks the stop.
+const resolveSignal = (event: SignalEvent, candles: Candle[]): SignalEvent => {
+  const isBuy = event.side === 'BUY';
+  // Replayed from the signal bar each time, so the fill bar is always the one that only checks the stop
+  let filled = event.entryType === 'market';
+  let bars = 0;
+
+  for (const c of candles) {
+    if (c.time <= event.time) continue;
+    bars++;
+    if (!filled) {
+      if (isBuy ? c.low <= event.entryPrice : c.high >= event.entryPrice) {
+        filled = true;
+        if (isBuy ? c.low <= event.slPrice : c.high >= event.slPrice) return { ...event, filled, outcome: 'sl', outcomeTime: c.time };
+        continue;
+      }
+      if (bars >= LIMIT_EXPIRY_BARS) return { ...event, outcome: 'expired', outcomeTime: c.time };
+      continue;
+    }
+    if (isBuy ? c.low <= event.slPrice : c.high >= event.slPrice) return { ...event, filled, outcome: 'sl', outcomeTime: c.time };
+    if (isBuy ? c.high >= event.tpPrice : c.low <= event.tpPrice) return { ...event, filled, outcome: 'tp', outcomeTime: c.time };
+  }
+
+  return filled === event.filled ? event : { ...event, filled };
+};
+
+// Settles the open signals of one chart against its candles; returns the same
+// array when nothing changed so it can go straight into state
+export const resolveSignals = (history: SignalEvent[], symbol: string, interval: string, candles: Candle[]): SignalEvent[] => {
+  let changed = false;
+  const next = history.map(event => {
+    if (event.outcome !== 'open' || event.symbol !== symbol || event.interval !== interval) return event;
+    const resolved = resolveSignal(event, candles);
+    if (resolved !== event) changed = true;
+    return resolved;
+  });
+  return changed ? next : history;
+};
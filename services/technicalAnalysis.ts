@@ -1,173 +1,458 @@
 
-import { Candle, OrderBlock, FVG, MarketStructure, AnalysisResult, Config } from '../types';
-
-export const analyzePriceData = (candles: Candle[], config: Config): AnalysisResult => {
-  const orderBlocks: OrderBlock[] = [];
-  const fvgs: FVG[] = [];
-  const structure: MarketStructure[] = [];
-
-  // 1. Fair Value Gaps (FVG) Detection
-  for (let i = 2; i < candles.length; i++) {
-    const c0 = candles[i];
-    const c1 = candles[i - 1];
-    const c2 = candles[i - 2];
-
-    // Bullish FVG
-    if (c2.high < c0.low && (c1.close > c1.open) && (c0.low - c2.high) > (c1.high - c1.low) * 0.3) {
-      fvgs.push({
-        type: 'bullish',
-        top: c0.low,
-        bottom: c2.high,
-        index: i - 1,
-        startTime: c1.time,
-        isValid: true
-      });
-    }
+import { Candle, OrderBlock, FVG, MarketStructure, AnalysisResult, Config, HTFBias, DealingRange, PDArrayKind, ConfluenceDetails, SwingPivot } from '../types';
+import { pivotAt, createStructureCursor, stepStructure, StructureCursor } from './marketStructure';
+import { killzoneAt } from './sessions';
+import { LiquidityState, createLiquidityState, cloneLiquidity, stepLiquidity, liquidityPools, recentSweep } from './liquidity';
+import { findDealingRange } from './dealingRange';
+import {
+  PDArrayTracker, activeArrayKinds, advanceArray, arraySnapshot, balancedRange, closesThrough, failedOrderBlock,
+  inversionGap, pairsWith, replayArray, trackArray, volumeImbalancesAt
+} from './pdArrays';
+import { scoreConfluences } from './scoring';
 
-    // Bearish FVG
-    if (c2.low > c0.high && (c1.close < c1.open) && (c2.low - c0.high) > (c1.high - c1.low) * 0.3) {
-      fvgs.push({
-        type: 'bearish',
-        top: c2.low,
-        bottom: c0.high,
-        index: i - 1,
-        startTime: c1.time,
-        isValid: true
-      });
-    }
+const ATR_PERIOD = 14;
+
+// Lifecycle replay state for one zone: how deep price has reached into it so
+// far, and the finished zone once it has been mitigated or invalidated
+interface ZoneTracker<T extends OrderBlock | FVG> {
+  zone: T;
+  deepest: number;
+  fill: number;
+  closed?: T;
+  // First close beyond the far edge, which can come after mitigation; the zone
+  // flips there
+  through?: number;
+  // The PD array it flipped into: undefined until settled, null if it never does
+  flip?: PDArrayTracker | null;
+  // Balanced ranges with later opposing gaps
+  bprs: PDArrayTracker[];
+}
+
+const trackZone = <T extends OrderBlock | FVG>(zone: T): ZoneTracker<T> =>
+  ({ zone, deepest: zone.type === 'bullish' ? zone.top : zone.bottom, fill: 0, bprs: [] });
+
+// Replays one bar after a zone formed: a wick into the zone fills it partially,
+// a wick to the far edge mitigates it, and a close beyond the far edge
+// invalidates it. Returns a new tracker so earlier states can be kept.
+const advanceZone = <T extends OrderBlock | FVG>(tracker: ZoneTracker<T>, c: Candle, j: number): ZoneTracker<T> => {
+  const { zone } = tracker;
+  if (tracker.through !== undefined || j < zone.index + 2) return tracker;
+  const closedThrough = closesThrough(zone, c);
+  const through = closedThrough ? j : undefined;
+  if (tracker.closed) return closedThrough ? { ...tracker, through } : tracker;
+
+  const isBull = zone.type === 'bullish';
+  const height = zone.top - zone.bottom;
+  const deepest = isBull ? Math.min(tracker.deepest, c.low) : Math.max(tracker.deepest, c.high);
+  const filled = isBull ? zone.top - deepest : deepest - zone.bottom;
+  const fill = height > 0 ? Math.min(1, Math.max(0, filled / height)) : 1;
+
+  if (closedThrough || fill >= 1) {
+    return {
+      ...tracker,
+      deepest,
+      fill,
+      through,
+      closed: {
+        ...zone,
+        status: closedThrough ? 'invalidated' : 'mitigated',
+        isValid: false,
+        fillPercent: 100,
+        mitigatedIndex: j,
+        mitigatedTime: c.time
+      }
+    };
   }
+  return { ...tracker, deepest, fill };
+};
 
-  // 2. Order Blocks (OB) Detection
-  for (let i = 1; i < candles.length; i++) {
-    const c0 = candles[i];
-    const c1 = candles[i - 1];
-
-    const bodySize = Math.abs(c0.close - c0.open);
-    const prevRange = c1.high - c1.low;
-
-    // Bullish OB: last bearish candle before bullish impulse
-    if (c0.close > c0.open && c1.close < c1.open && bodySize > prevRange * 1.2) {
-      orderBlocks.push({
-        type: 'bullish',
-        top: c1.high,
-        bottom: c1.low,
-        index: i - 1,
-        startTime: c1.time,
-        isValid: true
-      });
-    }
+// Moves the PD arrays a zone carries on by bar j
+const advanceCarried = <T extends OrderBlock | FVG>(tracker: ZoneTracker<T>, c: Candle, j: number): ZoneTracker<T> => {
+  const flip = tracker.flip && advanceArray(tracker.flip, c, j);
+  const bprs = tracker.bprs.map(t => advanceArray(t, c, j));
+  return flip === tracker.flip && bprs.every((t, k) => t === tracker.bprs[k]) ? tracker : { ...tracker, flip, bprs };
+};
+
+const zoneSnapshot = <T extends OrderBlock | FVG>(tracker: ZoneTracker<T>): T =>
+  tracker.closed ?? { ...tracker.zone, status: tracker.fill > 0 ? 'partial' : 'untouched', isValid: true, fillPercent: tracker.fill * 100 };
+
+// A zone counts toward confluence if it was still live when the current bar opened
+const wasLiveBefore = (zone: OrderBlock | FVG, index: number) =>
+  zone.mitigatedIndex === undefined || zone.mitigatedIndex >= index;
+
+interface EntryPlan {
+  entry: number;
+  // Unbuffered stop level
+  stop: number;
+  type: 'market' | 'limit';
+}
+
+// Where a signal gets in and which level its stop hides behind. Limit entries
+// rest at the proximal edge of the nearest live zone or at the OTE level; a plan
+// that cannot be built that way falls back to a market entry at the close.
+const planEntry = (
+  side: 'bullish' | 'bearish',
+  config: Config,
+  lastCandle: Candle,
+  marketStop: number,
+  zones: (OrderBlock | FVG)[],
+  range: DealingRange | undefined
+): EntryPlan => {
+  const isBull = side === 'bullish';
+  const close = lastCandle.close;
+  const market: EntryPlan = { entry: close, stop: marketStop, type: 'market' };
+  let plan = market;
 
-    // Bearish OB: last bullish candle before bearish impulse
-    if (c0.close < c0.open && c1.close > c1.open && bodySize > prevRange * 1.2) {
-      orderBlocks.push({
-        type: 'bearish',
-        top: c1.high,
-        bottom: c1.low,
-        index: i - 1,
-        startTime: c1.time,
-        isValid: true
-      });
+  if (config.entryMode === 'zone') {
+    const candidates = zones.filter(z => z.type === side && (isBull ? z.bottom < close : z.top > close));
+    const nearest = candidates.sort((a, b) => isBull ? b.top - a.top : a.bottom - b.bottom)[0];
+    if (nearest) {
+      const entry = isBull ? Math.min(close, nearest.top) : Math.max(close, nearest.bottom);
+      plan = { entry, stop: isBull ? nearest.bottom : nearest.top, type: entry === close ? 'market' : 'limit' };
     }
+  } else if (config.entryMode === 'ote' && range?.direction === side) {
+    const entry = isBull ? Math.min(close, range.oteEntry) : Math.max(close, range.oteEntry);
+    plan = { entry, stop: isBull ? range.low : range.high, type: entry === close ? 'market' : 'limit' };
   }
 
-  // 3. Market Structure & Liquidity Sweeps
-  const findPivots = (type: 'high' | 'low') => {
-    const p = [];
-    const len = config.swingLength;
-    for (let i = len; i < candles.length - len; i++) {
-      let isPivot = true;
-      for (let j = 1; j <= len; j++) {
-        if (type === 'high') {
-          if (candles[i].high <= candles[i - j].high || candles[i].high <= candles[i + j].high) isPivot = false;
-        } else {
-          if (candles[i].low >= candles[i - j].low || candles[i].low >= candles[i + j].low) isPivot = false;
-        }
-      }
-      if (isPivot) p.push({ val: type === 'high' ? candles[i].high : candles[i].low, idx: i, time: candles[i].time });
-    }
-    return p;
-  };
+  const stopOnRiskSide = isBull ? plan.stop < plan.entry : plan.stop > plan.entry;
+  return stopOnRiskSide ? plan : market;
+};
 
-  const highPivots = findPivots('high');
-  const lowPivots = findPivots('low');
+// True range of bar i against the previous close
+const trueRange = (candles: Candle[], i: number) => {
+  const c = candles[i];
+  const prevClose = i > 0 ? candles[i - 1].close : c.close;
+  return Math.max(c.high, prevClose) - Math.min(c.low, prevClose);
+};
 
-  const lastCandle = candles[candles.length - 1];
-  
-  // Liquidity Sweep Detection
-  let bullSweep = false;
-  let bearSweep = false;
-  
-  if (lowPivots.length > 0) {
-    const lastLow = lowPivots[lowPivots.length - 1].val;
-    if (lastCandle.low < lastLow && lastCandle.close > lastLow) {
-      bullSweep = true;
-    }
+// Mean true range over the window ending at i; the first bars average what they have
+const atrAt = (ranges: number[], i: number) => {
+  const from = Math.max(0, i - ATR_PERIOD + 1);
+  let sum = 0;
+  for (let k = from; k <= i; k++) sum += ranges[k];
+  return sum / (i - from + 1);
+};
+
+const isDisplacement = (c: Candle, atr: number, config: Config) =>
+  config.displacement <= 0 || Math.abs(c.close - c.open) >= atr * config.displacement;
+
+// Gaps completed by bar i, around the middle candle i - 1
+const detectFVGs = (candles: Candle[], i: number, atr: number[], config: Config): FVG[] => {
+  const c0 = candles[i];
+  const c1 = candles[i - 1];
+  const c2 = candles[i - 2];
+  if (!isDisplacement(c1, atr[i - 1], config)) return [];
+  const middleRange = c1.high - c1.low;
+  const minGap = config.fvgSizeUnit === 'atr' ? atr[i - 1] * config.fvgMinSize : config.fvgMinSize;
+  const gaps: FVG[] = [];
+
+  // Bullish FVG
+  const bullGap = c0.low - c2.high;
+  if (c2.high < c0.low && (c1.close > c1.open) && bullGap > middleRange * config.fvgSizeRatio && bullGap >= minGap) {
+    gaps.push({ type: 'bullish', top: c0.low, bottom: c2.high, index: i - 1, startTime: c1.time, isValid: true, status: 'untouched', fillPercent: 0 });
   }
-  if (highPivots.length > 0) {
-    const lastHigh = highPivots[highPivots.length - 1].val;
-    if (lastCandle.high > lastHigh && lastCandle.close < lastHigh) {
-      bearSweep = true;
-    }
+
+  // Bearish FVG
+  const bearGap = c2.low - c0.high;
+  if (c2.low > c0.high && (c1.close < c1.open) && bearGap > middleRange * config.fvgSizeRatio && bearGap >= minGap) {
+    gaps.push({ type: 'bearish', top: c2.low, bottom: c0.high, index: i - 1, startTime: c1.time, isValid: true, status: 'untouched', fillPercent: 0 });
   }
+  return gaps;
+};
 
-  // BOS Logic
-  if (highPivots.length >= 2) {
-    const last = highPivots[highPivots.length - 1];
-    const prev = highPivots[highPivots.length - 2];
-    if (last.val > prev.val) {
-      structure.push({ type: 'BOS', direction: 'bullish', price: last.val, index: last.idx, time: last.time });
-    }
+// The last opposing candle within the lookback window before an impulse candle
+// at i; a candle already taken by an earlier impulse is never a second block
+const detectOrderBlock = (candles: Candle[], i: number, atr: number[], config: Config, taken: Set<number>): OrderBlock | null => {
+  const c0 = candles[i];
+  if (c0.close === c0.open || !isDisplacement(c0, atr[i], config)) return null;
+  const isBullImpulse = c0.close > c0.open;
+
+  let j = i - 1;
+  const stop = Math.max(0, i - config.obLookback);
+  while (j >= stop && (isBullImpulse ? candles[j].close >= candles[j].open : candles[j].close <= candles[j].open)) j--;
+  if (j < stop || taken.has(j)) return null;
+
+  const c1 = candles[j];
+  if (Math.abs(c0.close - c0.open) <= (c1.high - c1.low) * config.obImpulse) return null;
+
+  // Bullish OB: last bearish candle before bullish impulse
+  // Bearish OB: last bullish candle before bearish impulse
+  return { type: isBullImpulse ? 'bullish' : 'bearish', top: c1.high, bottom: c1.low, index: j, startTime: c1.time, isValid: true, status: 'untouched', fillPercent: 0 };
+};
+
+// Everything the detectors carry from one bar to the next. Only the config
+// fields in STATE_KEYS shape it; scoring and entry settings are applied after.
+export interface AnalysisState {
+  key: string;
+  // Bars folded in; the last of them is kept to notice a series that changed underneath
+  committed: number;
+  firstTime?: number;
+  lastCommitted?: Candle;
+  ranges: number[];
+  atr: number[];
+  fvgs: ZoneTracker<FVG>[];
+  orderBlocks: ZoneTracker<OrderBlock>[];
+  obIndices: Set<number>;
+  highPivots: SwingPivot[];
+  lowPivots: SwingPivot[];
+  structure: StructureCursor;
+  vis: PDArrayTracker[];
+  liquidity: LiquidityState;
+}
+
+const STATE_KEYS: (keyof Config)[] = [
+  'swingLength', 'pivotConfirmation', 'obLookback', 'obImpulse', 'fvgSizeRatio', 'fvgMinSize', 'fvgSizeUnit', 'displacement',
+  'liquidityTolerance', 'killzones'
+];
+
+const stateKey = (config: Config) => JSON.stringify(STATE_KEYS.map(k => config[k]));
+
+export const createAnalysisState = (config: Config): AnalysisState => ({
+  key: stateKey(config),
+  committed: 0,
+  ranges: [],
+  atr: [],
+  fvgs: [],
+  orderBlocks: [],
+  obIndices: new Set(),
+  highPivots: [],
+  lowPivots: [],
+  structure: createStructureCursor(),
+  vis: [],
+  liquidity: createLiquidityState()
+});
+
+// Copies everything stepBar mutates
+const cloneState = (state: AnalysisState): AnalysisState => ({
+  ...state,
+  ranges: [...state.ranges],
+  atr: [...state.atr],
+  fvgs: [...state.fvgs],
+  orderBlocks: [...state.orderBlocks],
+  obIndices: new Set(state.obIndices),
+  highPivots: [...state.highPivots],
+  lowPivots: [...state.lowPivots],
+  structure: { ...state.structure, events: [...state.structure.events] },
+  vis: [...state.vis],
+  liquidity: cloneLiquidity(state.liquidity)
+});
+
+// Folds bar i into the state in place
+const stepBar = (state: AnalysisState, candles: Candle[], i: number, config: Config) => {
+  const c = candles[i];
+  state.ranges.push(trueRange(candles, i));
+  state.atr.push(atrAt(state.ranges, i));
+
+  // 1. Fair Value Gaps (FVG) Detection; a new gap balances any nearby earlier
+  // opposing gap it overlaps
+  if (i >= 2) {
+    detectFVGs(candles, i, state.atr, config).forEach(f => {
+      for (let k = state.fvgs.length - 1; k >= 0 && pairsWith(state.fvgs[k].zone, f); k--) {
+        const a = state.fvgs[k];
+        const range = balancedRange(a.zone, f);
+        if (range) state.fvgs[k] = { ...a, bprs: [...a.bprs, trackArray(range)] };
+      }
+      state.fvgs.push(trackZone(f));
+    });
   }
-  if (lowPivots.length >= 2) {
-    const last = lowPivots[lowPivots.length - 1];
-    const prev = lowPivots[lowPivots.length - 2];
-    if (last.val < prev.val) {
-      structure.push({ type: 'BOS', direction: 'bearish', price: last.val, index: last.idx, time: last.time });
-    }
+
+  // 2. Order Blocks (OB) Detection; a block found further back catches up on
+  // the bars it missed so far
+  const ob = detectOrderBlock(candles, i, state.atr, config, state.obIndices);
+  if (ob) {
+    let tracker = trackZone(ob);
+    for (let j = ob.index + 2; j < i; j++) tracker = advanceZone(tracker, candles[j], j);
+    state.obIndices.add(ob.index);
+    state.orderBlocks.push(tracker);
+    state.orderBlocks.sort((a, b) => a.zone.index - b.zone.index);
   }
 
+  // Zone lifecycle: untouched -> partial -> mitigated / invalidated
+  state.fvgs = state.fvgs.map(t => advanceZone(t, c, i));
+  state.orderBlocks = state.orderBlocks.map(t => advanceZone(t, c, i));
+
+  // 3. Market Structure: bar i confirms the pivot `pivotConfirmation` bars back
+  const k = i - config.pivotConfirmation;
+  const high = pivotAt(candles, k, 'high', config.swingLength, config.pivotConfirmation);
+  const low = pivotAt(candles, k, 'low', config.swingLength, config.pivotConfirmation);
+  if (high) state.highPivots.push(high);
+  if (low) state.lowPivots.push(low);
+
+  // BOS / ChoCh state machine, confirmed on candle close
+  stepStructure(state.structure, candles, i, state.highPivots, state.lowPivots, config.pivotConfirmation);
+
+  // 4. PD arrays: closed-through OBs become breakers or mitigation blocks once
+  // structure confirms, closed-through gaps invert, and every array stays live
+  // until price closes through it
+  const { events } = state.structure;
+  state.orderBlocks = state.orderBlocks.map(t => {
+    if (t.through === undefined || t.flip !== undefined) return advanceCarried(t, c, i);
+    const array = failedOrderBlock(candles, t.zone, t.through, events, config.swingLength, i);
+    return array === undefined ? t : advanceCarried({ ...t, flip: array && replayArray(array, candles, i) }, c, i);
+  });
+  state.fvgs = state.fvgs.map(t => advanceCarried(
+    t.through === undefined || t.flip !== undefined ? t : { ...t, flip: replayArray(inversionGap(t.zone, t.through), candles, i) },
+    c,
+    i
+  ));
+  state.vis.push(...volumeImbalancesAt(candles, i).map(trackArray));
+  state.vis = state.vis.map(t => advanceArray(t, c, i));
+
+  // 5. Liquidity pools from the pivots confirmed so far
+  stepLiquidity(state.liquidity, candles, i, state.highPivots, state.lowPivots, !!high, !!low, config);
+};
+
+export const sameCandle = (a: Candle, b: Candle) =>
+  a.time === b.time && a.open === b.open && a.high === b.high && a.low === b.low && a.close === b.close;
+
+// Incremental work is only valid on the series the state was built from, extended at the end
+const canContinue = (state: AnalysisState, candles: Candle[], config: Config) =>
+  state.key === stateKey(config) &&
+  candles.length > state.committed &&
+  (state.committed === 0 || (candles[0].time === state.firstTime && !!state.lastCommitted && sameCandle(candles[state.committed - 1], state.lastCommitted)));
+
+export const analyzePriceData = (candles: Candle[], config: Config, htfBias?: HTFBias): AnalysisResult =>
+  updateAnalysis(undefined, candles, config, htfBias).result;
+
+// Folds every bar but the last into `state`, advancing it in place. A
+// different config, first bar or already folded bar starts again from scratch.
+export const advanceAnalysis = (state: AnalysisState | undefined, candles: Candle[], config: Config): AnalysisState => {
+  const next = state && canContinue(state, candles, config) ? state : createAnalysisState(config);
+  for (let i = next.committed; i < candles.length - 1; i++) stepBar(next, candles, i, config);
+  next.committed = Math.max(next.committed, candles.length - 1);
+  next.firstTime = candles[0]?.time;
+  next.lastCommitted = next.committed > 0 ? candles[next.committed - 1] : undefined;
+  return next;
+};
+
+// Runs the last bar on a throwaway copy of an advanced state, so a forming bar
+// can be re-sent on every tick for the cost of one bar
+export const formingAnalysis = (state: AnalysisState, candles: Candle[], config: Config, htfBias?: HTFBias): AnalysisResult => {
+  const live = cloneState(state);
+  if (candles.length > 0) stepBar(live, candles, candles.length - 1, config);
+  return finalizeAnalysis(live, candles, config, htfBias);
+};
+
+// The analysis as of the last folded bar, leaving the forming one out; needs at least one folded bar
+export const confirmedAnalysis = (state: AnalysisState, candles: Candle[], config: Config, htfBias?: HTFBias): AnalysisResult =>
+  finalizeAnalysis(state, candles.slice(0, state.committed), config, htfBias);
+
+// Full rescans are this with no state to continue from
+export const updateAnalysis = (
+  state: AnalysisState | undefined,
+  candles: Candle[],
+  config: Config,
+  htfBias?: HTFBias
+): { state: AnalysisState; result: AnalysisResult } => {
+  const next = advanceAnalysis(state, candles, config);
+  return { state: next, result: formingAnalysis(next, candles, config, htfBias) };
+};
+
+// Reads the result off the carried state; only sweeps look at bars the state
+// has not folded in yet
+const finalizeAnalysis = (state: AnalysisState, candles: Candle[], config: Config, htfBias?: HTFBias): AnalysisResult => {
+  const orderBlocks = state.orderBlocks.map(t => zoneSnapshot(t));
+  const fvgs = state.fvgs.map(t => zoneSnapshot(t));
+  const { highPivots, lowPivots } = state;
+  const structure: MarketStructure[] = [...state.structure.events];
+  const trend = state.structure.trend;
+
+  const lastCandle = candles[candles.length - 1];
+
+  // Liquidity pools and sweeps: a sweep only counts once price closes back inside
+  const liquidity = liquidityPools(state.liquidity, candles, state.committed);
+  const bullSweep = !!recentSweep(liquidity, candles, 'sell');
+  const bearSweep = !!recentSweep(liquidity, candles, 'buy');
+
+  // Breakers, mitigation blocks, inversion FVGs, BPRs and volume imbalances
+  const pdArrays = [
+    ...state.orderBlocks.flatMap(t => t.flip ? [arraySnapshot(t.flip)] : []),
+    ...state.fvgs.flatMap(t => t.flip ? [arraySnapshot(t.flip)] : []),
+    ...state.fvgs.flatMap(t => t.bprs.map(arraySnapshot)),
+    ...state.vis.map(arraySnapshot)
+  ];
+
   // 4. Confluence Scoring
-  const currentBullOB = orderBlocks.find(ob => ob.type === 'bullish' && lastCandle.low <= ob.top && lastCandle.close >= ob.bottom);
-  const currentBearOB = orderBlocks.find(ob => ob.type === 'bearish' && lastCandle.high >= ob.bottom && lastCandle.close <= ob.top);
+  const lastIdx = candles.length - 1;
+  const liveOBs = orderBlocks.filter(ob => wasLiveBefore(ob, lastIdx));
+  const liveFVGs = fvgs.filter(f => wasLiveBefore(f, lastIdx));
+
+  const currentBullOB = liveOBs.find(ob => ob.type === 'bullish' && lastCandle.low <= ob.top && lastCandle.close >= ob.bottom);
+  const currentBearOB = liveOBs.find(ob => ob.type === 'bearish' && lastCandle.high >= ob.bottom && lastCandle.close <= ob.top);
   
   const inBullOB = !!currentBullOB;
   const inBearOB = !!currentBearOB;
   
-  const inBullFVG = fvgs.some(f => f.type === 'bullish' && lastCandle.low <= f.top && lastCandle.close >= f.bottom);
-  const inBearFVG = fvgs.some(f => f.type === 'bearish' && lastCandle.high >= f.bottom && lastCandle.close <= f.top);
+  const inBullFVG = liveFVGs.some(f => f.type === 'bullish' && lastCandle.low <= f.top && lastCandle.close >= f.bottom);
+  const inBearFVG = liveFVGs.some(f => f.type === 'bearish' && lastCandle.high >= f.bottom && lastCandle.close <= f.top);
+
+  // Structure favours whichever side broke last
+  const bullBOS = trend === 'bullish';
+  const bearBOS = trend === 'bearish';
 
-  const bullBOS = structure.some(s => s.direction === 'bullish');
-  const bearBOS = structure.some(s => s.direction === 'bearish');
+  const bullHTF = htfBias?.direction === 'bullish';
+  const bearHTF = htfBias?.direction === 'bearish';
+
+  // Premium/discount: buy below equilibrium of the dealing range, sell above it
+  const dealingRange = findDealingRange(highPivots, lowPivots, lastCandle.close);
+  const inDiscount = dealingRange?.zone === 'discount';
+  const inPremium = dealingRange?.zone === 'premium';
+
+  // Killzones are time-based, so they count for both sides alike
+  const killzone = killzoneAt(lastCandle.time, config.killzones);
+
+  // PD arrays count once per kind price is trading in
+  const bullArrays = activeArrayKinds(pdArrays, candles, 'bullish');
+  const bearArrays = activeArrayKinds(pdArrays, candles, 'bearish');
+  const arrayFlags = (kinds: PDArrayKind[]) => ({
+    breaker: kinds.includes('breaker'),
+    mitigation: kinds.includes('mitigation'),
+    ifvg: kinds.includes('ifvg'),
+    bpr: kinds.includes('bpr'),
+    vi: kinds.includes('vi')
+  });
 
   const confluences = {
-    bullish: { ob: inBullOB, fvg: inBullFVG, bos: bullBOS, sweep: bullSweep },
-    bearish: { ob: inBearOB, fvg: inBearFVG, bos: bearBOS, sweep: bearSweep }
+    bullish: { ob: inBullOB, fvg: inBullFVG, bos: bullBOS, sweep: bullSweep, htf: bullHTF, pd: inDiscount, killzone: !!killzone, ...arrayFlags(bullArrays) },
+    bearish: { ob: inBearOB, fvg: inBearFVG, bos: bearBOS, sweep: bearSweep, htf: bearHTF, pd: inPremium, killzone: !!killzone, ...arrayFlags(bearArrays) }
   };
 
-  const bullScore = Object.values(confluences.bullish).filter(Boolean).length;
-  const bearScore = Object.values(confluences.bearish).filter(Boolean).length;
+  // Each factor adds its weight; required factors gate the side outright
+  const breakdown = {
+    bullish: scoreConfluences(confluences.bullish, config.scoring, config.scoreThreshold),
+    bearish: scoreConfluences(confluences.bearish, config.scoring, config.scoreThreshold)
+  };
+  const bullScore = breakdown.bullish.score;
+  const bearScore = breakdown.bearish.score;
 
   let signal: 'BUY' | 'SELL' | 'NEUTRAL' = 'NEUTRAL';
   let entryPrice: number | undefined;
+  let entryType: 'market' | 'limit' | undefined;
   let slPrice: number | undefined;
   let tpPrice: number | undefined;
   let rrRatio: number | undefined;
   let pnlEstimate: number | undefined;
 
-  if (bullScore >= config.minConfluence) {
+  // Counter-bias setups are either suppressed or passed through with a flag
+  const blockCounterHTF = config.htfFilter === 'block';
+
+  if (breakdown.bullish.qualifies && !(bearHTF && blockCounterHTF)) {
     signal = 'BUY';
-    entryPrice = lastCandle.close;
-    const baseSL = currentBullOB ? currentBullOB.bottom : lastCandle.low;
-    slPrice = baseSL * (1 - config.slBuffer / 100);
+    const plan = planEntry('bullish', config, lastCandle, currentBullOB ? currentBullOB.bottom : lastCandle.low, [...liveOBs, ...liveFVGs], dealingRange);
+    entryPrice = plan.entry;
+    entryType = plan.type;
+    slPrice = plan.stop * (1 - config.slBuffer / 100);
     const risk = Math.abs(entryPrice - slPrice);
     tpPrice = entryPrice + (risk * config.rrRatio);
     rrRatio = config.rrRatio;
     pnlEstimate = ((tpPrice - entryPrice) / entryPrice) * 100;
-  } else if (bearScore >= config.minConfluence) {
+  } else if (breakdown.bearish.qualifies && !(bullHTF && blockCounterHTF)) {
     signal = 'SELL';
-    entryPrice = lastCandle.close;
-    const baseSL = currentBearOB ? currentBearOB.top : lastCandle.high;
-    slPrice = baseSL * (1 + config.slBuffer / 100);
+    const plan = planEntry('bearish', config, lastCandle, currentBearOB ? currentBearOB.top : lastCandle.high, [...liveOBs, ...liveFVGs], dealingRange);
+    entryPrice = plan.entry;
+    entryType = plan.type;
+    slPrice = plan.stop * (1 + config.slBuffer / 100);
     const risk = Math.abs(slPrice - entryPrice);
     tpPrice = entryPrice - (risk * config.rrRatio);
     rrRatio = config.rrRatio;
@@ -181,11 +466,38 @@ export const analyzePriceData = (candles: Candle[], config: Config): AnalysisRes
     orderBlocks,
     fvgs,
     structure,
+    liquidity,
+    pdArrays,
+    breakdown,
+    dealingRange,
+    trend,
     signal,
     entryPrice,
+    entryType,
     slPrice,
     tpPrice,
     rrRatio,
-    pnlEstimate
+    pnlEstimate,
+    counterHTF: signal === 'BUY' ? bearHTF : signal === 'SELL' ? bullHTF : undefined,
+    killzone: killzone?.label
+  };
+};
+
+// Stand-in result before the first bars arrive
+export const createEmptyAnalysis = (config: Config): AnalysisResult => {
+  const none: ConfluenceDetails = { ob: false, fvg: false, bos: false, sweep: false, htf: false, pd: false, killzone: false, breaker: false, mitigation: false, ifvg: false, bpr: false, vi: false };
+  const empty = scoreConfluences(none, config.scoring, config.scoreThreshold);
+  return {
+    bullScore: 0,
+    bearScore: 0,
+    confluences: { bullish: none, bearish: none },
+    breakdown: { bullish: empty, bearish: empty },
+    orderBlocks: [],
+    fvgs: [],
+    structure: [],
+    liquidity: [],
+    pdArrays: [],
+    trend: null,
+    signal: 'NEUTRAL'
   };
 };
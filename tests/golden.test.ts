@@ -0,0 +1,68 @@
+
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { Candle, Config } from '../types';
+import { AnalysisState, analyzePriceData, updateAnalysis } from '../services/technicalAnalysis';
+import { parseCandleFile } from '../services/localDataProvider';
+import { DEFAULT_CONFIG } from '../services/parameters';
+
+// 320 bars of 15m candles per symbol, loaded the way a dropped file is.
+// These are NOT exchange data: both series were generated, shaped like each
+// market (price level, session volatility, the odd gap between bars), and sit
+// on made-up timestamps (XAUUSD 2024-05-06 00:00 to 05-09 07:45 UTC, BTCUSDT
+// 2024-03-11 00:00 to 03-14 07:45 UTC). Until real exports replace them, the
+// goldens only pin regressions, not behaviour on real markets. To swap one in,
+// export the same range in this CSV layout, note its source and range here,
+// then re-record the golden files with `npx vitest run -u` and review the diff.
+const FIXTURES = ['XAUUSD_15m', 'BTCUSDT_15m'];
+
+const CONFIGS: Record<string, Config> = {
+  defaults: DEFAULT_CONFIG,
+  zoneEntries: { ...DEFAULT_CONFIG, swingLength: 3, pivotConfirmation: 2, entryMode: 'zone', scoreThreshold: 1.5, rrRatio: 3 }
+};
+
+// Bars before this only warm the detectors up
+const WARMUP = 100;
+
+const loadFixture = (name: string): Candle[] =>
+  parseCandleFile(readFileSync(new URL(`./fixtures/${name}.csv`, import.meta.url), 'utf8'), `${name}.csv`);
+
+// JSON with objects spread out and one array element per line, so a diff
+// points at the zone, event or signal that changed
+const toGolden = (value: unknown, indent = ''): string => {
+  const inner = indent + '  ';
+  if (Array.isArray(value)) {
+    return value.length === 0 ? '[]' : `[\n${value.map(v => inner + JSON.stringify(v)).join(',\n')}\n${indent}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${toGolden(v, inner)}`).join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+};
+
+// Every bar that closed with a signal, as the live chart would have shown it
+const signalTimeline = (candles: Candle[], config: Config) => {
+  const timeline = [];
+  let state: AnalysisState | undefined;
+  for (let i = WARMUP; i <= candles.length; i++) {
+    const next = updateAnalysis(state, candles.slice(0, i), config);
+    state = next.state;
+    const { signal, entryType, entryPrice, slPrice, tpPrice, bullScore, bearScore } = next.result;
+    if (signal !== 'NEUTRAL') timeline.push({ time: candles[i - 1].time, signal, entryType, entryPrice, slPrice, tpPrice, bullScore, bearScore });
+  }
+  return timeline;
+};
+
+describe('golden analysis', () => {
+  it.each(FIXTURES)('matches the recorded output for %s', async (name) => {
+    const candles = loadFixture(name);
+    expect(candles).toHaveLength(320);
+
+    const golden = Object.fromEntries(Object.entries(CONFIGS).map(([label, config]) => [label, {
+      signals: signalTimeline(candles, config),
+      final: analyzePriceData(candles, config)
+    }]));
+    await expect(toGolden(golden) + '\n').toMatchFileSnapshot(`./golden/${name}.json`);
+  });
+});
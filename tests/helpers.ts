@@ -0,0 +1,39 @@
+
+import { Candle } from '../types';
+
+// Park-Miller generator so every run sees the same candles
+export const seededRandom = (seed: number) => {
+  let x = seed % 2147483647 || 1;
+  return () => (x = (x * 16807) % 2147483647) / 2147483647;
+};
+
+// A drifting, oscillating 15m series with wicks, enough to produce every pattern
+export const randomWalk = (length: number, seed: number, start = 100): Candle[] => {
+  const rand = seededRandom(seed);
+  const candles: Candle[] = [];
+  let price = start;
+  for (let i = 0; i < length; i++) {
+    const open = price;
+    price = Math.max(1, price + Math.sin(i / 7) * start * 0.015 + (rand() - 0.5) * start * 0.03);
+    candles.push({
+      time: Date.UTC(2024, 0, 1) + i * 15 * 60 * 1000,
+      open,
+      high: Math.max(open, price) + rand() * start * 0.01,
+      low: Math.min(open, price) - rand() * start * 0.01,
+      close: price,
+      volume: 100 + rand() * 900
+    });
+  }
+  return candles;
+};
+
+// The forming bar part-way through: same open, close moved `t` of the way to its final close
+export const formingBar = (bar: Candle, t: number): Candle => {
+  const close = bar.open + (bar.close - bar.open) * t;
+  return { ...bar, close, high: Math.max(bar.open, close), low: Math.min(bar.open, close), volume: bar.volume * t };
+};
+
+// Hand-built 15m bars from [open, high, low, close] rows, starting at a quiet
+// hour outside every default killzone
+export const bars = (rows: [number, number, number, number][], start = Date.UTC(2024, 0, 2, 19)): Candle[] =>
+  rows.map(([open, high, low, close], i) => ({ time: start + i * 15 * 60 * 1000, open, high, low, close, volume: 100 }));
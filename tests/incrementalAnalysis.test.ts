@@ -0,0 +1,176 @@
+
+import { describe, expect, it, vi } from 'vitest';
+import { Candle, Config } from '../types';
+import { analyzePriceData, updateAnalysis, AnalysisState, createEmptyAnalysis } from '../services/technicalAnalysis';
+import { AnalysisRequest, AnalysisUpdate, createLiveAnalysis } from '../services/liveAnalysis';
+import { DEFAULT_CONFIG } from '../services/parameters';
+import { formingBar, randomWalk } from './helpers';
+
+const CONFIGS: [string, Config][] = [
+  ['defaults', DEFAULT_CONFIG],
+  ['short lookback, fast pivots', { ...DEFAULT_CONFIG, obLookback: 1, swingLength: 3, pivotConfirmation: 2 }],
+  ['ATR filters', { ...DEFAULT_CONFIG, displacement: 0.5, fvgMinSize: 0.2, fvgSizeUnit: 'atr' }],
+];
+
+// Replays `candles` from bar `warm` on as a live feed: each bar arrives as a few
+// forming ticks and then closes, and every update is checked against a full rescan
+const replayLive = (candles: Candle[], config: Config, warm: number) => {
+  let state: AnalysisState | undefined;
+  const closed = candles.slice(0, warm);
+  for (let i = warm; i < candles.length; i++) {
+    for (const t of [0.25, 0.6, 1]) {
+      const series = [...closed, t === 1 ? candles[i] : formingBar(candles[i], t)];
+      const next = updateAnalysis(state, series, config);
+      state = next.state;
+      expect(next.result).toEqual(analyzePriceData(series, config));
+    }
+    closed.push(candles[i]);
+  }
+  return state!;
+};
+
+describe('incremental analysis', () => {
+  it.each(CONFIGS)('matches a full rescan on every tick (%s)', (_, config) => {
+    for (const seed of [1, 7, 42]) {
+      const state = replayLive(randomWalk(220, seed), config, 150);
+      expect(state.committed).toBe(219);
+    }
+  });
+
+  it('folds closed bars into the carried state instead of starting over', () => {
+    const candles = randomWalk(200, 3);
+    const first = updateAnalysis(undefined, candles.slice(0, 199), DEFAULT_CONFIG);
+    const second = updateAnalysis(first.state, candles, DEFAULT_CONFIG);
+    expect(second.state).toBe(first.state);
+    expect(second.state.committed).toBe(199);
+  });
+
+  it('keeps its state when only scoring or entry settings change', () => {
+    const candles = randomWalk(200, 5);
+    const first = updateAnalysis(undefined, candles, DEFAULT_CONFIG);
+    const config: Config = { ...DEFAULT_CONFIG, scoreThreshold: 1, rrRatio: 3, entryMode: 'zone' };
+    const second = updateAnalysis(first.state, candles, config);
+    expect(second.state).toBe(first.state);
+    expect(second.result).toEqual(analyzePriceData(candles, config));
+  });
+
+  it('starts over when a detection threshold changes', () => {
+    const candles = randomWalk(200, 5);
+    const first = updateAnalysis(undefined, candles, DEFAULT_CONFIG);
+    const config: Config = { ...DEFAULT_CONFIG, obImpulse: 2 };
+    const second = updateAnalysis(first.state, candles, config);
+    expect(second.state).not.toBe(first.state);
+    expect(second.result).toEqual(analyzePriceData(candles, config));
+  });
+
+  it('starts over when history is paged in or trimmed from the front', () => {
+    const candles = randomWalk(300, 11);
+    const live = updateAnalysis(undefined, candles.slice(100, 250), DEFAULT_CONFIG);
+
+    const paged = updateAnalysis(live.state, candles.slice(0, 250), DEFAULT_CONFIG);
+    expect(paged.state).not.toBe(live.state);
+    expect(paged.result).toEqual(analyzePriceData(candles.slice(0, 250), DEFAULT_CONFIG));
+
+    const trimmed = updateAnalysis(paged.state, candles.slice(1, 251), DEFAULT_CONFIG);
+    expect(trimmed.state).not.toBe(paged.state);
+    expect(trimmed.result).toEqual(analyzePriceData(candles.slice(1, 251), DEFAULT_CONFIG));
+  });
+
+  it('starts over when an already folded bar is revised', () => {
+    const candles = randomWalk(200, 13);
+    const first = updateAnalysis(undefined, candles, DEFAULT_CONFIG);
+    const revised = candles.map((c, i) => i === 198 ? { ...c, close: c.close * 1.01, high: Math.max(c.high, c.close * 1.01) } : c);
+    const second = updateAnalysis(first.state, revised, DEFAULT_CONFIG);
+    expect(second.state).not.toBe(first.state);
+    expect(second.result).toEqual(analyzePriceData(revised, DEFAULT_CONFIG));
+  });
+});
+
+describe('live analysis client', () => {
+  const target = { symbol: 'BTCUSDT', interval: '15m' };
+
+  // Node has no Worker, so these exercise the same-thread fallback
+  const feed = (config: Config) => {
+    const candles = randomWalk(200, 17);
+    const updates: AnalysisUpdate[] = [];
+    const live = createLiveAnalysis((_, update) => updates.push(update), message => { throw new Error(message); });
+    live.analyze(target, candles.slice(0, 199), config);
+    live.analyze(target, [...candles.slice(0, 199), formingBar(candles[199], 0.5)], config);
+    live.analyze(target, candles, config);
+    live.dispose();
+    return { candles, updates };
+  };
+
+  it('shows the forming bar in intrabar mode', () => {
+    const config: Config = { ...DEFAULT_CONFIG, signalMode: 'intrabar' };
+    const { candles, updates } = feed(config);
+    expect(updates).toHaveLength(3);
+    expect(updates[2].result).toEqual(analyzePriceData(candles, config));
+  });
+
+  it('shows only the last closed bar in close mode', () => {
+    const config: Config = { ...DEFAULT_CONFIG, signalMode: 'close' };
+    const { candles, updates } = feed(config);
+    expect(updates[1].result).toEqual(analyzePriceData(candles.slice(0, 199), config));
+    expect(updates[2].result).toEqual(analyzePriceData(candles.slice(0, 199), config));
+  });
+
+  it('sends each closed bar once, whatever the mode', () => {
+    for (const signalMode of ['close', 'intrabar'] as const) {
+      const config: Config = { ...DEFAULT_CONFIG, signalMode };
+      const { candles, updates } = feed(config);
+      expect(updates.map(u => u.confirmed?.time)).toEqual([candles[197].time, candles[198].time, undefined]);
+      expect(updates[1].confirmed?.result).toEqual(analyzePriceData(candles.slice(0, 199), config));
+    }
+  });
+
+  it('follows several series side by side', () => {
+    const config: Config = { ...DEFAULT_CONFIG, signalMode: 'intrabar' };
+    const other = { symbol: 'ETHUSDT', interval: '1h' };
+    const [a, b] = [randomWalk(200, 23), randomWalk(200, 29, 2000)];
+    const results: Record<string, AnalysisUpdate['result']> = {};
+    const live = createLiveAnalysis((t, update) => { results[t.symbol] = update.result; }, message => { throw new Error(message); });
+    for (const n of [198, 199, 200]) {
+      live.analyze(target, a.slice(0, n), config);
+      live.analyze(other, b.slice(0, n), config);
+    }
+    live.dispose();
+    expect(results.BTCUSDT).toEqual(analyzePriceData(a, config));
+    expect(results.ETHUSDT).toEqual(analyzePriceData(b, config));
+  });
+
+  it('starts a fresh worker and resends the whole series after a worker error', () => {
+    const candles = randomWalk(200, 19);
+    const requests: AnalysisRequest[] = [];
+    let spawned = 0;
+    // The first worker dies on its first request; later ones answer straight away
+    class FakeWorker {
+      onmessage: ((e: { data: unknown }) => void) | null = null;
+      onerror: ((e: { message: string; preventDefault: () => void }) => void) | null = null;
+      onmessageerror: (() => void) | null = null;
+      broken = ++spawned === 1;
+      postMessage(request: AnalysisRequest) {
+        requests.push(request);
+        if (this.broken) this.onerror?.({ message: 'worker crashed', preventDefault: () => {} });
+        else this.onmessage?.({ data: { type: 'result', seq: request.seq, target: request.target, update: { result: createEmptyAnalysis(DEFAULT_CONFIG) } } });
+      }
+      terminate() {}
+    }
+    vi.stubGlobal('Worker', FakeWorker);
+    try {
+      const errors: string[] = [];
+      const updates: AnalysisUpdate[] = [];
+      const live = createLiveAnalysis((_, update) => updates.push(update), message => errors.push(message));
+      live.analyze(target, candles.slice(0, 199), DEFAULT_CONFIG);
+      live.analyze(target, candles, DEFAULT_CONFIG);
+      live.dispose();
+
+      expect(errors).toEqual(['worker crashed']);
+      expect(spawned).toBe(2);
+      expect(requests.map(r => [r.from, r.bars.length])).toEqual([[0, 199], [0, 200]]);
+      expect(updates).toHaveLength(1);
+    } finally {
+      vi.unstubAllGlobals();
+    }
+  });
+});
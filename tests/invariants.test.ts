@@ -0,0 +1,110 @@
+
+import { describe, expect, it } from 'vitest';
+import { AnalysisResult, Candle, Config } from '../types';
+import { AnalysisState, updateAnalysis } from '../services/technicalAnalysis';
+import { DEFAULT_CONFIG } from '../services/parameters';
+import { seededRandom, randomWalk } from './helpers';
+
+// A random but valid parameter set; scoring is loosened so signals actually fire
+const randomConfig = (seed: number): Config => {
+  const rand = seededRandom(seed);
+  const pick = <T,>(options: T[]) => options[Math.floor(rand() * options.length)];
+  return {
+    ...DEFAULT_CONFIG,
+    swingLength: pick([2, 3, 5, 8]),
+    pivotConfirmation: pick([1, 2, 5]),
+    obLookback: pick([1, 5, 10, 30]),
+    obImpulse: pick([0.5, 1.2, 2]),
+    fvgSizeRatio: pick([0, 0.3, 0.6]),
+    fvgMinSize: pick([0, 0.2]),
+    displacement: pick([0, 0.5, 1]),
+    scoreThreshold: pick([1, 2]),
+    rrRatio: pick([1, 2, 3.5]),
+    slBuffer: pick([0, 0.1, 0.5]),
+    entryMode: pick(['market', 'zone', 'ote'] as const)
+  };
+};
+
+// The analysis after every bar of `candles`, as a live chart would see it
+const everyBar = (candles: Candle[], config: Config, warm: number) => {
+  const results: AnalysisResult[] = [];
+  let state: AnalysisState | undefined;
+  for (let i = warm; i <= candles.length; i++) {
+    const next = updateAnalysis(state, candles.slice(0, i), config);
+    state = next.state;
+    results.push(next.result);
+  }
+  return results;
+};
+
+const checkZones = (result: AnalysisResult, candles: Candle[]) => {
+  for (const zone of [...result.fvgs, ...result.orderBlocks]) {
+    expect(zone.top).toBeGreaterThanOrEqual(zone.bottom);
+    expect(zone.index).toBeLessThan(candles.length);
+    expect(zone.startTime).toBe(candles[zone.index].time);
+    expect(zone.fillPercent).toBeGreaterThanOrEqual(0);
+    expect(zone.fillPercent).toBeLessThanOrEqual(100);
+    expect(zone.isValid).toBe(zone.status === 'untouched' || zone.status === 'partial');
+    if (zone.mitigatedIndex !== undefined) expect(zone.mitigatedIndex).toBeGreaterThanOrEqual(zone.index + 2);
+  }
+  // A gap is a strictly positive range between the outer candles' wicks
+  for (const fvg of result.fvgs) {
+    expect(fvg.top).toBeGreaterThan(fvg.bottom);
+    const [before, after] = [candles[fvg.index - 1], candles[fvg.index + 1]];
+    if (fvg.type === 'bullish') expect([fvg.bottom, fvg.top]).toEqual([before.high, after.low]);
+    else expect([fvg.bottom, fvg.top]).toEqual([after.high, before.low]);
+  }
+};
+
+const checkStructure = (result: AnalysisResult, candles: Candle[]) => {
+  for (const event of result.structure) {
+    const close = candles[event.index].close;
+    if (event.direction === 'bullish') expect(close).toBeGreaterThan(event.price);
+    else expect(close).toBeLessThan(event.price);
+    expect(event.pivotIndex).toBeLessThan(event.index);
+  }
+  const last = result.structure[result.structure.length - 1];
+  expect(result.trend).toBe(last ? last.direction : null);
+};
+
+const checkSignal = (result: AnalysisResult, candles: Candle[], config: Config) => {
+  const { signal, entryPrice, slPrice, tpPrice } = result;
+  if (signal === 'NEUTRAL') {
+    expect(entryPrice).toBeUndefined();
+    return;
+  }
+  const close = candles[candles.length - 1].close;
+  const side = signal === 'BUY' ? result.breakdown.bullish : result.breakdown.bearish;
+  expect(side.qualifies).toBe(true);
+  expect(side.score).toBeGreaterThanOrEqual(config.scoreThreshold);
+
+  // The stop always sits on the risk side of the entry and the target on the other
+  if (signal === 'BUY') {
+    expect(slPrice!).toBeLessThan(entryPrice!);
+    expect(tpPrice!).toBeGreaterThan(entryPrice!);
+    expect(entryPrice!).toBeLessThanOrEqual(close);
+  } else {
+    expect(slPrice!).toBeGreaterThan(entryPrice!);
+    expect(tpPrice!).toBeLessThan(entryPrice!);
+    expect(entryPrice!).toBeGreaterThanOrEqual(close);
+  }
+  expect(Math.abs(tpPrice! - entryPrice!) / Math.abs(entryPrice! - slPrice!)).toBeCloseTo(config.rrRatio, 6);
+  expect(result.entryType).toBe(entryPrice === close ? 'market' : 'limit');
+};
+
+describe('analysis invariants', () => {
+  it.each([1, 2, 3, 4, 5, 6, 7, 8])('hold on every bar of a random series and parameter set (seed %i)', (seed) => {
+    const config = randomConfig(seed * 101);
+    const candles = randomWalk(180, seed, 10 ** (seed % 4 + 1));
+    let signals = 0;
+    everyBar(candles, config, 20).forEach((result, i) => {
+      const seen = candles.slice(0, 20 + i);
+      checkZones(result, seen);
+      checkStructure(result, seen);
+      checkSignal(result, seen, config);
+      if (result.signal !== 'NEUTRAL') signals++;
+    });
+    // Otherwise the signal checks above proved nothing
+    expect(signals).toBeGreaterThan(0);
+  });
+});
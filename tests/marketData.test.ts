@@ -0,0 +1,104 @@
+
+import { describe, expect, it, vi } from 'vitest';
+import { Candle } from '../types';
+import { MarketDataProvider, followKlines, mergeCandle, subscribeToBinanceKlines } from '../services/marketData';
+import { randomWalk } from './helpers';
+
+// A feed whose history requests resolve only when told to, and whose live
+// stream is driven by hand
+const manualProvider = () => {
+  const history: Record<string, (candles: Candle[]) => void> = {};
+  const streams: Record<string, (candle: Candle) => void> = {};
+  const provider: MarketDataProvider = {
+    id: 'manual',
+    name: 'Manual',
+    listSymbols: async () => [],
+    fetchKlines: (symbol) => new Promise(resolve => { history[symbol] = resolve; }),
+    subscribeKlines: (symbol, _, onUpdate) => {
+      streams[symbol] = onUpdate;
+      return () => {};
+    }
+  };
+  return { provider, history, streams };
+};
+
+describe('followKlines', () => {
+  it('drops ticks for a new chart that arrive before its history', async () => {
+    const { provider, history, streams } = manualProvider();
+    const [btc, eth] = [randomWalk(11, 3, 60000), randomWalk(11, 5, 3000)];
+    let series: Candle[] = [];
+    const follow = (symbol: string) => followKlines(provider, symbol, '15m', 10, (historical) => {
+      series = historical;
+    }, (candle) => {
+      series = mergeCandle(series, candle);
+    });
+
+    const stopBtc = follow('BTCUSDT');
+    history.BTCUSDT(btc.slice(0, 10));
+    await Promise.resolve();
+    streams.BTCUSDT(btc[10]);
+    expect(series).toEqual(btc);
+
+    // Switch: the new chart's first tick beats its history, and the old stream is still winding down
+    stopBtc();
+    follow('ETHUSDT');
+    streams.ETHUSDT(eth[9]);
+    streams.BTCUSDT(btc[10]);
+    expect(series).toEqual(btc);
+
+    history.ETHUSDT(eth.slice(0, 10));
+    await Promise.resolve();
+    expect(series).toEqual(eth.slice(0, 10));
+    streams.ETHUSDT(eth[10]);
+    expect(series).toEqual(eth);
+  });
+});
+
+describe('subscribeToBinanceKlines', () => {
+  // Sockets the feed has opened, driven by hand
+  class FakeWebSocket {
+    static CONNECTING = 0;
+    static OPEN = 1;
+    static opened: FakeWebSocket[] = [];
+    readyState = FakeWebSocket.CONNECTING;
+    onopen: (() => void) | null = null;
+    onmessage: ((e: { data: string }) => void) | null = null;
+    onerror: (() => void) | null = null;
+    onclose: (() => void) | null = null;
+    constructor() { FakeWebSocket.opened.push(this); }
+    open() { this.readyState = FakeWebSocket.OPEN; this.onopen?.(); }
+    send(c: Candle) { this.onmessage?.({ data: JSON.stringify({ k: { t: c.time, o: `${c.open}`, h: `${c.high}`, l: `${c.low}`, c: `${c.close}`, v: `${c.volume}` } }) }); }
+    close() { this.readyState = 3; this.onclose?.(); }
+  }
+
+  it('does not let a reconnect backfill overwrite a newer tick of the forming bar', async () => {
+    vi.useFakeTimers();
+    let answer: (rows: unknown[]) => void = () => {};
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+    vi.stubGlobal('fetch', () => new Promise(resolve => { answer = rows => resolve({ ok: true, json: async () => rows }); }));
+    try {
+      const [bar] = randomWalk(1, 9);
+      const updates: Candle[] = [];
+      const stop = subscribeToBinanceKlines('BTCUSDT', '15m', candle => updates.push(candle));
+      FakeWebSocket.opened[0].open();
+      FakeWebSocket.opened[0].send(bar);
+      FakeWebSocket.opened[0].close();
+      await vi.advanceTimersByTimeAsync(2_000);
+
+      // The REST snapshot is taken before the socket's newer tick but answers after it
+      FakeWebSocket.opened[1].open();
+      const newer = { ...bar, close: bar.close + 2, high: Math.max(bar.high, bar.close + 2) };
+      FakeWebSocket.opened[1].send(newer);
+      const older = { ...bar, close: bar.close + 1, high: Math.max(bar.high, bar.close + 1) };
+      answer([[older.time, `${older.open}`, `${older.high}`, `${older.low}`, `${older.close}`, `${older.volume}`]]);
+      await vi.advanceTimersByTimeAsync(0);
+      stop();
+
+      expect(updates).toEqual([bar, older, newer]);
+    } finally {
+      FakeWebSocket.opened = [];
+      vi.unstubAllGlobals();
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,43 @@
+
+import { describe, expect, it } from 'vitest';
+import { OptimizerSettings } from '../types';
+import { runBacktest } from '../services/backtest';
+import { DEFAULT_OPTIMIZER_SETTINGS, metricValue, requiredBars, runOptimization } from '../services/optimizer';
+import { DEFAULT_CONFIG } from '../services/parameters';
+import { randomWalk } from './helpers';
+
+// Two candidates and two short folds, so every candidate can be checked by hand
+const SETTINGS: OptimizerSettings = {
+  ...DEFAULT_OPTIMIZER_SETTINGS,
+  method: 'grid',
+  folds: 2,
+  trainRatio: 0.5,
+  ranges: DEFAULT_OPTIMIZER_SETTINGS.ranges.map(r => r.key === 'rrRatio' ? { ...r, min: 2, max: 3, step: 1 } : { ...r, enabled: false })
+};
+
+describe('walk-forward optimiser', () => {
+  it('sizes the history the defaults need', () => {
+    const bars = requiredBars(DEFAULT_OPTIMIZER_SETTINGS);
+    expect(Math.floor(bars * (1 - DEFAULT_OPTIMIZER_SETTINGS.trainRatio) / DEFAULT_OPTIMIZER_SETTINGS.folds)).toBeGreaterThanOrEqual(50);
+    expect(() => runOptimization(randomWalk(150, 1), DEFAULT_CONFIG, DEFAULT_OPTIMIZER_SETTINGS)).toThrow(`Need ${bars} bars`);
+  });
+
+  it('picks each fold on its training slice and stitches the test slices', () => {
+    const candles = randomWalk(requiredBars(SETTINGS), 5);
+    const result = runOptimization(candles, DEFAULT_CONFIG, SETTINGS);
+    expect(result.folds).toHaveLength(2);
+
+    // The first fold trains on every bar before the two test slices
+    const test = Math.floor(candles.length * (1 - SETTINGS.trainRatio) / SETTINGS.folds);
+    const firstTrain = candles.slice(0, candles.length - test * SETTINGS.folds);
+    const scores = [2, 3].map(rrRatio => {
+      const config = { ...DEFAULT_CONFIG, rrRatio };
+      return metricValue(runBacktest(firstTrain, config, { warmup: config.swingLength + config.pivotConfirmation + 1 }), SETTINGS.metric);
+    });
+    expect(result.folds[0].inSample).toBeCloseTo(Math.max(...scores), 9);
+
+    expect(result.testTrades).toBe(result.folds.reduce((sum, f) => sum + f.testTrades, 0));
+    expect(result.netR).toBeCloseTo(result.folds.reduce((sum, f) => sum + f.netR, 0), 9);
+    expect(result.runs.reduce((sum, r) => sum + r.picks, 0)).toBe(2);
+  });
+});
@@ -0,0 +1,118 @@
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { Candle, Config, HTFBias, ScoringModel } from '../types';
+import { AnalysisState, analyzePriceData, updateAnalysis } from '../services/technicalAnalysis';
+import { parseCandleFile } from '../services/localDataProvider';
+import { formingBar } from './helpers';
+
+// Digests of analyzePriceData on every prefix of the fixtures, recorded with the
+// single-pass implementation from before the worker refactor (commit 82a1821,
+// [user-022]). Both the full rescan and the incremental path have to reproduce
+// it, so this does not move with the code under test. It is never re-recorded:
+// a change that is meant to alter the analysis changes REFERENCE_CASES instead.
+const REFERENCE = JSON.parse(readFileSync(new URL('./golden/reference.json', import.meta.url), 'utf8')) as Record<string, Record<string, [number, string][]>>;
+
+// Spelled out rather than taken from DEFAULT_CONFIG, which is free to change
+const SCORING: ScoringModel = {
+  ob: { enabled: true, weight: 1, required: false },
+  fvg: { enabled: true, weight: 1, required: false },
+  sweep: { enabled: true, weight: 1, required: false },
+  bos: { enabled: true, weight: 1, required: false },
+  htf: { enabled: true, weight: 1, required: false },
+  pd: { enabled: true, weight: 1, required: false },
+  killzone: { enabled: false, weight: 1, required: false },
+  breaker: { enabled: false, weight: 0.5, required: false },
+  mitigation: { enabled: false, weight: 0.5, required: false },
+  ifvg: { enabled: false, weight: 0.5, required: false },
+  bpr: { enabled: false, weight: 0.5, required: false },
+  vi: { enabled: false, weight: 0.5, required: false },
+};
+
+const BASE: Config = {
+  swingLength: 5,
+  pivotConfirmation: 5,
+  obLookback: 10,
+  obImpulse: 1.2,
+  fvgSizeRatio: 0.3,
+  fvgMinSize: 0,
+  fvgSizeUnit: 'atr',
+  displacement: 0,
+  chartPadding: 0.1,
+  scoring: SCORING,
+  scoreThreshold: 2,
+  rrRatio: 2,
+  slBuffer: 0.1,
+  htfFilter: 'flag',
+  entryMode: 'market',
+  signalMode: 'close',
+  liquidityTolerance: 0.05,
+  killzones: [
+    { id: 'asia', label: 'Asia', start: '20:00', end: '00:00', color: '#a855f7' },
+    { id: 'london', label: 'London', start: '02:00', end: '05:00', color: '#3b82f6' },
+    { id: 'newyork', label: 'New York', start: '07:00', end: '10:00', color: '#f97316' },
+  ]
+};
+
+const allFactors = Object.fromEntries(Object.entries(SCORING).map(([f, rule]) => [f, { ...rule, enabled: true }])) as ScoringModel;
+
+const REFERENCE_CASES: Record<string, { config: Config; htfBias?: HTFBias }> = {
+  market: { config: BASE },
+  zone: {
+    config: { ...BASE, swingLength: 3, pivotConfirmation: 2, obLookback: 5, fvgMinSize: 0.2, displacement: 0.3, entryMode: 'zone', scoreThreshold: 1.5 },
+    htfBias: { direction: 'bullish', score: 2, votes: [] }
+  },
+  ote: {
+    config: { ...BASE, swingLength: 4, pivotConfirmation: 3, obImpulse: 0.8, fvgSizeRatio: 0.1, scoring: allFactors, scoreThreshold: 3, entryMode: 'ote', htfFilter: 'block', liquidityTolerance: 0.1, rrRatio: 3 },
+    htfBias: { direction: 'bearish', score: -1, votes: [] }
+  }
+};
+
+// Order-independent JSON of a result, so only values count
+const canonical = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(v => v === undefined ? 'null' : canonical(v)).join(',')}]`;
+  if (value !== null && typeof value === 'object') {
+    const obj = value as Record<string, unknown>;
+    return `{${Object.keys(obj).sort().filter(k => obj[k] !== undefined).map(k => `${JSON.stringify(k)}:${canonical(obj[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+};
+
+const digest = (value: unknown) => createHash('sha1').update(canonical(value)).digest('hex').slice(0, 12);
+
+const loadFixture = (name: string): Candle[] =>
+  parseCandleFile(readFileSync(new URL(`./fixtures/${name}.csv`, import.meta.url), 'utf8'), `${name}.csv`);
+
+const cases = Object.keys(REFERENCE).flatMap(fixture => Object.keys(REFERENCE_CASES).map(label => [fixture, label]));
+
+describe('reference analysis', () => {
+  it.each(cases)('full rescans reproduce the pre-refactor output (%s, %s)', (fixture, label) => {
+    const candles = loadFixture(fixture);
+    const { config, htfBias } = REFERENCE_CASES[label];
+    const rows = REFERENCE[fixture][label];
+    expect(rows.length).toBeGreaterThan(0);
+    const actual = rows.map(([time]) => {
+      const end = candles.findIndex(c => c.time === time) + 1;
+      return [time, digest(analyzePriceData(candles.slice(0, end), config, htfBias))];
+    });
+    expect(actual).toEqual(rows);
+  });
+
+  it.each(cases)('a live replay reproduces the pre-refactor output (%s, %s)', (fixture, label) => {
+    const candles = loadFixture(fixture);
+    const { config, htfBias } = REFERENCE_CASES[label];
+    const rows = REFERENCE[fixture][label];
+    const start = candles.findIndex(c => c.time === rows[0][0]);
+    let state: AnalysisState | undefined = updateAnalysis(undefined, candles.slice(0, start), config, htfBias).state;
+    const actual = rows.map(([time], k) => {
+      const closed = candles.slice(0, start + k);
+      // A forming tick first, so the closing update continues from a live state
+      state = updateAnalysis(state, [...closed, formingBar(candles[start + k], 0.5)], config, htfBias).state;
+      const next = updateAnalysis(state, candles.slice(0, start + k + 1), config, htfBias);
+      state = next.state;
+      return [time, digest(next.result)];
+    });
+    expect(actual).toEqual(rows);
+  });
+});
@@ -0,0 +1,69 @@
+
+import { describe, expect, it } from 'vitest';
+import { Candle, SignalEvent } from '../types';
+import { createEmptyAnalysis } from '../services/technicalAnalysis';
+import { DEFAULT_CONFIG } from '../services/parameters';
+import { LIMIT_EXPIRY_BARS } from '../services/backtest';
+import { createSignalEvent, recordSignal, resolveSignals } from '../services/signalHistory';
+
+const BAR = 15 * 60 * 1000;
+
+const bar = (i: number, low: number, high: number): Candle => ({ time: i * BAR, open: low, high, low, close: high, volume: 1 });
+
+// BUY at 100, stop 95, target 110, fired on bar 0
+const signal = (patch: Partial<SignalEvent> = {}): SignalEvent => ({
+  id: 'a',
+  symbol: 'BTCUSDT',
+  interval: '15m',
+  time: 0,
+  side: 'BUY',
+  breakdown: createEmptyAnalysis(DEFAULT_CONFIG).breakdown.bullish,
+  entryPrice: 100,
+  entryType: 'market',
+  slPrice: 95,
+  tpPrice: 110,
+  filled: true,
+  outcome: 'open',
+  ...patch
+});
+
+const resolve = (event: SignalEvent, candles: Candle[]) => resolveSignals([event], 'BTCUSDT', '15m', candles)[0];
+
+describe('signal history', () => {
+  it('only records directional signals', () => {
+    const analysis = createEmptyAnalysis(DEFAULT_CONFIG);
+    expect(createSignalEvent('BTCUSDT', '15m', 0, analysis)).toBeNull();
+    const event = createSignalEvent('BTCUSDT', '15m', 0, { ...analysis, signal: 'SELL', entryPrice: 100, slPrice: 105, tpPrice: 90 });
+    expect(event).toMatchObject({ side: 'SELL', entryType: 'market', filled: true, outcome: 'open' });
+  });
+
+  it('records a bar once however often it is re-analysed', () => {
+    const history = recordSignal([], signal());
+    expect(recordSignal(history, signal({ id: 'b' }))).toBe(history);
+    expect(recordSignal(history, signal({ id: 'b', time: BAR }))).toHaveLength(2);
+  });
+
+  it('settles on whichever level is hit first, ignoring the signal bar', () => {
+    expect(resolve(signal(), [bar(0, 90, 120), bar(1, 99, 111)])).toMatchObject({ outcome: 'tp', outcomeTime: BAR });
+    expect(resolve(signal(), [bar(0, 90, 120), bar(1, 94, 101)])).toMatchObject({ outcome: 'sl', outcomeTime: BAR });
+    expect(resolve(signal(), [bar(0, 90, 120), bar(1, 94, 111)]).outcome).toBe('sl');
+  });
+
+  it('leaves the history untouched while nothing settles', () => {
+    const history = [signal()];
+    expect(resolveSignals(history, 'BTCUSDT', '15m', [bar(0, 90, 120), bar(1, 98, 102)])).toBe(history);
+    expect(resolveSignals(history, 'ETHUSDT', '15m', [bar(0, 90, 120), bar(1, 94, 111)])).toBe(history);
+  });
+
+  it('waits for a limit entry to fill and only checks the stop on the fill bar', () => {
+    const limit = signal({ entryType: 'limit', filled: false });
+    const filled = resolve(limit, [bar(1, 101, 112), bar(2, 99, 112)]);
+    expect(filled).toMatchObject({ filled: true, outcome: 'open' });
+    expect(resolve(limit, [bar(1, 101, 112), bar(2, 99, 112), bar(3, 100, 111)]).outcome).toBe('tp');
+  });
+
+  it('expires a limit entry that never fills', () => {
+    const candles = Array.from({ length: LIMIT_EXPIRY_BARS }, (_, i) => bar(i + 1, 101, 105));
+    expect(resolve(signal({ entryType: 'limit', filled: false }), candles)).toMatchObject({ outcome: 'expired', filled: false });
+  });
+});
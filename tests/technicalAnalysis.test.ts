@@ -0,0 +1,207 @@
+
+import { describe, expect, it } from 'vitest';
+import { Config, ConfluenceFactor, ScoringModel } from '../types';
+import { analyzePriceData } from '../services/technicalAnalysis';
+import { findPivots, pivotAt } from '../services/marketStructure';
+import { DEFAULT_CONFIG } from '../services/parameters';
+import { DEFAULT_SCORING } from '../services/scoring';
+import { bars } from './helpers';
+
+// Shallow pivots so a dozen bars are enough to form structure
+const CONFIG: Config = { ...DEFAULT_CONFIG, swingLength: 2, pivotConfirmation: 2 };
+
+// A model that scores only `factors`, so one pattern alone decides the signal
+const only = (...factors: ConfluenceFactor[]): ScoringModel =>
+  Object.fromEntries(Object.entries(DEFAULT_SCORING).map(([f, rule]) => [f, { ...rule, enabled: factors.includes(f as ConfluenceFactor) }])) as ScoringModel;
+
+// Candle 1 displaces up and leaves 101-103 untraded between candles 0 and 2
+const BULL_FVG = bars([
+  [100, 101, 99, 100.5],
+  [100.5, 106, 100.4, 105.8],
+  [105.8, 107, 103, 106.5],
+]);
+
+// The mirror image: 97-99 left untraded on the way down
+const BEAR_FVG = bars([
+  [100, 101, 99, 99.5],
+  [99.5, 99.6, 94, 94.2],
+  [94.2, 97, 93, 93.5],
+]);
+
+// Pivot high at 2 (104), pivot low at 4 (99.5); bar 7 closes above the high,
+// bar 9 closes back below the low
+const STRUCTURE = bars([
+  [100, 101, 99, 100.5],
+  [100.5, 102, 100, 101.5],
+  [101.5, 104, 101, 103],
+  [103, 103, 101, 101.5],
+  [101.5, 102, 99.5, 100],
+  [100, 101.5, 100, 101],
+  [101, 103, 101, 102.5],
+  [102.5, 105, 102.3, 104.8],
+  [104.8, 105.5, 103, 103.5],
+  [103.5, 104, 99, 99.2],
+]);
+
+// Equal lows at 100 and 100.02 pool sell-side liquidity; bar 9 runs below
+// them and closes back inside
+const SWEEP = bars([
+  [101, 102, 100.5, 101.5],
+  [101.5, 102, 100.8, 101],
+  [101, 101.5, 100, 100.8],
+  [100.8, 102, 100.6, 101.8],
+  [101.8, 103, 101.5, 102.5],
+  [102.5, 102.8, 101, 101.2],
+  [101.2, 101.4, 100.02, 100.5],
+  [100.5, 101.8, 100.4, 101.5],
+  [101.5, 102.2, 101, 101.8],
+  [101.8, 102, 99.6, 100.9],
+]);
+
+describe('fair value gaps', () => {
+  it('finds a bullish gap between the wicks either side of a displacement candle', () => {
+    const { fvgs } = analyzePriceData(BULL_FVG, CONFIG);
+    expect(fvgs).toEqual([expect.objectContaining({ type: 'bullish', top: 103, bottom: 101, index: 1, startTime: BULL_FVG[1].time, status: 'untouched' })]);
+  });
+
+  it('finds a bearish gap', () => {
+    const { fvgs } = analyzePriceData(BEAR_FVG, CONFIG);
+    expect(fvgs).toEqual([expect.objectContaining({ type: 'bearish', top: 99, bottom: 97, index: 1, status: 'untouched' })]);
+  });
+
+  it('ignores a gap that is small next to the candle that left it', () => {
+    expect(analyzePriceData(BULL_FVG, { ...CONFIG, fvgSizeRatio: 0.4 }).fvgs).toEqual([]);
+  });
+
+  it('fills, then invalidates, as price trades back through the gap', () => {
+    const partial = analyzePriceData([...BULL_FVG, ...bars([[106.5, 107, 102, 104]], BULL_FVG[2].time + 15 * 60 * 1000)], CONFIG);
+    expect(partial.fvgs[0]).toMatchObject({ status: 'partial', fillPercent: 50, isValid: true });
+
+    const broken = analyzePriceData([...BULL_FVG, ...bars([[106.5, 107, 100, 100.5]], BULL_FVG[2].time + 15 * 60 * 1000)], CONFIG);
+    expect(broken.fvgs[0]).toMatchObject({ status: 'invalidated', isValid: false, mitigatedIndex: 3 });
+  });
+});
+
+describe('order blocks', () => {
+  it('marks the last down candle before a bullish impulse', () => {
+    const { orderBlocks } = analyzePriceData(bars([
+      [100, 100.5, 99, 99.2],
+      [99.2, 102, 99.1, 101.5],
+    ]), CONFIG);
+    expect(orderBlocks).toEqual([expect.objectContaining({ type: 'bullish', top: 100.5, bottom: 99, index: 0 })]);
+  });
+
+  it('marks the last up candle before a bearish impulse', () => {
+    const { orderBlocks } = analyzePriceData(bars([
+      [100, 101, 99.5, 100.8],
+      [100.8, 100.9, 98, 98.5],
+    ]), CONFIG);
+    expect(orderBlocks).toEqual([expect.objectContaining({ type: 'bearish', top: 101, bottom: 99.5, index: 0 })]);
+  });
+
+  it('needs the impulse body to outsize the block candle', () => {
+    const candles = bars([
+      [100, 100.5, 99, 99.2],
+      [99.2, 101, 99.1, 100.8],
+    ]);
+    expect(analyzePriceData(candles, CONFIG).orderBlocks).toEqual([]);
+    expect(analyzePriceData(candles, { ...CONFIG, obImpulse: 1 }).orderBlocks).toHaveLength(1);
+  });
+});
+
+describe('pivots', () => {
+  it('finds swing points that beat every neighbour on both sides', () => {
+    expect(findPivots(STRUCTURE, 'high', 2)).toEqual([{ val: 104, idx: 2, time: STRUCTURE[2].time }]);
+    expect(findPivots(STRUCTURE, 'low', 2)).toEqual([{ val: 99.5, idx: 4, time: STRUCTURE[4].time }]);
+  });
+
+  it('does not count a tie as a pivot', () => {
+    const candles = bars([
+      [100, 101, 99, 100],
+      [100, 102, 99, 100],
+      [100, 103, 99, 100],
+      [100, 103, 99, 100],
+      [100, 101, 99, 100],
+      [100, 100, 99, 100],
+    ]);
+    expect(findPivots(candles, 'high', 2)).toEqual([]);
+  });
+
+  it('waits for the confirmation bars to print', () => {
+    expect(pivotAt(STRUCTURE.slice(0, 4), 2, 'high', 2)).toBeNull();
+    expect(pivotAt(STRUCTURE.slice(0, 4), 2, 'high', 2, 1)).toMatchObject({ val: 104, idx: 2 });
+  });
+});
+
+describe('market structure', () => {
+  it('reports a BOS on a close through the swing high, then a ChoCh through the swing low', () => {
+    const result = analyzePriceData(STRUCTURE, CONFIG);
+    expect(result.structure).toEqual([
+      { type: 'BOS', direction: 'bullish', price: 104, index: 7, time: STRUCTURE[7].time, pivotIndex: 2, pivotTime: STRUCTURE[2].time },
+      { type: 'ChoCh', direction: 'bearish', price: 99.5, index: 9, time: STRUCTURE[9].time, pivotIndex: 4, pivotTime: STRUCTURE[4].time },
+    ]);
+    expect(result.trend).toBe('bearish');
+  });
+
+  it('ignores a wick through the level that closes back inside', () => {
+    const wick = STRUCTURE.slice(0, 8).map((c, i) => i === 7 ? { ...c, close: 103.8 } : c);
+    expect(analyzePriceData(wick, CONFIG).structure).toEqual([]);
+  });
+});
+
+describe('liquidity sweeps', () => {
+  it('pools equal lows and flags the sweep once price closes back above them', () => {
+    const result = analyzePriceData(SWEEP, CONFIG);
+    expect(result.liquidity).toContainEqual(expect.objectContaining({ side: 'sell', kind: 'equal', price: 100, swept: true, sweptIndex: 9 }));
+    expect(result.confluences.bullish.sweep).toBe(true);
+    expect(result.confluences.bearish.sweep).toBe(false);
+  });
+
+  it('is a breakdown, not a sweep, when price closes below the pool', () => {
+    const breakdown = SWEEP.map((c, i) => i === 9 ? { ...c, close: 99.8 } : c);
+    expect(analyzePriceData(breakdown, CONFIG).confluences.bullish.sweep).toBe(false);
+  });
+});
+
+describe('signal levels', () => {
+  const config: Config = { ...CONFIG, scoring: only('bos'), scoreThreshold: 1, slBuffer: 0.1, rrRatio: 2 };
+
+  it('buys at the close with the stop under the bar low and the target at R multiples', () => {
+    const result = analyzePriceData(STRUCTURE.slice(0, 8), config);
+    const sl = 102.3 * 0.999;
+    expect(result).toMatchObject({ signal: 'BUY', entryPrice: 104.8, entryType: 'market', rrRatio: 2 });
+    expect(result.slPrice).toBeCloseTo(sl, 9);
+    expect(result.tpPrice).toBeCloseTo(104.8 + (104.8 - sl) * 2, 9);
+    expect(result.pnlEstimate).toBeCloseTo((result.tpPrice! - 104.8) / 104.8 * 100, 9);
+  });
+
+  it('sells at the close with the stop over the order block price traded from', () => {
+    const result = analyzePriceData(STRUCTURE, config);
+    const sl = 105 * 1.001;
+    expect(result.orderBlocks).toContainEqual(expect.objectContaining({ type: 'bearish', top: 105, bottom: 102.3, index: 7 }));
+    expect(result).toMatchObject({ signal: 'SELL', entryPrice: 99.2, entryType: 'market' });
+    expect(result.slPrice).toBeCloseTo(sl, 9);
+    expect(result.tpPrice).toBeCloseTo(99.2 - (sl - 99.2) * 2, 9);
+  });
+
+  it('rests a zone entry at the near edge of the gap with the stop past the far edge', () => {
+    const candles = [...BULL_FVG, ...bars([[106.5, 107, 102.5, 104]], BULL_FVG[2].time + 15 * 60 * 1000)];
+    const result = analyzePriceData(candles, { ...CONFIG, scoring: only('fvg'), scoreThreshold: 1, entryMode: 'zone' });
+    const sl = 101 * 0.999;
+    expect(result).toMatchObject({ signal: 'BUY', entryPrice: 103, entryType: 'limit' });
+    expect(result.slPrice).toBeCloseTo(sl, 9);
+    expect(result.tpPrice).toBeCloseTo(103 + (103 - sl) * 2, 9);
+  });
+
+  it('drops a signal against the HTF bias unless the filter only flags it', () => {
+    const bearish = { direction: 'bearish' as const, score: -1, votes: [] };
+    expect(analyzePriceData(STRUCTURE.slice(0, 8), config, bearish).signal).toBe('NEUTRAL');
+    expect(analyzePriceData(STRUCTURE.slice(0, 8), { ...config, htfFilter: 'flag' }, bearish)).toMatchObject({ signal: 'BUY', counterHTF: true });
+  });
+
+  it('stays neutral below the score threshold', () => {
+    const result = analyzePriceData(STRUCTURE.slice(0, 8), { ...config, scoreThreshold: 2 });
+    expect(result.signal).toBe('NEUTRAL');
+    expect(result.entryPrice).toBeUndefined();
+  });
+});
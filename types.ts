@@ -8,6 +8,15 @@ export interface Candle {
   volume: number;
 }
 
+export type ZoneStatus = 'untouched' | 'partial' | 'mitigated' | 'invalidated';
+
+export interface MarketSymbol {
+  symbol: string;
+  name: string;
+  short: string;
+  icon?: string;
+}
+
 export interface OrderBlock {
   type: 'bullish' | 'bearish';
   top: number;
@@ -15,6 +24,10 @@ export interface OrderBlock {
   index: number;
   startTime: number;
   isValid: boolean;
+  status: ZoneStatus;
+  fillPercent: number;
+  mitigatedIndex?: number;
+  mitigatedTime?: number;
 }
 
 export interface FVG {
@@ -24,14 +37,99 @@ export interface FVG {
   index: number;
   startTime: number;
   isValid: boolean;
+  status: ZoneStatus;
+  fillPercent: number;
+  mitigatedIndex?: number;
+  mitigatedTime?: number;
+}
+
+// Arrays derived from OBs and FVGs. `index` is the bar the array became active
+// on; `startTime` is where it is drawn from.
+interface PDArrayBase {
+  type: 'bullish' | 'bearish';
+  top: number;
+  bottom: number;
+  index: number;
+  startTime: number;
+  isValid: boolean;
+  invalidatedIndex?: number;
+  invalidatedTime?: number;
+}
+
+// Failed OB whose move ran the prior swing before structure broke the other way
+export interface BreakerBlock extends PDArrayBase {
+  kind: 'breaker';
+}
+
+// Failed OB whose move could not make a new extreme before structure broke
+export interface MitigationBlock extends PDArrayBase {
+  kind: 'mitigation';
 }
 
+// FVG that price closed through, now acting with the opposite polarity
+export interface InversionFVG extends PDArrayBase {
+  kind: 'ifvg';
+}
+
+// Overlap of a bullish and a bearish FVG formed close together
+export interface BalancedPriceRange extends PDArrayBase {
+  kind: 'bpr';
+}
+
+// Gap between the bodies of two same-direction candles whose wicks overlap
+export interface VolumeImbalance extends PDArrayBase {
+  kind: 'vi';
+}
+
+export type PDArray = BreakerBlock | MitigationBlock | InversionFVG | BalancedPriceRange | VolumeImbalance;
+export type PDArrayKind = PDArray['kind'];
+
+export interface SwingPivot {
+  val: number;
+  idx: number;
+  time: number;
+}
+
+export type Trend = 'bullish' | 'bearish' | null;
+
 export interface MarketStructure {
   type: 'BOS' | 'ChoCh';
   direction: 'bullish' | 'bearish';
   price: number;
   index: number;
   time: number;
+  pivotIndex: number;
+  pivotTime: number;
+}
+
+// Resting orders above highs (buy-side, BSL) or below lows (sell-side, SSL)
+export interface LiquidityPool {
+  side: 'buy' | 'sell';
+  kind: 'equal' | 'daily' | 'weekly' | 'session';
+  label: string;
+  price: number;
+  startTime: number;
+  // First bar that can take the pool; earlier bars formed it
+  index: number;
+  touches: number;
+  swept: boolean;
+  sweptIndex?: number;
+  sweptTime?: number;
+}
+
+// Swing range price is currently dealing in, split at equilibrium into a
+// premium (sell) half and a discount (buy) half
+export interface DealingRange {
+  high: number;
+  low: number;
+  highTime: number;
+  lowTime: number;
+  direction: 'bullish' | 'bearish';
+  equilibrium: number;
+  oteTop: number;
+  oteBottom: number;
+  oteEntry: number;
+  zone: 'premium' | 'discount' | 'equilibrium';
 }
 
 export interface ConfluenceDetails {
@@ -39,6 +137,57 @@ export interface ConfluenceDetails {
   fvg: boolean;
   bos: boolean;
   sweep: boolean;
+  htf: boolean;
+  pd: boolean;
+  killzone: boolean;
+  breaker: boolean;
+  mitigation: boolean;
+  ifvg: boolean;
+  bpr: boolean;
+  vi: boolean;
+}
+
+export type ConfluenceFactor = keyof ConfluenceDetails;
+
+// How one factor feeds the score. A required factor must be present for a
+// signal whatever the total.
+export interface FactorRule {
+  enabled: boolean;
+  weight: number;
+  required: boolean;
+}
+
+export type ScoringModel = Record<ConfluenceFactor, FactorRule>;
+
+export interface FactorScore {
+  factor: ConfluenceFactor;
+  label: string;
+  met: boolean;
+  required: boolean;
+  weight: number;
+  points: number;
+}
+
+// Enabled factors only, in checklist order
+export interface ScoreBreakdown {
+  score: number;
+  maxScore: number;
+  threshold: number;
+  factors: FactorScore[];
+  missingRequired: ConfluenceFactor[];
+  qualifies: boolean;
+}
+
+export interface HTFBias {
+  direction: 'bullish' | 'bearish' | 'neutral';
+  score: number;
+  votes: {
+    interval: string;
+    trend: Trend;
+    inBullZone: boolean;
+    inBearZone: boolean;
+    vote: number;
+  }[];
 }
 
 export interface AnalysisResult {
@@ -51,27 +200,338 @@ export interface AnalysisResult {
   orderBlocks: OrderBlock[];
   fvgs: FVG[];
   structure: MarketStructure[];
+  liquidity: LiquidityPool[];
+  pdArrays: PDArray[];
+  breakdown: {
+    bullish: ScoreBreakdown;
+    bearish: ScoreBreakdown;
+  };
+  dealingRange?: DealingRange;
+  trend: Trend;
   signal: 'BUY' | 'SELL' | 'NEUTRAL';
   entryPrice?: number;
+  entryType?: 'market' | 'limit';
   slPrice?: number;
   tpPrice?: number;
   rrRatio?: number;
   pnlEstimate?: number;
+  counterHTF?: boolean;
+  killzone?: string;
 }
 
 export interface Config {
   swingLength: number;
+  // Bars after a pivot before it is confirmed as a swing
+  pivotConfirmation: number;
+  // Bars back from an impulse candle searched for the last opposing candle
   obLookback: number;
-  minConfluence: number;
+  // Impulse body must exceed the order block candle's range by this multiple
+  obImpulse: number;
+  // Gap must exceed this fraction of the middle candle's range
+  fvgSizeRatio: number;
+  // Absolute floor on gap height, in ATR multiples or price points; 0 disables
+  fvgMinSize: number;
+  fvgSizeUnit: 'atr' | 'points';
+  // Impulse and gap candles need a body of at least this many ATRs; 0 disables
+  displacement: number;
+  // Headroom above and below price on the chart's y-axis, in percent
+  chartPadding: number;
+  scoring: ScoringModel;
+  // Weighted score a side needs before it signals
+  scoreThreshold: number;
   rrRatio: number;
   slBuffer: number;
+  htfFilter: 'flag' | 'block';
+  entryMode: EntryMode;
+  signalMode: SignalMode;
+  // Percent apart two swing points may be and still count as equal highs/lows
+  liquidityTolerance: number;
+  killzones: KillzoneWindow[];
 }
 
-export type DrawingType = 'trendline' | 'horizontal' | 'fib';
+export type NumericParameter = 'swingLength' | 'pivotConfirmation' | 'obLookback' | 'obImpulse' | 'fvgSizeRatio' | 'fvgMinSize' | 'displacement' | 'chartPadding';
+
+// A named parameter set saved for one symbol
+export interface ConfigPreset {
+  id: string;
+  name: string;
+  symbol: string;
+  config: Config;
+  savedAt: number;
+}
+
+// 'close' only signals on completed bars; 'intrabar' re-evaluates the forming bar on every tick
+export type SignalMode = 'close' | 'intrabar';
+
+// A signal as it stood when its bar closed, followed until price reaches its SL or TP
+export interface SignalEvent {
+  id: string;
+  symbol: string;
+  interval: string;
+  // Open time of the bar the signal fired on
+  time: number;
+  side: 'BUY' | 'SELL';
+  breakdown: ScoreBreakdown;
+  entryPrice: number;
+  entryType: 'market' | 'limit';
+  slPrice: number;
+  tpPrice: number;
+  // Limit entries wait for price to come back to them
+  filled: boolean;
+  // 'expired' is a limit entry that never filled
+  outcome: 'open' | 'tp' | 'sl' | 'expired';
+  outcomeTime?: number;
+}
+
+// Market enters at the close; 'zone' and 'ote' rest a limit at the nearest
+// OB/FVG edge or at the OTE level of the dealing range
+export type EntryMode = 'market' | 'zone' | 'ote';
+
+// Session window in New York wall-clock time ('HH:MM'); may wrap past midnight
+export interface KillzoneWindow {
+  id: string;
+  label: string;
+  start: string;
+  end: string;
+  color: string;
+}
+
+export interface SessionRange {
+  id: string;
+  label: string;
+  color: string;
+  startTime: number;
+  endTime: number;
+  high: number;
+  low: number;
+}
+
+export interface SessionOverlay {
+  ranges: SessionRange[];
+  midnightOpens: { time: number; price: number }[];
+}
+
+export type DrawingType = 'trendline' | 'ray' | 'horizontal' | 'vertical' | 'fib' | 'rectangle' | 'long' | 'short' | 'text';
+
+export type DrawingLineStyle = 'solid' | 'dashed' | 'dotted';
 
 export interface Drawing {
   id: string;
   type: DrawingType;
   points: { time: number; price: number }[];
   color: string;
+  width?: number;
+  lineStyle?: DrawingLineStyle;
+  label?: string;
+  // Fib only: retracement levels as fractions of the swing, and OTE shading
+  fibLevels?: number[];
+  showOte?: boolean;
+}
+
+export interface BacktestTrade {
+  side: 'BUY' | 'SELL';
+  entryIndex: number;
+  entryTime: number;
+  entryPrice: number;
+  slPrice: number;
+  tpPrice: number;
+  exitIndex: number;
+  exitTime: number;
+  exitPrice: number;
+  outcome: 'win' | 'loss' | 'open';
+  rMultiple: number;
+  pnlPercent: number;
+  score: number;
+}
+
+export interface BacktestResult {
+  trades: BacktestTrade[];
+  totalTrades: number;
+  wins: number;
+  losses: number;
+  winRate: number;
+  expectancy: number;
+  profitFactor: number;
+  maxDrawdown: number;
+  netR: number;
+  equityCurve: { time: number; equity: number }[];
+}
+
+export type OptimizerMetric = 'expectancy' | 'profitFactor' | 'sharpe';
+
+export type OptimizableParameter = 'swingLength' | 'scoreThreshold' | 'rrRatio' | 'slBuffer' | 'obLookback' | 'obImpulse';
+
+export interface ParameterRange {
+  key: OptimizableParameter;
+  enabled: boolean;
+  min: number;
+  max: number;
+  step: number;
+}
+
+export interface OptimizerSettings {
+  method: 'grid' | 'random';
+  // Candidates drawn by the random search
+  samples: number;
+  metric: OptimizerMetric;
+  // Walk-forward splits; each trains on `trainRatio` of the bars and tests on the slice after it
+  folds: number;
+  trainRatio: number;
+  ranges: ParameterRange[];
+}
+
+export interface OptimizerRun {
+  params: Pick<Config, OptimizableParameter>;
+  // Metric over the most recent training window, the one a live config would be fitted on
+  score: number;
+  trades: number;
+  // Walk-forward folds that picked this combination
+  picks: number;
+}
+
+export interface WalkForwardFold {
+  // The combination that scored best on this fold's training slice
+  params: Pick<Config, OptimizableParameter>;
+  inSample: number;
+  // The same combination on the test slice straight after
+  outOfSample: number;
+  testTrades: number;
+  netR: number;
+}
+
+export interface OptimizerResult {
+  folds: WalkForwardFold[];
+  // Metric averaged over each fold's pick on its training slice
+  inSample: number;
+  // Metric over the picks' test-slice trades stitched together
+  outOfSample: number;
+  // Out-of-sample over in-sample; null when in-sample is not positive
+  efficiency: number | null;
+  testTrades: number;
+  netR: number;
+  profitableFolds: number;
+  // Every candidate, ranked on the most recent training window
+  runs: OptimizerRun[];
+}
+
+export type OrderSide = 'BUY' | 'SELL';
+export type OrderType = 'market' | 'limit' | 'stop';
+
+export interface PaperOrder {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  type: OrderType;
+  price?: number;
+  quantity: number;
+  slPrice: number;
+  tpPrice?: number;
+  breakEvenAtR?: number;
+  createdAt: number;
+}
+
+export interface PaperPosition {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  entryPrice: number;
+  quantity: number;
+  slPrice: number;
+  initialSlPrice: number;
+  tpPrice?: number;
+  breakEvenAtR?: number;
+  openedAt: number;
+}
+
+export interface ClosedTrade {
+  id: string;
+  symbol: string;
+  side: OrderSide;
+  entryPrice: number;
+  exitPrice: number;
+  quantity: number;
+  openedAt: number;
+  closedAt: number;
+  pnl: number;
+  rMultiple: number;
+  reason: 'tp' | 'sl' | 'breakeven' | 'manual';
+}
+
+export interface PaperAccount {
+  startingBalance: number;
+  balance: number;
+  orders: PaperOrder[];
+  positions: PaperPosition[];
+  journal: ClosedTrade[];
+}
+
+export interface ContractSpec {
+  contractSize: number;
+  tickSize: number;
+  tickValue: number;
+  minLot: number;
+  lotStep: number;
+  marginRate: number;
+}
+
+export interface RiskSettings {
+  equitySource: 'paper' | 'manual';
+  manualEquity: number;
+  riskPercent: number;
+  contracts: Record<string, ContractSpec>;
+}
+
+export interface PositionSize {
+  lots: number;
+  units: number;
+  dollarRisk: number;
+  dollarReward: number;
+  margin: number;
+  targetRisk: number;
+  belowMinLot: boolean;
+}
+
+export type AlertRuleType = 'price_cross' | 'drawing_cross' | 'signal' | 'score' | 'zone_entry' | 'structure';
+
+export interface AlertRule {
+  id: string;
+  symbol: string;
+  type: AlertRuleType;
+  enabled: boolean;
+  trigger: 'once' | 'repeat';
+  cooldownBars: number;
+  direction?: 'bullish' | 'bearish' | 'any';
+  level?: number;
+  drawingId?: string;
+  scoreThreshold?: number;
+  structureType?: 'BOS' | 'ChoCh' | 'any';
+  lastFiredBar?: number;
+  createdAt: number;
+}
+
+export interface AlertEvent {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  message: string;
+  barTime: number;
+  firedAt: number;
+}
+
+export interface ScanRow {
+  symbol: string;
+  interval: string;
+  price: number;
+  bullScore: number;
+  bearScore: number;
+  signal: 'BUY' | 'SELL' | 'NEUTRAL';
+  confluences: string[];
+  nearestZone?: { label: string; distancePercent: number };
+  rrRatio?: number;
+  updatedAt: number;
+}
+
+export interface Watchlist {
+  symbols: string[];
+  intervals: string[];
 }